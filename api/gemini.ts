@@ -1,17 +1,11 @@
+import {
+  FacilityCategory,
+  describeFacilityCounts,
+} from "../src/services/categoryTaxonomy";
+
 interface LocationData {
   address: string;
-  facilityCounts: {
-    health: number;
-    education: number;
-    market: number;
-    transport: number;
-    walkability: number;
-    recreation: number;
-    safety: number;
-    police: number;
-    religious: number;
-    accessibility: number;
-  };
+  facilityCounts: Record<FacilityCategory, number>;
   scores: {
     overall: number;
     services: number;
@@ -20,6 +14,10 @@ interface LocationData {
     environment: number;
   };
   nearbyFacilities: string[];
+  populationReach?: {
+    minutes: number;
+    residents: number; // Residents within `minutes` of walking
+  };
 }
 
 type UserMode = "residents" | "business-owner" | "urban-planner";
@@ -170,36 +168,30 @@ function generatePrompt(
     language === "id"
       ? `Lokasi: ${locationData.address}
 Skor Keseluruhan: ${locationData.scores.overall}/100
-Fasilitas: ${locationData.facilityCounts.health} kesehatan, ${
-          locationData.facilityCounts.education
-        } pendidikan, ${locationData.facilityCounts.market} belanja, ${
-          locationData.facilityCounts.transport
-        } transportasi, ${
-          locationData.facilityCounts.walkability
-        } kemudahan jalan kaki, ${
-          locationData.facilityCounts.recreation
-        } rekreasi
+Fasilitas: ${describeFacilityCounts(locationData.facilityCounts, "id")}
 Skor: Layanan ${locationData.scores.services}, Mobilitas ${
           locationData.scores.mobility
         }, Keamanan ${locationData.scores.safety}, Lingkungan ${
           locationData.scores.environment
         }
-Terdekat: ${locationData.nearbyFacilities.slice(0, 5).join(", ")}`
+Terdekat: ${locationData.nearbyFacilities.slice(0, 5).join(", ")}${
+          locationData.populationReach
+            ? `\nPenduduk dalam ${locationData.populationReach.minutes} menit jalan kaki: ${locationData.populationReach.residents}`
+            : ""
+        }`
       : `Location: ${locationData.address}
 Overall Score: ${locationData.scores.overall}/100
-Facilities: ${locationData.facilityCounts.health} healthcare, ${
-          locationData.facilityCounts.education
-        } education, ${locationData.facilityCounts.market} shopping, ${
-          locationData.facilityCounts.transport
-        } transport, ${locationData.facilityCounts.walkability} walkability, ${
-          locationData.facilityCounts.recreation
-        } recreation
+Facilities: ${describeFacilityCounts(locationData.facilityCounts, "en")}
 Scores: Services ${locationData.scores.services}, Mobility ${
           locationData.scores.mobility
         }, Safety ${locationData.scores.safety}, Environment ${
           locationData.scores.environment
         }
-Nearby: ${locationData.nearbyFacilities.slice(0, 5).join(", ")}`;
+Nearby: ${locationData.nearbyFacilities.slice(0, 5).join(", ")}${
+          locationData.populationReach
+            ? `\nResidents within a ${locationData.populationReach.minutes}-minute walk: ${locationData.populationReach.residents}`
+            : ""
+        }`;
 
   if (language === "id") {
     switch (userMode) {
@@ -363,6 +355,8 @@ function generateFallbackSummary(
         summary += `Konektivitas transportasi yang sangat baik memastikan aksesibilitas pelanggan. `;
       if (scores.safety >= 70)
         summary += `Peringkat keamanan yang tinggi menunjukkan lingkungan bisnis yang stabil. `;
+      if (data.populationReach)
+        summary += `Sekitar ${data.populationReach.residents} penduduk tinggal dalam ${data.populationReach.minutes} menit jalan kaki. `;
 
       summary += `Pertimbangkan profil demografis dan kesenjangan layanan saat merencanakan strategi bisnis Anda.`;
     } else {
@@ -381,6 +375,8 @@ function generateFallbackSummary(
         summary += `Excellent transport connectivity ensures customer accessibility. `;
       if (scores.safety >= 70)
         summary += `High safety ratings suggest a stable business environment. `;
+      if (data.populationReach)
+        summary += `About ${data.populationReach.residents} residents live within a ${data.populationReach.minutes}-minute walk. `;
 
       summary += `Consider the demographic profile and service gaps when planning your business strategy.`;
     }
@@ -0,0 +1,425 @@
+// Server-side livability scoring
+// Scores a location (lat/lng or an address) with the same classification and
+// scoring code as the app and returns LiveabilityData plus facilities as JSON.
+//
+//   GET  /api/score?lat=-6.2&lng=106.8&profile=retiree&country=id
+//   POST /api/score { "address": "Monas, Jakarta", "distanceMode": "network" }
+//
+// Facility names are matched with the name-pattern pack of `country`, or of the
+// country the address geocodes to. With `at` (e.g. "Sa 22:00") only facilities
+// open at that time, per their opening_hours, are counted.
+import {
+  CategoryRadii,
+  DistanceMode,
+  FACILITY_DISTANCES,
+  NETWORK_SECTION,
+  analyzeLocation,
+  generateTileQuery,
+  getNetworkRadius,
+  splitSections,
+} from "../src/services/scoringCore";
+import {
+  DEFAULT_PROFILE_ID,
+  getBuiltInProfile,
+} from "../src/services/scoringProfileService";
+import { boundsAround } from "../src/services/geohashService";
+import { getNamePackForCountry } from "../src/services/namePatternPacks";
+import {
+  TimeOfWeek,
+  formatTimeOfWeek,
+  parseTimeOfWeek,
+} from "../src/services/openingHours";
+import { DEFAULT_OVERPASS_ENDPOINTS } from "../src/services/overpassEndpointService";
+import type { OverpassElement } from "../src/services/spatialIndexService";
+
+export const config = { runtime: "edge" };
+
+type ErrorCode =
+  | "METHOD_NOT_ALLOWED"
+  | "INVALID_JSON"
+  | "MISSING_LOCATION"
+  | "INVALID_COORDINATES"
+  | "INVALID_ADDRESS"
+  | "INVALID_PROFILE"
+  | "INVALID_RADII"
+  | "INVALID_DISTANCE_MODE"
+  | "INVALID_COUNTRY"
+  | "INVALID_TIME"
+  | "ADDRESS_NOT_FOUND"
+  | "GEOCODER_UNAVAILABLE"
+  | "OVERPASS_UNAVAILABLE"
+  | "INTERNAL_ERROR";
+
+interface ScoreRequest {
+  lat?: unknown;
+  lng?: unknown;
+  address?: unknown;
+  profile?: unknown;
+  radii?: unknown;
+  distanceMode?: unknown;
+  country?: unknown;
+  at?: unknown;
+}
+
+interface ValidatedRequest {
+  lat?: number;
+  lng?: number;
+  address?: string;
+  profileId: string;
+  radii: CategoryRadii;
+  distanceMode: DistanceMode;
+  countryCode?: string;
+  time?: TimeOfWeek;
+}
+
+// Thrown for any failure that maps to an error response
+class ScoreApiError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const MAX_ADDRESS_LENGTH = 300;
+const MIN_RADIUS = 100;
+const MAX_RADIUS = 3000;
+const OVERPASS_TIMEOUT = 20 * 1000;
+const GEOCODER_TIMEOUT = 8 * 1000;
+const USER_AGENT = "Futuricity/1.0 (livability score API)";
+
+// Small helper to return JSON responses
+function json(data: unknown, init?: ResponseInit) {
+  const headers = new Headers(init?.headers);
+  if (!headers.has("Content-Type"))
+    headers.set("Content-Type", "application/json");
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+function errorResponse(error: ScoreApiError) {
+  return json(
+    { error: { code: error.code, message: error.message } },
+    { status: error.status }
+  );
+}
+
+export default async function handler(req: Request): Promise<Response> {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return errorResponse(
+      new ScoreApiError("METHOD_NOT_ALLOWED", 405, "Use GET or POST")
+    );
+  }
+
+  try {
+    const request = validateRequest(await readRequest(req));
+
+    let { lat, lng, countryCode } = request;
+    let address = request.address;
+    if (lat === undefined || lng === undefined) {
+      const match = await geocodeAddress(request.address!);
+      ({ lat, lng, address } = match);
+      countryCode = countryCode ?? match.countryCode;
+    }
+    const namePack = getNamePackForCountry(countryCode).id;
+
+    const networkRadius = getNetworkRadius(request.radii);
+    const { elements, endpoint } = await queryOverpass(
+      generateTileQuery(boundsAround(lat, lng, networkRadius), namePack)
+    );
+    const sections = splitSections(elements);
+
+    const result = analyzeLocation(
+      {
+        elementsFor: (category) => sections[category] || [],
+        network: sections[NETWORK_SECTION] || [],
+      },
+      lat,
+      lng,
+      address || `${lat.toFixed(4)}, ${lng.toFixed(4)}`,
+      {
+        profile: getBuiltInProfile(request.profileId),
+        radii: request.radii,
+        distanceMode: request.distanceMode,
+        namePack,
+        time: request.time,
+      }
+    );
+    result.data.overpassEndpoints = [endpoint];
+
+    return json({
+      data: result.data,
+      facilities: result.facilities,
+      profile: request.profileId,
+      distanceMode: request.distanceMode,
+      namePack,
+      at: request.time ? formatTimeOfWeek(request.time) : null,
+    });
+  } catch (error) {
+    if (error instanceof ScoreApiError) return errorResponse(error);
+    console.error("Score API error:", error);
+    return errorResponse(
+      new ScoreApiError("INTERNAL_ERROR", 500, "Internal server error")
+    );
+  }
+}
+
+// Parameters from the query string (GET) or JSON body (POST)
+async function readRequest(req: Request): Promise<ScoreRequest> {
+  if (req.method === "GET") {
+    const params = new URL(req.url).searchParams;
+    const radii: Record<string, string> = {};
+    params.forEach((value, key) => {
+      const match = key.match(/^radius\.(\w+)$/); // e.g. radius.health=800
+      if (match) radii[match[1]] = value;
+    });
+    return {
+      lat: params.get("lat") ?? undefined,
+      lng: params.get("lng") ?? undefined,
+      address: params.get("address") ?? undefined,
+      profile: params.get("profile") ?? undefined,
+      radii: Object.keys(radii).length > 0 ? radii : undefined,
+      distanceMode: params.get("distanceMode") ?? undefined,
+      country: params.get("country") ?? undefined,
+      at: params.get("at") ?? undefined,
+    };
+  }
+
+  try {
+    const body = await req.json();
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      throw new Error("Body is not an object");
+    }
+    return body as ScoreRequest;
+  } catch {
+    throw new ScoreApiError("INVALID_JSON", 400, "Body must be a JSON object");
+  }
+}
+
+// Numbers may arrive as strings from the query string
+const toNumber = (value: unknown): number =>
+  typeof value === "number"
+    ? value
+    : typeof value === "string" && value.trim() !== ""
+    ? Number(value)
+    : NaN;
+
+function validateRequest(body: ScoreRequest): ValidatedRequest {
+  const hasLat = body.lat !== undefined && body.lat !== null;
+  const hasLng = body.lng !== undefined && body.lng !== null;
+  const hasAddress = body.address !== undefined && body.address !== null;
+
+  const request: ValidatedRequest = {
+    profileId: DEFAULT_PROFILE_ID,
+    radii: {},
+    distanceMode: "straight",
+  };
+
+  if (hasLat || hasLng) {
+    const lat = toNumber(body.lat);
+    const lng = toNumber(body.lng);
+    if (
+      !Number.isFinite(lat) ||
+      !Number.isFinite(lng) ||
+      Math.abs(lat) > 90 ||
+      Math.abs(lng) > 180
+    ) {
+      throw new ScoreApiError(
+        "INVALID_COORDINATES",
+        400,
+        "lat and lng must both be given, with lat in [-90, 90] and lng in [-180, 180]"
+      );
+    }
+    request.lat = lat;
+    request.lng = lng;
+  }
+
+  if (hasAddress) {
+    if (
+      typeof body.address !== "string" ||
+      body.address.trim() === "" ||
+      body.address.length > MAX_ADDRESS_LENGTH
+    ) {
+      throw new ScoreApiError(
+        "INVALID_ADDRESS",
+        400,
+        `address must be a non-empty string of at most ${MAX_ADDRESS_LENGTH} characters`
+      );
+    }
+    request.address = body.address.trim();
+  }
+
+  if (request.lat === undefined && request.address === undefined) {
+    throw new ScoreApiError(
+      "MISSING_LOCATION",
+      400,
+      "Provide lat and lng, or an address"
+    );
+  }
+
+  if (body.profile !== undefined && body.profile !== null) {
+    if (typeof body.profile !== "string" || !getBuiltInProfile(body.profile)) {
+      throw new ScoreApiError(
+        "INVALID_PROFILE",
+        400,
+        "profile must be the id of a built-in scoring profile"
+      );
+    }
+    request.profileId = body.profile;
+  }
+
+  if (body.radii !== undefined && body.radii !== null) {
+    if (typeof body.radii !== "object" || Array.isArray(body.radii)) {
+      throw new ScoreApiError(
+        "INVALID_RADII",
+        400,
+        "radii must map categories to meters"
+      );
+    }
+    Object.entries(body.radii).forEach(([category, value]) => {
+      const radius = toNumber(value);
+      if (!(category in FACILITY_DISTANCES)) {
+        throw new ScoreApiError(
+          "INVALID_RADII",
+          400,
+          `Unknown category "${category}"`
+        );
+      }
+      if (!Number.isFinite(radius) || radius < MIN_RADIUS || radius > MAX_RADIUS) {
+        throw new ScoreApiError(
+          "INVALID_RADII",
+          400,
+          `Radius for "${category}" must be between ${MIN_RADIUS} and ${MAX_RADIUS} meters`
+        );
+      }
+      request.radii[category as keyof CategoryRadii] = radius;
+    });
+  }
+
+  if (body.distanceMode !== undefined && body.distanceMode !== null) {
+    if (body.distanceMode !== "straight" && body.distanceMode !== "network") {
+      throw new ScoreApiError(
+        "INVALID_DISTANCE_MODE",
+        400,
+        'distanceMode must be "straight" or "network"'
+      );
+    }
+    request.distanceMode = body.distanceMode;
+  }
+
+  if (body.country !== undefined && body.country !== null) {
+    if (typeof body.country !== "string" || !/^[a-z]{2}$/i.test(body.country)) {
+      throw new ScoreApiError(
+        "INVALID_COUNTRY",
+        400,
+        "country must be a two-letter ISO 3166-1 country code"
+      );
+    }
+    request.countryCode = body.country.toLowerCase();
+  }
+
+  if (body.at !== undefined && body.at !== null) {
+    const time = typeof body.at === "string" ? parseTimeOfWeek(body.at) : null;
+    if (!time) {
+      throw new ScoreApiError(
+        "INVALID_TIME",
+        400,
+        'at must be a weekday and time, e.g. "Sa 22:00"'
+      );
+    }
+    request.time = time;
+  }
+
+  return request;
+}
+
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeout: number
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Resolve an address with Nominatim, like the app's location search
+async function geocodeAddress(
+  address: string
+): Promise<{ lat: number; lng: number; address: string; countryCode?: string }> {
+  let results: Array<{
+    lat: string;
+    lon: string;
+    display_name: string;
+    address?: { country_code?: string };
+  }>;
+  try {
+    const response = await fetchWithTimeout(
+      `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(
+        address
+      )}&limit=1&addressdetails=1`,
+      { headers: { "User-Agent": USER_AGENT } },
+      GEOCODER_TIMEOUT
+    );
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    results = await response.json();
+  } catch (error) {
+    console.error("Geocoding failed:", error);
+    throw new ScoreApiError(
+      "GEOCODER_UNAVAILABLE",
+      502,
+      "The geocoding service is unavailable, try again or send lat/lng"
+    );
+  }
+
+  if (!Array.isArray(results) || results.length === 0) {
+    throw new ScoreApiError(
+      "ADDRESS_NOT_FOUND",
+      404,
+      `No location found for "${address}"`
+    );
+  }
+  return {
+    lat: parseFloat(results[0].lat),
+    lng: parseFloat(results[0].lon),
+    address: results[0].display_name,
+    countryCode: results[0].address?.country_code,
+  };
+}
+
+// Run the query against the default Overpass endpoints in order until one answers
+async function queryOverpass(
+  query: string
+): Promise<{ elements: OverpassElement[]; endpoint: string }> {
+  for (const endpoint of DEFAULT_OVERPASS_ENDPOINTS) {
+    try {
+      const response = await fetchWithTimeout(
+        endpoint.url,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+            "User-Agent": USER_AGENT,
+          },
+          body: query,
+        },
+        OVERPASS_TIMEOUT
+      );
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      return { elements: data.elements || [], endpoint: endpoint.url };
+    } catch (error) {
+      console.warn(`Overpass endpoint ${endpoint.name} failed:`, error);
+    }
+  }
+  throw new ScoreApiError(
+    "OVERPASS_UNAVAILABLE",
+    503,
+    "OpenStreetMap data is temporarily unavailable, try again later"
+  );
+}
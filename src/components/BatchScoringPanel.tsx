@@ -0,0 +1,239 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  CheckCircle2,
+  Download,
+  FileSpreadsheet,
+  Loader2,
+  Pause,
+  Play,
+  RotateCcw,
+  Trash2,
+  Upload,
+  XCircle,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  BatchRow,
+  BatchState,
+  batchScoringService,
+} from "@/services/batchScoringService";
+import type { LivabilityOptions } from "@/services/livabilityService";
+import { useLanguage } from "./LanguageProvider";
+
+interface BatchScoringPanelProps {
+  options: LivabilityOptions; // Scoring options applied when the batch starts
+  className?: string;
+}
+
+const BatchScoringPanel: React.FC<BatchScoringPanelProps> = ({
+  options,
+  className,
+}) => {
+  const { t } = useLanguage();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [state, setState] = useState<BatchState>(() =>
+    batchScoringService.getState()
+  );
+  const { batch, fileName, rows, isRunning, started } = state;
+
+  useEffect(() => batchScoringService.subscribe(setState), []);
+
+  const total = rows.length;
+  const done = rows.filter((row) => row.status === "done").length;
+  const failed = rows.filter((row) => row.status === "failed").length;
+  const retryable = rows.filter(
+    (row) => row.status === "failed" && row.error === "error"
+  ).length;
+  const remaining = total - done - failed;
+
+  const handleFile = async (file: File) => {
+    try {
+      const parsed = await batchScoringService.loadFile(file);
+      toast.success(t("batch.loaded", { count: parsed.rows.length }));
+    } catch (error) {
+      toast.error(t("batch.invalid.csv"), {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([batchScoringService.toCsv()], {
+      type: "text/csv;charset=utf-8",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `futuricity-batch-${Date.now()}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const rowLabel = (row: BatchRow) =>
+    row.address ||
+    (row.lat !== undefined
+      ? `${row.lat.toFixed(4)}, ${row.lng!.toFixed(4)}`
+      : t("batch.row", { row: row.index + 1 }));
+
+  const rowStatus = (row: BatchRow) => {
+    switch (row.status) {
+      case "done":
+        return Math.round(row.data!.overall);
+      case "failed":
+        return t(`batch.error.${row.error}`);
+      default:
+        return t(`batch.status.${row.status}`);
+    }
+  };
+
+  return (
+    <Card className={`bg-card border-border shadow-sm ${className || ""}`}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-2">
+          <div className="w-2 h-2 bg-primary rounded-full"></div>
+          <CardTitle className="text-sm md:text-base font-semibold flex items-center gap-2">
+            <FileSpreadsheet className="w-4 h-4 text-primary" />
+            {t("batch.scoring")}
+          </CardTitle>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {t("batch.scoring.description")}
+        </p>
+      </CardHeader>
+      <CardContent className="pt-0 pb-4 space-y-3">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+          }}
+        />
+
+        {!batch ? (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full text-xs"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="w-3 h-3 mr-1" />
+            {t("batch.upload")}
+          </Button>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span className="truncate font-medium" title={fileName}>
+                {fileName}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+                onClick={() => batchScoringService.clear()}
+                title={t("batch.clear")}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+
+            <div className="space-y-1">
+              <Progress
+                value={total > 0 ? ((done + failed) / total) * 100 : 0}
+                className="h-2"
+              />
+              <p className="text-xs text-muted-foreground">
+                {t("batch.progress", { done, failed, remaining, total })}
+              </p>
+            </div>
+
+            <div className="max-h-40 overflow-y-auto space-y-1 pr-1">
+              {rows.map((row) => (
+                <div
+                  key={row.index}
+                  className="flex items-center gap-2 text-xs p-1.5 rounded bg-muted/20"
+                >
+                  {row.status === "done" ? (
+                    <CheckCircle2 className="w-3 h-3 text-green-500 shrink-0" />
+                  ) : row.status === "failed" ? (
+                    <XCircle className="w-3 h-3 text-destructive shrink-0" />
+                  ) : row.status === "pending" ? (
+                    <div className="w-3 h-3 rounded-full border border-muted-foreground/40 shrink-0" />
+                  ) : (
+                    <Loader2 className="w-3 h-3 animate-spin text-primary shrink-0" />
+                  )}
+                  <span className="flex-1 truncate" title={rowLabel(row)}>
+                    {rowLabel(row)}
+                  </span>
+                  <span
+                    className={`shrink-0 ${
+                      row.status === "done" ? "font-semibold" : "text-muted-foreground"
+                    }`}
+                    title={row.errorMessage}
+                  >
+                    {rowStatus(row)}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              {isRunning ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1 text-xs"
+                  onClick={() => batchScoringService.pause()}
+                >
+                  <Pause className="w-3 h-3 mr-1" />
+                  {t("batch.pause")}
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  className="flex-1 text-xs"
+                  onClick={() => batchScoringService.start(options)}
+                  disabled={remaining === 0}
+                >
+                  <Play className="w-3 h-3 mr-1" />
+                  {started ? t("batch.resume") : t("batch.start")}
+                </Button>
+              )}
+              {retryable > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-xs"
+                  onClick={() => batchScoringService.retryFailed()}
+                >
+                  <RotateCcw className="w-3 h-3 mr-1" />
+                  {t("batch.retry", { count: retryable })}
+                </Button>
+              )}
+            </div>
+
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full text-xs"
+              onClick={handleDownload}
+              disabled={done === 0}
+            >
+              <Download className="w-3 h-3 mr-1" />
+              {t("batch.download")}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BatchScoringPanel;
@@ -3,27 +3,35 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Trash2, RefreshCw, Database } from 'lucide-react';
-import { cacheService } from '@/services/cacheService';
+import { CacheStats, cacheService } from '@/services/cacheService';
+import { tileStore } from '@/services/spatialIndexService';
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
 
 const CacheManager: React.FC = () => {
-  const [stats, setStats] = useState(cacheService.getStats());
+  const [stats, setStats] = useState<CacheStats | null>(null);
   const [isVisible, setIsVisible] = useState(false);
 
+  const refreshStats = () => {
+    cacheService.getStats().then(setStats);
+  };
+
   useEffect(() => {
-    const interval = setInterval(() => {
-      setStats(cacheService.getStats());
-    }, 1000);
+    if (!isVisible) return;
+    refreshStats();
+    const interval = setInterval(refreshStats, 2000);
 
     return () => clearInterval(interval);
-  }, []);
-
-  const clearCache = () => {
-    cacheService.clear();
-    setStats(cacheService.getStats());
-  };
+  }, [isVisible]);
 
-  const refreshStats = () => {
-    setStats(cacheService.getStats());
+  const clearCache = async () => {
+    await cacheService.clear();
+    tileStore.clear();
+    refreshStats();
   };
 
   if (!isVisible) {
@@ -60,22 +68,28 @@ const CacheManager: React.FC = () => {
         <div className="flex items-center justify-between text-xs">
           <span>Cache Size:</span>
           <Badge variant="secondary" className="text-xs">
-            {stats.size} / {stats.maxSize}
+            {stats ? `${formatBytes(stats.bytes)} / ${formatBytes(stats.maxBytes)}` : '...'}
           </Badge>
         </div>
-        
+
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>{stats?.entries ?? 0} entries stored</span>
+          <span>{stats?.memoryEntries ?? 0} in memory</span>
+        </div>
+
         <div className="text-xs text-muted-foreground">
-          <div className="font-medium mb-1">Cached Keys:</div>
-          <div className="max-h-20 overflow-y-auto space-y-1">
-            {stats.keys.slice(0, 5).map((key, index) => (
-              <div key={index} className="truncate text-xs">
-                {key}
+          <div className="font-medium mb-1">By Namespace:</div>
+          <div className="max-h-32 overflow-y-auto space-y-1">
+            {stats?.namespaces.map((namespace) => (
+              <div key={namespace.namespace} className="flex items-center justify-between gap-2">
+                <span className="truncate">{namespace.namespace}</span>
+                <span className="flex-shrink-0 font-mono">
+                  {namespace.entries} · {formatBytes(namespace.bytes)}
+                </span>
               </div>
             ))}
-            {stats.keys.length > 5 && (
-              <div className="text-xs text-muted-foreground">
-                ... and {stats.keys.length - 5} more
-              </div>
+            {stats && stats.namespaces.length === 0 && (
+              <div className="text-xs text-muted-foreground">Cache is empty</div>
             )}
           </div>
         </div>
@@ -3,6 +3,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Settings,
   Eye,
@@ -12,17 +19,53 @@ import {
   MapPin,
   Sparkles,
   Download,
+  SlidersHorizontal,
+  Plus,
+  Pencil,
+  Trash2,
+  Server,
+  Link2,
+  Merge,
 } from "lucide-react";
+import { toast } from "sonner";
 import { generatePdfReport } from "@/services/reportService";
 import { generateLocationSummary, AIResult } from "@/services/aiService";
 import { useUserMode } from "./UserModeProvider";
 import { useLanguage } from "./LanguageProvider";
 import { useIsMobile } from "@/hooks/use-mobile";
+import {
+  ScoringProfile,
+  scoringProfileService,
+} from "@/services/scoringProfileService";
+import ScoringProfileEditor from "./ScoringProfileEditor";
+import OverpassEndpointDialog from "./OverpassEndpointDialog";
+import DedupDebugDialog from "./DedupDebugDialog";
+import OfflineDataPanel from "./OfflineDataPanel";
+import {
+  DistanceMode,
+  FacilityCategory,
+  FacilitySource,
+  OFFLINE_ENDPOINT,
+} from "@/services/livabilityService";
+import { RADIUS_CHOICES } from "@/services/analysisSettingsService";
+import { PopulationReach } from "@/services/populationService";
+import {
+  CATEGORY_KEYS,
+  getCategoryColor,
+  getCategoryIcon,
+} from "@/services/categoryTaxonomy";
 
 interface ControlPanelProps {
   showRadius: boolean;
   onToggleRadius: () => void;
   radiusOptions: number[];
+  categoryRadii: Record<FacilityCategory, number>;
+  onCategoryRadiusChange: (category: FacilityCategory, radius: number) => void;
+  onResetRadii: () => void;
+  distanceMode: DistanceMode;
+  onDistanceModeChange: (mode: DistanceMode) => void;
+  offlineMode: boolean;
+  onOfflineModeChange: (enabled: boolean) => void;
   isCalculating: boolean;
   selectedLocation: { lng: number; lat: number; address?: string } | null;
   onRecalculate: () => void;
@@ -36,35 +79,43 @@ interface ControlPanelProps {
       safety: number;
       environment: number;
     };
-    facilityCounts: {
-      health: number;
-      education: number;
-      market: number;
-      transport: number;
-      walkability: number;
-      recreation: number;
-      safety: number;
-      accessibility: number;
-      police: number;
-      religious: number;
-    };
+    facilityCounts: Record<FacilityCategory, number>;
+    overpassEndpoints?: string[];
   };
   facilities?: Array<{
+    id?: string;
     name: string;
     category: string;
     distance: number;
+    sources?: FacilitySource[]; // OSM elements merged into the facility
   }>;
   className?: string;
   onExportPdf?: () => void;
+  permalink?: string; // Shareable URL of the current analysis
+  restoredAiSummary?: { summary: string; source: "ai" | "fallback" }; // Saved summary of a reopened analysis
+  onAiSummary?: (summary: string, source: "ai" | "fallback") => void;
+  populationReach?: PopulationReach | null; // Residents within walking time, for the summary and report
+  isPopulationPending?: boolean; // Delays the AI summary until the reach is known
   visibleCategories: Record<string, boolean>;
   onToggleCategory: (category: string) => void;
   onToggleAllCategories: () => void;
+  scoringProfiles: ScoringProfile[];
+  activeProfileId: string;
+  onProfileChange: (profileId: string) => void;
+  onProfilesChanged: (activeProfileId?: string) => void; // Called when a profile is saved or deleted
 }
 
 const ControlPanel: React.FC<ControlPanelProps> = ({
   showRadius,
   onToggleRadius,
   radiusOptions,
+  categoryRadii,
+  onCategoryRadiusChange,
+  onResetRadii,
+  distanceMode,
+  onDistanceModeChange,
+  offlineMode,
+  onOfflineModeChange,
   isCalculating,
   selectedLocation,
   onRecalculate,
@@ -76,8 +127,27 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   visibleCategories,
   onToggleCategory,
   onToggleAllCategories,
+  scoringProfiles,
+  activeProfileId,
+  onProfileChange,
+  onProfilesChanged,
+  permalink,
+  restoredAiSummary,
+  onAiSummary,
+  populationReach,
+  isPopulationPending,
 }) => {
   const { t, language } = useLanguage();
+  const [isProfileEditorOpen, setIsProfileEditorOpen] = useState(false);
+  const [isCopyingProfile, setIsCopyingProfile] = useState(false);
+  const [isEndpointDialogOpen, setIsEndpointDialogOpen] = useState(false);
+  const [isDedupDialogOpen, setIsDedupDialogOpen] = useState(false);
+  const mergedCount = (facilities || []).filter(
+    (f) => (f.sources?.length || 0) > 1
+  ).length;
+  const activeProfile =
+    scoringProfiles.find((p) => p.id === activeProfileId) ||
+    scoringProfileService.getDefaultProfile();
   const [aiSummary, setAiSummary] = useState<string>("");
   const [aiSource, setAiSource] = useState<"ai" | "fallback" | "">("");
   const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
@@ -104,16 +174,28 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
       aiSummary,
       userMode,
       language,
+      populationReach: populationReach || undefined,
     });
   }, [
     livabilityData,
     selectedLocation,
     facilities,
     aiSummary,
+    populationReach,
     userMode,
     language,
   ]);
 
+  const handleCopyLink = useCallback(async () => {
+    if (!permalink) return;
+    try {
+      await navigator.clipboard.writeText(permalink);
+      toast.success(t("share.link.copied"));
+    } catch (error) {
+      toast.error(t("share.link.failed"), { description: permalink });
+    }
+  }, [permalink, t]);
+
   // Generate AI summary ONLY after ALL location analysis is complete (including facilities)
   useEffect(() => {
     if (
@@ -122,11 +204,19 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
       selectedLocation?.address &&
       facilities &&
       facilities.length > 0 &&
-      !isGeneratingSummary
+      !isGeneratingSummary &&
+      !restoredAiSummary &&
+      !isPopulationPending
     ) {
       generateAISummary();
     }
-  }, [hasCalculated, livabilityData, selectedLocation?.address, facilities]);
+  }, [
+    hasCalculated,
+    livabilityData,
+    selectedLocation?.address,
+    facilities,
+    isPopulationPending,
+  ]);
 
   // Clear AI summary when user mode or language changes to trigger regeneration
   useEffect(() => {
@@ -134,6 +224,14 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     setAiSource("");
   }, [userMode, language]);
 
+  // Show the saved summary of a reopened analysis instead of generating one
+  useEffect(() => {
+    if (restoredAiSummary) {
+      setAiSummary(restoredAiSummary.summary);
+      setAiSource(restoredAiSummary.source);
+    }
+  }, [restoredAiSummary]);
+
   const generateAISummary = useCallback(async () => {
     if (!livabilityData || !selectedLocation?.address) return;
 
@@ -151,6 +249,12 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             ...livabilityData.subscores,
           },
           nearbyFacilities,
+          populationReach: populationReach
+            ? {
+                minutes: populationReach.minutes,
+                residents: populationReach.residents,
+              }
+            : undefined,
         },
         userMode,
         language
@@ -158,6 +262,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
 
       setAiSummary(result.summary);
       setAiSource(result.source);
+      onAiSummary?.(result.summary, result.source);
     } catch (error) {
       setAiSummary("Unable to generate summary at this time.");
       setAiSource("fallback");
@@ -170,8 +275,24 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     facilities,
     userMode,
     language,
+    onAiSummary,
+    populationReach,
   ]);
 
+  const openProfileEditor = (asCopy: boolean) => {
+    setIsCopyingProfile(asCopy);
+    setIsProfileEditorOpen(true);
+  };
+
+  const handleDeleteProfile = () => {
+    if (activeProfile.builtIn) return;
+    if (confirm(t("confirm.delete.profile"))) {
+      scoringProfileService.deleteProfile(activeProfile.id);
+      toast.success(t("profile.deleted"));
+      onProfilesChanged(scoringProfileService.getActiveProfileId());
+    }
+  };
+
   return (
     <Card
       className={`bg-gradient-to-br from-background via-background/95 to-accent/5 border-border/50 shadow-lg backdrop-blur-sm ${className}`}
@@ -349,6 +470,18 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                   Export PDF
                 </Button>
               )}
+              {hasCalculated && permalink && (
+                <Button
+                  onClick={handleCopyLink}
+                  disabled={isCalculating}
+                  size="sm"
+                  variant="outline"
+                  className="w-full h-11 mt-2 border-2 border-[hsl(var(--control-primary))] hover:bg-[hsl(var(--control-primary))]/10 text-[hsl(var(--control-primary))] transition-all duration-200"
+                >
+                  <Link2 className="w-4 h-4 mr-2" />
+                  {t("share.copy.link")}
+                </Button>
+              )}
             </div>
           ) : (
             <div className="p-4 bg-[hsl(var(--control-bg-light))] rounded-xl border border-[hsl(var(--control-border))] text-center control-panel-box">
@@ -371,6 +504,80 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           )}
         </div>
 
+        {/* Scoring Profile Section */}
+        <div className="space-y-3">
+          <div className="flex items-center gap-3 pb-2 border-b border-[hsl(var(--control-border))]">
+            <div className="p-2 bg-[hsl(var(--control-bg-light))] rounded-lg">
+              <SlidersHorizontal className="w-5 h-5 text-[hsl(var(--control-primary))]" />
+            </div>
+            <div className="flex-1">
+              <h3 className="text-sm font-semibold text-[hsl(var(--control-primary))]">
+                {t("scoring.profile")}
+              </h3>
+              <p className="text-xs text-[hsl(var(--control-primary))]/70">
+                {t("scoring.profile.description")}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Select value={activeProfile.id} onValueChange={onProfileChange}>
+              <SelectTrigger className="h-9 flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {scoringProfiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => openProfileEditor(false)}
+              className="h-9 w-9 p-0"
+              title={t("edit.profile")}
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => openProfileEditor(true)}
+              className="h-9 w-9 p-0"
+              title={t("new.profile")}
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+            {!activeProfile.builtIn && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDeleteProfile}
+                className="h-9 w-9 p-0 text-destructive hover:text-destructive"
+                title={t("delete.profile")}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+          {activeProfile.description && (
+            <p className="text-xs text-muted-foreground">
+              {activeProfile.description}
+            </p>
+          )}
+
+          <ScoringProfileEditor
+            open={isProfileEditorOpen}
+            onOpenChange={setIsProfileEditorOpen}
+            baseProfile={activeProfile}
+            asCopy={isCopyingProfile}
+            onSaved={(profile) => onProfilesChanged(profile.id)}
+          />
+        </div>
+
         {/* Facility Counts Section */}
         {livabilityData && (
           <div className="space-y-3">
@@ -389,86 +596,22 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             </div>
 
             <div className="grid grid-cols-2 gap-3">
-              <div className="flex justify-between items-center p-3 bg-gradient-to-r from-red-500/10 to-pink-500/10 rounded-xl border border-border/30">
-                <span className="text-sm text-foreground font-medium">
-                  {t("health.emoji")}
-                </span>
-                <span className="text-lg font-bold text-red-500">
-                  {livabilityData.facilityCounts.health}
-                </span>
-              </div>
-              <div className="flex justify-between items-center p-3 bg-gradient-to-r from-blue-500/10 to-indigo-500/10 rounded-xl border border-border/30">
-                <span className="text-sm text-foreground font-medium">
-                  {t("education.emoji")}
-                </span>
-                <span className="text-lg font-bold text-blue-500">
-                  {livabilityData.facilityCounts.education}
-                </span>
-              </div>
-              <div className="flex justify-between items-center p-3 bg-gradient-to-r from-amber-500/10 to-orange-500/10 rounded-xl border border-border/30">
-                <span className="text-sm text-foreground font-medium">
-                  {t("markets.emoji")}
-                </span>
-                <span className="text-lg font-bold text-amber-500">
-                  {livabilityData.facilityCounts.market}
-                </span>
-              </div>
-              <div className="flex justify-between items-center p-3 bg-gradient-to-r from-purple-500/10 to-violet-500/10 rounded-xl border border-border/30">
-                <span className="text-sm text-foreground font-medium">
-                  {t("transport.emoji")}
-                </span>
-                <span className="text-lg font-bold text-purple-500">
-                  {livabilityData.facilityCounts.transport}
-                </span>
-              </div>
-              <div className="flex justify-between items-center p-3 bg-gradient-to-r from-orange-500/10 to-red-500/10 rounded-xl border border-border/30">
-                <span className="text-sm text-foreground font-medium">
-                  {t("walkability.emoji")}
-                </span>
-                <span className="text-lg font-bold text-orange-500">
-                  {livabilityData.facilityCounts.walkability}
-                </span>
-              </div>
-              <div className="flex justify-between items-center p-3 bg-gradient-to-r from-teal-500/10 to-cyan-500/10 rounded-xl border border-border/30">
-                <span className="text-sm text-foreground font-medium">
-                  {t("recreation.emoji")}
-                </span>
-                <span className="text-lg font-bold text-teal-500">
-                  {livabilityData.facilityCounts.recreation}
-                </span>
-              </div>
-              <div className="flex justify-between items-center p-3 bg-gradient-to-r from-green-500/10 to-emerald-500/10 rounded-xl border border-border/30">
-                <span className="text-sm text-foreground font-medium">
-                  {t("safety.emoji")}
-                </span>
-                <span className="text-lg font-bold text-green-500">
-                  {livabilityData.facilityCounts.safety}
-                </span>
-              </div>
-              <div className="flex justify-between items-center p-3 bg-gradient-to-r from-indigo-500/10 to-blue-500/10 rounded-xl border border-border/30">
-                <span className="text-sm text-foreground font-medium">
-                  {t("police.emoji")}
-                </span>
-                <span className="text-lg font-bold text-indigo-500">
-                  {livabilityData.facilityCounts.police}
-                </span>
-              </div>
-              <div className="flex justify-between items-center p-3 bg-gradient-to-r from-gray-500/10 to-slate-500/10 rounded-xl border border-border/30">
-                <span className="text-sm text-foreground font-medium">
-                  {t("religious.emoji")}
-                </span>
-                <span className="text-lg font-bold text-gray-500">
-                  {livabilityData.facilityCounts.religious}
-                </span>
-              </div>
-              <div className="flex justify-between items-center p-3 bg-gradient-to-r from-pink-500/10 to-rose-500/10 rounded-xl border border-border/30">
-                <span className="text-sm text-foreground font-medium">
-                  {t("accessibility.emoji")}
-                </span>
-                <span className="text-lg font-bold text-pink-500">
-                  {livabilityData.facilityCounts.accessibility}
-                </span>
-              </div>
+              {CATEGORY_KEYS.map((category) => (
+                <div
+                  key={category}
+                  className="flex justify-between items-center p-3 bg-card/50 rounded-xl border border-border/30"
+                >
+                  <span className="text-sm text-foreground font-medium">
+                    {getCategoryIcon(category)} {t(category)}
+                  </span>
+                  <span
+                    className="text-lg font-bold"
+                    style={{ color: getCategoryColor(category) }}
+                  >
+                    {livabilityData.facilityCounts[category]}
+                  </span>
+                </div>
+              ))}
             </div>
           </div>
         )}
@@ -567,7 +710,13 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                   key={category}
                   className="flex items-center justify-between p-2 rounded-lg border border-border/30 bg-card/50 hover:bg-card/80 transition-colors"
                 >
-                  <span className="text-xs font-medium capitalize mr-2 leading-tight">
+                  <span className="flex items-center gap-1.5 text-xs font-medium capitalize mr-2 leading-tight min-w-0">
+                    <span
+                      className="w-5 h-5 rounded-full flex items-center justify-center text-[10px] flex-shrink-0"
+                      style={{ backgroundColor: getCategoryColor(category) }}
+                    >
+                      {getCategoryIcon(category)}
+                    </span>
                     {t(category) || category}
                   </span>
                   <Switch
@@ -611,10 +760,161 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           <div className="p-3 bg-gradient-to-r from-[hsl(var(--control-bg-light))] to-[hsl(var(--control-bg))] rounded-xl border border-[hsl(var(--control-border))] control-panel-box-medium">
             <p className="text-xs text-[hsl(var(--control-primary))]/70 text-center">
               {t("available.radius.options")}{" "}
-              {radiusOptions.join(t("meters") + ", ")}
+              {radiusOptions.map(Math.round).join(t("meters") + ", ")}
               {t("meters")}
             </p>
           </div>
+
+          {/* Search radius per category */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-xs font-semibold text-[hsl(var(--control-primary))]">
+                  {t("search.radius")}
+                </p>
+                <p className="text-xs text-[hsl(var(--control-primary))]/70">
+                  {t("search.radius.description")}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onResetRadii}
+                className="h-8 px-2 text-xs hover:bg-[hsl(var(--control-primary))]/10"
+              >
+                {t("reset")}
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(categoryRadii) as FacilityCategory[]).map(
+                (category) => (
+                  <div
+                    key={category}
+                    className="flex items-center justify-between gap-2 p-2 rounded-lg border border-border/30 bg-card/50"
+                  >
+                    <span className="text-xs font-medium capitalize leading-tight">
+                      {t(category) || category}
+                    </span>
+                    <Select
+                      value={String(categoryRadii[category])}
+                      onValueChange={(value) =>
+                        onCategoryRadiusChange(category, Number(value))
+                      }
+                    >
+                      <SelectTrigger className="h-7 w-[84px] text-xs px-2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from(
+                          new Set([...RADIUS_CHOICES, categoryRadii[category]])
+                        )
+                          .sort((a, b) => a - b)
+                          .map((radius) => (
+                            <SelectItem key={radius} value={String(radius)}>
+                              {radius}
+                              {t("meters")}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )
+              )}
+            </div>
+          </div>
+
+          {/* Walking network distance */}
+          <div className="flex items-center justify-between gap-3 p-3 rounded-xl border border-[hsl(var(--control-border))] bg-card/50">
+            <div className="flex-1">
+              <p className="text-xs font-semibold text-[hsl(var(--control-primary))]">
+                {t("walking.distance")}
+              </p>
+              <p className="text-xs text-[hsl(var(--control-primary))]/70">
+                {t("walking.distance.description")}
+              </p>
+            </div>
+            <Switch
+              id="distance-mode-toggle"
+              checked={distanceMode === "network"}
+              onCheckedChange={(checked) =>
+                onDistanceModeChange(checked ? "network" : "straight")
+              }
+              disabled={isCalculating}
+              className="facility-switch"
+            />
+          </div>
+
+          {/* Overpass data sources */}
+          <div className="flex items-center justify-between gap-3 p-3 rounded-xl border border-[hsl(var(--control-border))] bg-card/50">
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-semibold text-[hsl(var(--control-primary))]">
+                {t("overpass.endpoints")}
+              </p>
+              <p className="text-xs text-[hsl(var(--control-primary))]/70 truncate">
+                {livabilityData?.overpassEndpoints?.length
+                  ? t("data.from", {
+                      endpoints: livabilityData.overpassEndpoints
+                        .map((url) =>
+                          url === OFFLINE_ENDPOINT
+                            ? t("offline.extract")
+                            : new URL(url).host
+                        )
+                        .join(", "),
+                    })
+                  : t("overpass.endpoints.short")}
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsEndpointDialogOpen(true)}
+              className="h-8 w-8 p-0"
+              title={t("overpass.endpoints")}
+            >
+              <Server className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <OverpassEndpointDialog
+            open={isEndpointDialogOpen}
+            onOpenChange={setIsEndpointDialogOpen}
+          />
+
+          {/* Merged duplicate facilities, for checking the data */}
+          {hasCalculated && (
+            <div className="flex items-center justify-between gap-3 p-3 rounded-xl border border-[hsl(var(--control-border))] bg-card/50">
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-semibold text-[hsl(var(--control-primary))]">
+                  {t("dedup.title")}
+                </p>
+                <p className="text-xs text-[hsl(var(--control-primary))]/70 truncate">
+                  {t("dedup.merged.count", { count: mergedCount })}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsDedupDialogOpen(true)}
+                className="h-8 w-8 p-0"
+                title={t("dedup.title")}
+              >
+                <Merge className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+
+          <DedupDebugDialog
+            open={isDedupDialogOpen}
+            onOpenChange={setIsDedupDialogOpen}
+            facilities={facilities || []}
+          />
+
+          {/* Offline OSM extract */}
+          <OfflineDataPanel
+            offlineMode={offlineMode}
+            onOfflineModeChange={onOfflineModeChange}
+            disabled={isCalculating}
+          />
         </div>
       </CardContent>
     </Card>
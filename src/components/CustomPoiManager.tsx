@@ -23,6 +23,7 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { MapPin, Plus, Trash2, Edit, Download, Upload } from "lucide-react";
 import { toast } from "sonner";
+import { CATEGORY_KEYS, getCategoryIcon } from "@/services/categoryTaxonomy";
 import { useLanguage } from "./LanguageProvider";
 
 interface CustomPoiManagerProps {
@@ -33,15 +34,11 @@ interface CustomPoiManagerProps {
   isFullMode?: boolean;
 }
 
-const CATEGORY_OPTIONS = [
-  { value: "health", labelKey: "healthcare", emoji: "🏥" },
-  { value: "education", labelKey: "education", emoji: "🏫" },
-  { value: "market", labelKey: "market", emoji: "🛒" },
-  { value: "transport", labelKey: "transport", emoji: "🚌" },
-  { value: "recreation", labelKey: "recreation", emoji: "🌳" },
-  { value: "religious", labelKey: "religious", emoji: "🙏" },
-  { value: "police", labelKey: "police", emoji: "👮" },
-];
+const CATEGORY_OPTIONS = CATEGORY_KEYS.map((category) => ({
+  value: category,
+  labelKey: category,
+  emoji: getCategoryIcon(category),
+}));
 
 const CustomPoiManager: React.FC<CustomPoiManagerProps> = ({
   selectedLocation,
@@ -0,0 +1,119 @@
+import React, { useMemo } from "react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { FacilitySource } from "@/services/livabilityService";
+import { getCategoryColor, getCategoryIcon } from "@/services/categoryTaxonomy";
+import { useLanguage } from "./LanguageProvider";
+
+interface DedupDebugDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  facilities: Array<{
+    id?: string;
+    name: string;
+    category: string;
+    sources?: FacilitySource[];
+  }>;
+}
+
+const DedupDebugDialog: React.FC<DedupDebugDialogProps> = ({
+  open,
+  onOpenChange,
+  facilities,
+}) => {
+  const { t } = useLanguage();
+
+  const merged = useMemo(
+    () => facilities.filter((f) => (f.sources?.length || 0) > 1),
+    [facilities]
+  );
+  const elementCount = merged.reduce((sum, f) => sum + f.sources!.length, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("dedup.title")}</DialogTitle>
+          <DialogDescription>
+            {merged.length > 0
+              ? t("dedup.summary", {
+                  elements: elementCount,
+                  facilities: merged.length,
+                })
+              : t("dedup.none")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {merged.map((facility, index) => (
+            <div
+              key={facility.id || index}
+              className="p-3 rounded-lg border border-border bg-muted/20 space-y-2"
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <span
+                  className="w-6 h-6 rounded-full flex items-center justify-center text-xs shrink-0"
+                  style={{ backgroundColor: getCategoryColor(facility.category) }}
+                >
+                  {getCategoryIcon(facility.category, facility.name)}
+                </span>
+                <p className="text-sm font-medium truncate flex-1">{facility.name}</p>
+                <Badge variant="outline" className="text-[10px] shrink-0">
+                  {t(facility.category)}
+                </Badge>
+              </div>
+
+              {facility.sources!.map((source) => (
+                <div key={source.osmId} className="pl-8 text-xs space-y-0.5">
+                  <div className="flex flex-wrap items-center gap-1.5">
+                    <a
+                      href={`https://www.openstreetmap.org/${source.osmId}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono text-primary hover:underline"
+                    >
+                      {source.osmId}
+                    </a>
+                    <span className="truncate max-w-[200px]">{source.name}</span>
+                    {source.reason ? (
+                      <Badge variant="secondary" className="text-[10px]">
+                        {t(`dedup.reason.${source.reason}`)}
+                      </Badge>
+                    ) : (
+                      <Badge className="text-[10px]">{t("dedup.anchor")}</Badge>
+                    )}
+                    {source.distance !== undefined && (
+                      <span className="text-muted-foreground">{source.distance} m</span>
+                    )}
+                    {source.similarity !== undefined && (
+                      <span className="text-muted-foreground">
+                        {t("dedup.similarity", {
+                          percent: Math.round(source.similarity * 100),
+                        })}
+                      </span>
+                    )}
+                  </div>
+                  {source.tags && (
+                    <p className="font-mono text-[10px] text-muted-foreground break-all">
+                      {Object.entries(source.tags)
+                        .map(([key, value]) => `${key}=${value}`)
+                        .join(" · ")}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DedupDebugDialog;
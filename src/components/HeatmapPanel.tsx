@@ -0,0 +1,213 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, Hexagon, Pentagon, Square, Trash2, X } from "lucide-react";
+import {
+  HEATMAP_CELL_SIZES,
+  HEATMAP_COLOR_STOPS,
+  HeatmapResult,
+} from "@/services/heatmapService";
+import type { DrawMode } from "./Map";
+import { useLanguage } from "./LanguageProvider";
+
+interface HeatmapPanelProps {
+  drawMode: DrawMode | null;
+  onDrawModeChange: (mode: DrawMode | null) => void;
+  cellSize: number;
+  onCellSizeChange: (cellSize: number) => void;
+  isGenerating: boolean;
+  progress: { done: number; total: number } | null;
+  heatmap: HeatmapResult | null;
+  onExport: () => void;
+  onClear: () => void;
+  className?: string;
+}
+
+const HeatmapPanel: React.FC<HeatmapPanelProps> = ({
+  drawMode,
+  onDrawModeChange,
+  cellSize,
+  onCellSizeChange,
+  isGenerating,
+  progress,
+  heatmap,
+  onExport,
+  onClear,
+  className,
+}) => {
+  const { t } = useLanguage();
+
+  const averageScore =
+    heatmap && heatmap.cells.length > 0
+      ? Math.round(
+          heatmap.cells.reduce((sum, cell) => sum + cell.overall, 0) /
+            heatmap.cells.length
+        )
+      : null;
+  const weakCells = heatmap
+    ? heatmap.cells.filter((cell) => cell.overall < 40).length
+    : 0;
+
+  return (
+    <Card className={`bg-card border-border shadow-sm ${className || ""}`}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-2">
+          <div className="w-2 h-2 bg-primary rounded-full"></div>
+          <CardTitle className="text-sm md:text-base font-semibold flex items-center gap-2">
+            <Hexagon className="w-4 h-4 text-primary" />
+            {t("area.heatmap")}
+          </CardTitle>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {t("area.heatmap.description")}
+        </p>
+      </CardHeader>
+      <CardContent className="pt-0 pb-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">{t("cell.size")}</span>
+          <Select
+            value={String(cellSize)}
+            onValueChange={(value) => onCellSizeChange(Number(value))}
+            disabled={isGenerating}
+          >
+            <SelectTrigger className="h-7 w-[96px] text-xs px-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HEATMAP_CELL_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)}>
+                  {size}
+                  {t("meters")}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {drawMode ? (
+          <div className="space-y-2">
+            <p className="text-xs text-primary">
+              {drawMode === "rectangle"
+                ? t("draw.rectangle.hint")
+                : t("draw.polygon.hint")}
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full text-xs"
+              onClick={() => onDrawModeChange(null)}
+            >
+              <X className="w-3 h-3 mr-1" />
+              {t("cancel")}
+            </Button>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1 text-xs"
+              onClick={() => onDrawModeChange("rectangle")}
+              disabled={isGenerating}
+            >
+              <Square className="w-3 h-3 mr-1" />
+              {t("draw.rectangle")}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1 text-xs"
+              onClick={() => onDrawModeChange("polygon")}
+              disabled={isGenerating}
+            >
+              <Pentagon className="w-3 h-3 mr-1" />
+              {t("draw.polygon")}
+            </Button>
+          </div>
+        )}
+
+        {isGenerating && (
+          <div className="space-y-1">
+            <Progress
+              value={progress ? (progress.done / progress.total) * 100 : 0}
+              className="h-2"
+            />
+            <p className="text-xs text-muted-foreground">
+              {progress
+                ? t("scoring.cells", {
+                    done: progress.done,
+                    total: progress.total,
+                  })
+                : t("fetching.area.data")}
+            </p>
+          </div>
+        )}
+
+        {heatmap && !isGenerating && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="p-2 rounded-lg bg-muted/20">
+                <div className="font-bold text-sm">{heatmap.cells.length}</div>
+                <div className="text-xs text-muted-foreground">{t("cells")}</div>
+              </div>
+              <div className="p-2 rounded-lg bg-muted/20">
+                <div className="font-bold text-sm">{averageScore ?? "-"}</div>
+                <div className="text-xs text-muted-foreground">
+                  {t("average.score")}
+                </div>
+              </div>
+              <div className="p-2 rounded-lg bg-muted/20">
+                <div className="font-bold text-sm text-destructive">
+                  {weakCells}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {t("weak.cells")}
+                </div>
+              </div>
+            </div>
+
+            {/* Legend */}
+            <div className="flex items-center gap-1">
+              {HEATMAP_COLOR_STOPS.map(([score, color]) => (
+                <div key={score} className="flex-1">
+                  <div className="h-2 rounded-sm" style={{ backgroundColor: color }} />
+                  <span className="text-[10px] text-muted-foreground">{score}+</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1 text-xs"
+                onClick={onExport}
+              >
+                <Download className="w-3 h-3 mr-1" />
+                {t("export.geojson")}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-xs px-2"
+                onClick={onClear}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HeatmapPanel;
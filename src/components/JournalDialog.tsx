@@ -0,0 +1,231 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BookOpen, Search, Trash2 } from "lucide-react";
+import {
+  JournalEntry,
+  JournalUserMode,
+  journalService,
+} from "@/services/journalService";
+import { useLanguage } from "./LanguageProvider";
+
+interface JournalDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onOpenEntry: (entry: JournalEntry) => void;
+}
+
+const MODE_LABELS: Record<JournalUserMode, string> = {
+  residents: "residents",
+  "business-owner": "business",
+  "urban-planner": "planner",
+};
+
+const scoreColor = (score: number) =>
+  score >= 80
+    ? "bg-green-500"
+    : score >= 60
+    ? "bg-yellow-500"
+    : score >= 40
+    ? "bg-orange-500"
+    : "bg-red-500";
+
+const JournalDialog: React.FC<JournalDialogProps> = ({
+  open,
+  onOpenChange,
+  onOpenEntry,
+}) => {
+  const { t, language } = useLanguage();
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [query, setQuery] = useState("");
+  const [minScore, setMinScore] = useState("");
+  const [maxScore, setMaxScore] = useState("");
+  const [userMode, setUserMode] = useState<JournalUserMode | "all">("all");
+
+  const reload = useCallback(async () => {
+    try {
+      setEntries(
+        await journalService.search({
+          query,
+          minScore: minScore === "" ? undefined : Number(minScore),
+          maxScore: maxScore === "" ? undefined : Number(maxScore),
+          userMode: userMode === "all" ? undefined : userMode,
+        })
+      );
+    } catch (error) {
+      console.error("Error loading analysis journal:", error);
+      setEntries([]);
+    }
+  }, [query, minScore, maxScore, userMode]);
+
+  useEffect(() => {
+    if (open) reload();
+  }, [open, reload]);
+
+  const formatDate = (time: number) =>
+    new Date(time).toLocaleString(language === "id" ? "id-ID" : "en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+  const handleDelete = async (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    await journalService.deleteEntry(id);
+    reload();
+  };
+
+  const handleClear = async () => {
+    if (!confirm(t("confirm.clear.journal"))) return;
+    await journalService.clear();
+    reload();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookOpen className="w-4 h-4" />
+            {t("journal.title")}
+          </DialogTitle>
+          <DialogDescription>{t("journal.description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="relative">
+            <Search className="absolute left-2.5 top-2.5 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t("journal.search")}
+              className="pl-8 h-9 text-sm"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {t("journal.score")}
+            </span>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={minScore}
+              onChange={(e) => setMinScore(e.target.value)}
+              placeholder="0"
+              className="h-8 w-16 text-xs"
+            />
+            <span className="text-xs text-muted-foreground">–</span>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={maxScore}
+              onChange={(e) => setMaxScore(e.target.value)}
+              placeholder="100"
+              className="h-8 w-16 text-xs"
+            />
+            <Select
+              value={userMode}
+              onValueChange={(value) =>
+                setUserMode(value as JournalUserMode | "all")
+              }
+            >
+              <SelectTrigger className="h-8 flex-1 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t("journal.all.modes")}</SelectItem>
+                {(Object.keys(MODE_LABELS) as JournalUserMode[]).map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {t(MODE_LABELS[mode])}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto space-y-2 pr-1">
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              {t("journal.empty")}
+            </p>
+          ) : (
+            entries.map((entry) => {
+              const score = Math.round(entry.data.overall);
+              return (
+                <div
+                  key={entry.id}
+                  onClick={() => onOpenEntry(entry)}
+                  className="flex items-center gap-3 p-2 rounded-lg border border-border hover:bg-muted/40 cursor-pointer"
+                >
+                  <div
+                    className={`w-10 h-10 rounded-full flex items-center justify-center text-white text-sm font-bold shrink-0 ${scoreColor(
+                      score
+                    )}`}
+                  >
+                    {score}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate" title={entry.address}>
+                      {entry.address}
+                    </p>
+                    <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                      <span>{formatDate(entry.createdAt)}</span>
+                      <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                        {t(MODE_LABELS[entry.userMode])}
+                      </Badge>
+                      <span className="truncate">{entry.profileName}</span>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-destructive hover:text-destructive shrink-0"
+                    onClick={(e) => handleDelete(entry.id, e)}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {entries.length > 0 && (
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>{t("journal.count", { count: entries.length })}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-xs text-destructive hover:text-destructive"
+              onClick={handleClear}
+            >
+              {t("journal.clear")}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default JournalDialog;
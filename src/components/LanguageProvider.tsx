@@ -65,16 +65,6 @@ const translations = {
     'livability.score.calculated': 'Livability score calculated: {score}/100',
     'failed.calculate.score': 'Failed to calculate livability score',
     'try.again.select.different': 'Please try again or select a different location',
-    'health.emoji': '🏥 Health',
-    'education.emoji': '🏫 Education',
-    'markets.emoji': '🛒 Markets',
-    'transport.emoji': '🚌 Transport',
-    'walkability.emoji': '🚶 Walkability',
-    'recreation.emoji': '🌳 Recreation',
-    'safety.emoji': '🚦 Safety',
-    'police.emoji': '👮 Police',
-    'religious.emoji': '🙏 Religious',
-    'accessibility.emoji': '♿ Accessibility',
     'distance': 'Distance:',
     'score.impact': 'Score Impact:',
     'no.location.selected.residents': 'No location selected',
@@ -214,6 +204,275 @@ const translations = {
     'exit.custom.poi.mode': 'Exit My Places Mode',
     'map.panned.to.place': 'Map panned to place location',
     
+    // Scoring Profiles
+    'scoring.profile': 'Scoring Profile',
+    'scoring.profile.description': 'Choose whose priorities the score reflects',
+    'services': 'Services',
+    'mobility': 'Mobility',
+    'copy': 'copy',
+    'new.profile': 'New Profile',
+    'edit.profile': 'Edit Profile',
+    'delete.profile': 'Delete Profile',
+    'confirm.delete.profile': 'Are you sure you want to delete this profile?',
+    'profile.deleted': 'Profile deleted',
+    'profile.saved': 'Profile saved successfully!',
+    'profile.rescored': 'Score updated for profile: {name}',
+    'edit.scoring.profile': 'Scoring Profile',
+    'edit.scoring.profile.desc': 'Adjust category weights, distance decay and how subscores combine into the overall score.',
+    'subscore.mix': 'Subscore Mix',
+    'category.weights': 'Category Weights',
+    'distance.decay': 'Distance Decay',
+    'max.contribution': 'Max Contribution',
+    'decay.rate': 'Decay Rate',
+    'save.profile': 'Save Profile',
+
+    // Search Radius
+    'search.radius': 'Search Radius',
+    'search.radius.description': 'Per category; re-analyze to apply',
+    'reset': 'Reset',
+
+    // Walking Network Distance
+    'walking.distance': 'Walking network distance',
+    'walking.distance.description': 'Score facilities by walking route along streets and paths instead of straight-line distance',
+    'walking.distance.reanalyze': 'Analyze the location again to load walking routes',
+    'walking.route': 'Walking route',
+
+    // Walking Isochrones
+    'walking.time.bands': 'Facilities by Walking Time',
+    'walking.band': '{from}–{to} min walk',
+
+    // Location Comparison
+    'compare.locations': 'Compare Locations',
+    'compare.locations.empty': 'Pin analyzed locations to compare their scores side by side.',
+    'compare.locations.description': 'Overall score, subscores and facility counts of pinned locations',
+    'compare.full': 'Comparison is full',
+    'pin.location': 'Pin Location',
+    'compare': 'Compare',
+    'metric': 'Metric',
+    'location.pinned': 'Location pinned for comparison',
+
+    // Area Heatmap
+    'area.heatmap': 'Area Heatmap',
+    'area.heatmap.description': 'Draw an area to see where livability is weak',
+    'cell.size': 'Cell size',
+    'draw.rectangle': 'Rectangle',
+    'draw.polygon': 'Polygon',
+    'draw.rectangle.hint': 'Click two opposite corners on the map',
+    'draw.polygon.hint': 'Click to add points, double-click to finish',
+    'scoring.cells': 'Scoring cells {done}/{total}...',
+    'fetching.area.data': 'Fetching facilities for the area...',
+    'cells': 'Cells',
+    'average.score': 'Average',
+    'weak.cells': 'Weak (<40)',
+    'export.geojson': 'Export GeoJSON',
+    'heatmap.ready': 'Heatmap ready: {count} cells scored',
+    'heatmap.failed': 'Failed to generate heatmap',
+    'heatmap.exported': 'Heatmap exported as GeoJSON',
+
+    // Overpass Endpoints
+    'overpass.endpoints': 'Data Sources',
+    'overpass.endpoints.description': 'Overpass API servers used to load map data. Healthy and fast servers are tried first; failing or busy ones are skipped automatically.',
+    'overpass.endpoints.short': 'Overpass servers with automatic failover',
+    'data.from': 'Data from {endpoints}',
+    'add.endpoint': 'Add Endpoint',
+    'endpoint.name': 'Name',
+    'endpoint.invalid.url': 'Enter a valid http(s) interpreter URL',
+    'endpoint.added': 'Endpoint added',
+    'endpoint.healthy': 'Healthy',
+    'endpoint.cooling.down': 'Cooling down',
+    'endpoint.slots': '{available}/{total} slots free',
+    'endpoint.no.rate.limit': 'No rate limit',
+    'check.status': 'Check Status',
+
+    // Offline Extract
+    'offline.mode': 'Offline Mode',
+    'offline.mode.description': 'Analyze from an imported OSM extract instead of the Overpass API. Used automatically when the network is unavailable.',
+    'offline.import': 'Import .osm.pbf or Overpass JSON',
+    'offline.import.reading': 'Reading extract... {count} elements',
+    'offline.import.resolving': 'Resolving geometry of {count} ways...',
+    'offline.import.saving': 'Saving {count} elements...',
+    'offline.import.success': 'Offline extract imported',
+    'offline.import.failed': 'Failed to import extract',
+    'offline.extract': 'offline extract',
+    'offline.extract.date': 'Data as of {date}',
+    'offline.extract.date.unknown': 'Data date unknown',
+    'offline.extract.elements': '{count} facilities and streets',
+    'offline.extract.none': 'No offline extract imported yet.',
+    'confirm.delete.extract': 'Delete the imported offline extract?',
+
+    // Shareable permalinks
+    'share.copy.link': 'Copy Link',
+    'share.link.copied': 'Link copied to clipboard',
+    'share.link.failed': 'Could not copy the link',
+    'share.link.invalid': 'This analysis link is missing a valid location',
+    'share.profile.missing': 'The shared scoring profile is not available here; using your current profile',
+
+    // Batch scoring
+    'batch.scoring': 'Batch Scoring',
+    'batch.scoring.description': 'Upload a CSV with an address column or lat/lng columns to score many locations at once',
+    'batch.upload': 'Upload CSV',
+    'batch.loaded': '{count} rows loaded',
+    'batch.invalid.csv': 'Could not read the CSV file',
+    'batch.clear': 'Clear batch',
+    'batch.progress': '{done} scored, {failed} failed, {remaining} remaining of {total}',
+    'batch.row': 'Row {row}',
+    'batch.error.invalid': 'No location',
+    'batch.error.not-found': 'Not found',
+    'batch.error.error': 'Failed',
+    'batch.status.pending': 'Waiting',
+    'batch.status.geocoding': 'Geocoding',
+    'batch.status.scoring': 'Scoring',
+    'batch.start': 'Start',
+    'batch.pause': 'Pause',
+    'batch.resume': 'Resume',
+    'batch.retry': 'Retry {count}',
+    'batch.download': 'Download Results CSV',
+
+    // Analysis journal
+    'journal.title': 'Analysis History',
+    'journal.description': 'Every completed analysis is saved on this device. Click an entry to reopen it.',
+    'journal.search': 'Search by address',
+    'journal.score': 'Score',
+    'journal.all.modes': 'All modes',
+    'journal.empty': 'No saved analyses yet',
+    'journal.count': '{count} analyses',
+    'journal.clear': 'Clear history',
+    'confirm.clear.journal': 'Delete all saved analyses?',
+
+    // Score tracking
+    'trend.title': 'Score Trend',
+    'trend.track': 'Track',
+    'trend.untrack': 'Stop tracking',
+    'trend.description': 'Track this location to re-analyze it when its map data expires and follow how the score changes over time.',
+    'trend.not.enough': 'Re-analyze this location later to see how its score changes.',
+    'trend.since': 'Change since {date}',
+    'trend.overall': 'Overall',
+    'trend.added': '{count} facilities added',
+    'trend.removed': '{count} facilities removed',
+    'trend.more': '+{count} more',
+    'trend.no.changes': 'No facilities added or removed since the previous run',
+    'trend.refresh': 'Re-analyze now',
+    'trend.tracked': 'Location is now tracked',
+    'trend.untracked': 'Location is no longer tracked',
+    'trend.refreshed': 'Updated {count} tracked locations',
+
+    // Score explanation
+    'explain': 'Explain',
+    'explain.total': 'Sum of {count} facility shares',
+    'explain.clipped': 'Capped at 100: the facilities add up to {raw}, so {lost} points are not counted.',
+    'explain.formula': 'Points = contribution (distance decay × quality) × adjustment × category weight. Click a facility to show it on the map.',
+    'explain.empty': 'No facilities count towards this score',
+    'explain.adjustment.walkability': 'Walkability ×{factor}',
+    'explain.adjustment.minor-safety': 'Not a fire station ×{factor}',
+    'explain.adjustment.street-lamp': 'Street lamp, also in walkability ×{factor}',
+
+    // What-if simulation
+    'simulation.title': 'What-if Simulation',
+    'simulation.description': 'Place hypothetical facilities on the map and see how the score would change. They are not saved as My Places.',
+    'simulation.start': 'Simulate',
+    'simulation.stop': 'End',
+    'simulation.place': 'Click the map to place a hypothetical facility of this type:',
+    'simulation.hypothetical': 'Hypothetical',
+    'simulation.facility.name': 'Hypothetical {category} #{number}',
+    'simulation.untitled': 'Untitled scenario',
+    'simulation.name': 'Scenario name',
+    'simulation.save': 'Save',
+    'simulation.saved': 'Scenario "{name}" saved',
+    'simulation.saved.scenarios': 'Saved scenarios',
+    'simulation.facility.count': '{count} facilities',
+    'simulation.load': 'Load scenario',
+    'simulation.export': 'Export scenario',
+    'simulation.import': 'Import Scenario',
+    'simulation.imported': 'Scenario "{name}" imported',
+    'simulation.imported.elsewhere': 'Analyze {address} to load it.',
+    'simulation.import.failed': 'Could not import the scenario',
+
+    // Site finder
+    'site.finder': 'Site Finder',
+    'site.finder.description': 'Draw an area to find where a new facility would raise the average livability score the most',
+    'site.finder.category': 'New facility',
+    'site.finder.progress': 'Testing sites {done}/{total}',
+    'site.finder.summary': '{candidates} sites tested for a new {category} facility. Area average today: {average}.',
+    'site.finder.none': 'No site in this area would raise the score',
+    'site.finder.reach': 'Reaches {count} grid points',
+    'site.finder.clear': 'Clear sites',
+    'site.finder.ready': 'Found {count} recommended sites',
+    'site.finder.failed': 'Failed to search the area',
+
+    // Population reach
+    'population.reach': 'Population Reach',
+    'population.reach.description': 'Residents within walking distance, from your own population data',
+    'population.reach.headline': 'residents within a {minutes}-minute walk',
+    'population.reach.band': '{minutes} min walk',
+    'population.reach.isochrone': 'Counted inside the walking network areas',
+    'population.reach.radius': 'Counted within straight-line walking distance',
+    'population.reach.outside': 'This location is outside the imported population layer.',
+    'population.layer.summary': '{count} blocks · {population} residents',
+    'population.layer.none': 'Import a GeoJSON or CSV file with population or density values (e.g. census blocks).',
+    'population.import': 'Import Population Data',
+    'population.replace': 'Replace Population Data',
+    'population.import.success': 'Population data imported',
+    'population.import.failed': 'Could not import population data',
+    'confirm.delete.population': 'Delete the imported population data?',
+
+    // Duplicate merging
+    'dedup.title': 'Merged duplicates',
+    'dedup.merged.count': '{count} facilities merged from duplicate OSM elements',
+    'dedup.summary': '{elements} OSM elements were merged into {facilities} facilities',
+    'dedup.none': 'No duplicate OSM elements were merged in this analysis',
+    'dedup.anchor': 'kept',
+    'dedup.reason.node-in-way': 'inside way bounds',
+    'dedup.reason.nearby': 'nearby duplicate',
+    'dedup.similarity': '{percent}% name match',
+
+    // Facility quality
+    'quality.badge': 'quality ×{factor}',
+    'quality.multiplier': 'Quality multiplier',
+    'quality.multipliers': 'Quality multipliers',
+    'quality.multipliers.desc': "Scale a facility's contribution by its OSM attributes. 1 = no effect; beds and capacity reach the value at 200 beds or 500 places.",
+    'quality.opening_hours': 'Opening hours',
+    'quality.healthcare': 'Healthcare',
+    'quality.wheelchair': 'Wheelchair access',
+    'quality.access.yes': 'Yes',
+    'quality.access.limited': 'Limited',
+    'quality.access.no': 'No',
+    'quality.open24h': 'Open 24/7',
+    'quality.emergency': 'Emergency service',
+    'quality.healthcare.hospital': 'Hospital',
+    'quality.healthcare.clinic': 'Clinic',
+    'quality.healthcare.doctor': 'Doctor',
+    'quality.healthcare.dentist': 'Dentist',
+    'quality.healthcare.pharmacy': 'Pharmacy',
+    'quality.healthcare.veterinary': 'Veterinary',
+    'quality.wheelchair.yes': 'Wheelchair accessible',
+    'quality.wheelchair.limited': 'Limited wheelchair access',
+    'quality.wheelchair.no': 'No wheelchair access',
+    'quality.beds': 'Beds',
+    'quality.capacity': 'Capacity',
+
+    // Time of day
+    'weekly.title': 'Time of day',
+    'weekly.description': 'Score for a day and time: facilities closed then, per their OSM opening hours, do not count. Facilities without opening hours always count.',
+    'weekly.any.time': 'Any time',
+    'weekly.daytime': 'Daytime (12:00)',
+    'weekly.night': 'Night (22:00)',
+    'weekly.no.hours': 'No facility here has opening hours in OSM, so the score is the same at any time.',
+    'weekly.closed': 'closed at the selected time',
+    'weekday.Mo': 'Mon',
+    'weekday.Tu': 'Tue',
+    'weekday.We': 'Wed',
+    'weekday.Th': 'Thu',
+    'weekday.Fr': 'Fri',
+    'weekday.Sa': 'Sat',
+    'weekday.Su': 'Sun',
+    'weekday.Mo.long': 'Monday',
+    'weekday.Tu.long': 'Tuesday',
+    'weekday.We.long': 'Wednesday',
+    'weekday.Th.long': 'Thursday',
+    'weekday.Fr.long': 'Friday',
+    'weekday.Sa.long': 'Saturday',
+    'weekday.Su.long': 'Sunday',
+
     // Tutorial
     'welcome.title': 'Welcome to Futuricity',
     'welcome.description': 'Your advanced tool for analyzing urban livability and planning better cities.',
@@ -279,16 +538,6 @@ const translations = {
     'livability.score.calculated': 'Skor kelayakan huni dihitung: {score}/100',
     'failed.calculate.score': 'Gagal menghitung skor kelayakan huni',
     'try.again.select.different': 'Silakan coba lagi atau pilih lokasi yang berbeda',
-    'health.emoji': '🏥 Kesehatan',
-    'education.emoji': '🏫 Pendidikan',
-    'markets.emoji': '🛒 Pasar',
-    'transport.emoji': '🚌 Transportasi',
-    'walkability.emoji': '🚶 Kemudahan Jalan Kaki',
-    'recreation.emoji': '🌳 Rekreasi',
-    'safety.emoji': '🚦 Keamanan',
-    'police.emoji': '👮 Kepolisian',
-    'religious.emoji': '🙏 Tempat Ibadah',
-    'accessibility.emoji': '♿ Aksesibilitas',
     'distance': 'Jarak:',
     'score.impact': 'Dampak Skor:',
     'no.location.selected.residents': 'Tidak ada lokasi yang dipilih',
@@ -428,6 +677,275 @@ const translations = {
     'exit.custom.poi.mode': 'Keluar Mode My Places',
     'map.panned.to.place': 'Peta digeser ke lokasi tempat',
 
+    // Scoring Profiles
+    'scoring.profile': 'Profil Penilaian',
+    'scoring.profile.description': 'Pilih prioritas siapa yang dicerminkan skor',
+    'services': 'Layanan',
+    'mobility': 'Mobilitas',
+    'copy': 'salinan',
+    'new.profile': 'Profil Baru',
+    'edit.profile': 'Ubah Profil',
+    'delete.profile': 'Hapus Profil',
+    'confirm.delete.profile': 'Apakah Anda yakin ingin menghapus profil ini?',
+    'profile.deleted': 'Profil dihapus',
+    'profile.saved': 'Profil berhasil disimpan!',
+    'profile.rescored': 'Skor diperbarui untuk profil: {name}',
+    'edit.scoring.profile': 'Profil Penilaian',
+    'edit.scoring.profile.desc': 'Sesuaikan bobot kategori, peluruhan jarak, dan cara subskor digabungkan menjadi skor keseluruhan.',
+    'subscore.mix': 'Komposisi Subskor',
+    'category.weights': 'Bobot Kategori',
+    'distance.decay': 'Peluruhan Jarak',
+    'max.contribution': 'Kontribusi Maks',
+    'decay.rate': 'Laju Peluruhan',
+    'save.profile': 'Simpan Profil',
+
+    // Search Radius
+    'search.radius': 'Radius Pencarian',
+    'search.radius.description': 'Per kategori; analisis ulang untuk menerapkan',
+    'reset': 'Atur Ulang',
+
+    // Walking Network Distance
+    'walking.distance': 'Jarak jaringan pejalan kaki',
+    'walking.distance.description': 'Nilai fasilitas berdasarkan rute jalan kaki melalui jalan dan jalur, bukan jarak garis lurus',
+    'walking.distance.reanalyze': 'Analisis ulang lokasi untuk memuat rute jalan kaki',
+    'walking.route': 'Rute jalan kaki',
+
+    // Walking Isochrones
+    'walking.time.bands': 'Fasilitas Berdasarkan Waktu Jalan Kaki',
+    'walking.band': '{from}–{to} menit jalan kaki',
+
+    // Location Comparison
+    'compare.locations': 'Bandingkan Lokasi',
+    'compare.locations.empty': 'Sematkan lokasi yang sudah dianalisis untuk membandingkan skornya berdampingan.',
+    'compare.locations.description': 'Skor keseluruhan, sub-skor dan jumlah fasilitas dari lokasi yang disematkan',
+    'compare.full': 'Perbandingan sudah penuh',
+    'pin.location': 'Sematkan Lokasi',
+    'compare': 'Bandingkan',
+    'metric': 'Metrik',
+    'location.pinned': 'Lokasi disematkan untuk perbandingan',
+
+    // Area Heatmap
+    'area.heatmap': 'Peta Panas Area',
+    'area.heatmap.description': 'Gambar area untuk melihat bagian yang kelayakan huninya lemah',
+    'cell.size': 'Ukuran sel',
+    'draw.rectangle': 'Persegi',
+    'draw.polygon': 'Poligon',
+    'draw.rectangle.hint': 'Klik dua sudut yang berlawanan di peta',
+    'draw.polygon.hint': 'Klik untuk menambah titik, klik dua kali untuk selesai',
+    'scoring.cells': 'Menilai sel {done}/{total}...',
+    'fetching.area.data': 'Mengambil fasilitas untuk area...',
+    'cells': 'Sel',
+    'average.score': 'Rata-rata',
+    'weak.cells': 'Lemah (<40)',
+    'export.geojson': 'Ekspor GeoJSON',
+    'heatmap.ready': 'Peta panas siap: {count} sel dinilai',
+    'heatmap.failed': 'Gagal membuat peta panas',
+    'heatmap.exported': 'Peta panas diekspor sebagai GeoJSON',
+
+    // Overpass Endpoints
+    'overpass.endpoints': 'Sumber Data',
+    'overpass.endpoints.description': 'Server Overpass API yang digunakan untuk memuat data peta. Server yang sehat dan cepat dicoba lebih dulu; server yang gagal atau sibuk dilewati secara otomatis.',
+    'overpass.endpoints.short': 'Server Overpass dengan failover otomatis',
+    'data.from': 'Data dari {endpoints}',
+    'add.endpoint': 'Tambah Endpoint',
+    'endpoint.name': 'Nama',
+    'endpoint.invalid.url': 'Masukkan URL interpreter http(s) yang valid',
+    'endpoint.added': 'Endpoint ditambahkan',
+    'endpoint.healthy': 'Sehat',
+    'endpoint.cooling.down': 'Jeda sementara',
+    'endpoint.slots': '{available}/{total} slot tersedia',
+    'endpoint.no.rate.limit': 'Tanpa batas',
+    'check.status': 'Cek Status',
+
+    // Offline Extract
+    'offline.mode': 'Mode Offline',
+    'offline.mode.description': 'Analisis dari ekstrak OSM yang diimpor alih-alih Overpass API. Digunakan otomatis saat jaringan tidak tersedia.',
+    'offline.import': 'Impor .osm.pbf atau JSON Overpass',
+    'offline.import.reading': 'Membaca ekstrak... {count} elemen',
+    'offline.import.resolving': 'Menyusun geometri {count} jalan...',
+    'offline.import.saving': 'Menyimpan {count} elemen...',
+    'offline.import.success': 'Ekstrak offline berhasil diimpor',
+    'offline.import.failed': 'Gagal mengimpor ekstrak',
+    'offline.extract': 'ekstrak offline',
+    'offline.extract.date': 'Data per {date}',
+    'offline.extract.date.unknown': 'Tanggal data tidak diketahui',
+    'offline.extract.elements': '{count} fasilitas dan jalan',
+    'offline.extract.none': 'Belum ada ekstrak offline yang diimpor.',
+    'confirm.delete.extract': 'Hapus ekstrak offline yang diimpor?',
+
+    // Shareable permalinks
+    'share.copy.link': 'Salin Tautan',
+    'share.link.copied': 'Tautan disalin ke papan klip',
+    'share.link.failed': 'Tidak dapat menyalin tautan',
+    'share.link.invalid': 'Tautan analisis ini tidak berisi lokasi yang valid',
+    'share.profile.missing': 'Profil penilaian yang dibagikan tidak tersedia di sini; menggunakan profil Anda saat ini',
+
+    // Batch scoring
+    'batch.scoring': 'Penilaian Massal',
+    'batch.scoring.description': 'Unggah CSV dengan kolom alamat atau kolom lat/lng untuk menilai banyak lokasi sekaligus',
+    'batch.upload': 'Unggah CSV',
+    'batch.loaded': '{count} baris dimuat',
+    'batch.invalid.csv': 'Tidak dapat membaca file CSV',
+    'batch.clear': 'Hapus batch',
+    'batch.progress': '{done} dinilai, {failed} gagal, {remaining} tersisa dari {total}',
+    'batch.row': 'Baris {row}',
+    'batch.error.invalid': 'Tanpa lokasi',
+    'batch.error.not-found': 'Tidak ditemukan',
+    'batch.error.error': 'Gagal',
+    'batch.status.pending': 'Menunggu',
+    'batch.status.geocoding': 'Mencari lokasi',
+    'batch.status.scoring': 'Menilai',
+    'batch.start': 'Mulai',
+    'batch.pause': 'Jeda',
+    'batch.resume': 'Lanjutkan',
+    'batch.retry': 'Ulangi {count}',
+    'batch.download': 'Unduh Hasil CSV',
+
+    // Analysis journal
+    'journal.title': 'Riwayat Analisis',
+    'journal.description': 'Setiap analisis yang selesai disimpan di perangkat ini. Klik entri untuk membukanya kembali.',
+    'journal.search': 'Cari berdasarkan alamat',
+    'journal.score': 'Skor',
+    'journal.all.modes': 'Semua mode',
+    'journal.empty': 'Belum ada analisis tersimpan',
+    'journal.count': '{count} analisis',
+    'journal.clear': 'Hapus riwayat',
+    'confirm.clear.journal': 'Hapus semua analisis tersimpan?',
+
+    // Score tracking
+    'trend.title': 'Tren Skor',
+    'trend.track': 'Lacak',
+    'trend.untrack': 'Berhenti melacak',
+    'trend.description': 'Lacak lokasi ini untuk menganalisisnya ulang saat data petanya kedaluwarsa dan mengikuti perubahan skornya dari waktu ke waktu.',
+    'trend.not.enough': 'Analisis ulang lokasi ini nanti untuk melihat perubahan skornya.',
+    'trend.since': 'Perubahan sejak {date}',
+    'trend.overall': 'Keseluruhan',
+    'trend.added': '{count} fasilitas bertambah',
+    'trend.removed': '{count} fasilitas hilang',
+    'trend.more': '+{count} lainnya',
+    'trend.no.changes': 'Tidak ada fasilitas yang bertambah atau hilang sejak analisis sebelumnya',
+    'trend.refresh': 'Analisis ulang sekarang',
+    'trend.tracked': 'Lokasi sekarang dilacak',
+    'trend.untracked': 'Lokasi tidak lagi dilacak',
+    'trend.refreshed': '{count} lokasi terlacak diperbarui',
+
+    // Score explanation
+    'explain': 'Jelaskan',
+    'explain.total': 'Jumlah {count} bagian fasilitas',
+    'explain.clipped': 'Dibatasi 100: total fasilitas mencapai {raw}, sehingga {lost} poin tidak dihitung.',
+    'explain.formula': 'Poin = kontribusi (peluruhan jarak × kualitas) × penyesuaian × bobot kategori. Klik fasilitas untuk menampilkannya di peta.',
+    'explain.empty': 'Tidak ada fasilitas yang dihitung untuk skor ini',
+    'explain.adjustment.walkability': 'Kemudahan jalan kaki ×{factor}',
+    'explain.adjustment.minor-safety': 'Bukan pemadam kebakaran ×{factor}',
+    'explain.adjustment.street-lamp': 'Lampu jalan, juga di kemudahan jalan kaki ×{factor}',
+
+    // What-if simulation
+    'simulation.title': 'Simulasi Bagaimana Jika',
+    'simulation.description': 'Tempatkan fasilitas hipotetis di peta dan lihat bagaimana skor akan berubah. Fasilitas ini tidak disimpan sebagai My Places.',
+    'simulation.start': 'Simulasikan',
+    'simulation.stop': 'Selesai',
+    'simulation.place': 'Klik peta untuk menempatkan fasilitas hipotetis jenis ini:',
+    'simulation.hypothetical': 'Hipotetis',
+    'simulation.facility.name': '{category} hipotetis #{number}',
+    'simulation.untitled': 'Skenario tanpa nama',
+    'simulation.name': 'Nama skenario',
+    'simulation.save': 'Simpan',
+    'simulation.saved': 'Skenario "{name}" disimpan',
+    'simulation.saved.scenarios': 'Skenario tersimpan',
+    'simulation.facility.count': '{count} fasilitas',
+    'simulation.load': 'Muat skenario',
+    'simulation.export': 'Ekspor skenario',
+    'simulation.import': 'Impor Skenario',
+    'simulation.imported': 'Skenario "{name}" diimpor',
+    'simulation.imported.elsewhere': 'Analisis {address} untuk memuatnya.',
+    'simulation.import.failed': 'Skenario tidak dapat diimpor',
+
+    // Site finder
+    'site.finder': 'Pencari Lokasi',
+    'site.finder.description': 'Gambar area untuk menemukan lokasi fasilitas baru yang paling menaikkan rata-rata skor kelayakan huni',
+    'site.finder.category': 'Fasilitas baru',
+    'site.finder.progress': 'Menguji lokasi {done}/{total}',
+    'site.finder.summary': '{candidates} lokasi diuji untuk fasilitas {category} baru. Rata-rata area saat ini: {average}.',
+    'site.finder.none': 'Tidak ada lokasi di area ini yang menaikkan skor',
+    'site.finder.reach': 'Menjangkau {count} titik grid',
+    'site.finder.clear': 'Hapus lokasi',
+    'site.finder.ready': 'Ditemukan {count} lokasi rekomendasi',
+    'site.finder.failed': 'Gagal mencari di area',
+
+    // Population reach
+    'population.reach': 'Jangkauan Penduduk',
+    'population.reach.description': 'Penduduk dalam jarak jalan kaki, dari data penduduk Anda sendiri',
+    'population.reach.headline': 'penduduk dalam {minutes} menit jalan kaki',
+    'population.reach.band': '{minutes} menit jalan kaki',
+    'population.reach.isochrone': 'Dihitung di dalam area jaringan jalan kaki',
+    'population.reach.radius': 'Dihitung dalam jarak jalan kaki garis lurus',
+    'population.reach.outside': 'Lokasi ini berada di luar lapisan data penduduk yang diimpor.',
+    'population.layer.summary': '{count} blok · {population} penduduk',
+    'population.layer.none': 'Impor file GeoJSON atau CSV berisi jumlah atau kepadatan penduduk (mis. blok sensus).',
+    'population.import': 'Impor Data Penduduk',
+    'population.replace': 'Ganti Data Penduduk',
+    'population.import.success': 'Data penduduk berhasil diimpor',
+    'population.import.failed': 'Gagal mengimpor data penduduk',
+    'confirm.delete.population': 'Hapus data penduduk yang diimpor?',
+
+    // Duplicate merging
+    'dedup.title': 'Duplikat yang digabung',
+    'dedup.merged.count': '{count} fasilitas digabung dari elemen OSM duplikat',
+    'dedup.summary': '{elements} elemen OSM digabung menjadi {facilities} fasilitas',
+    'dedup.none': 'Tidak ada elemen OSM duplikat yang digabung pada analisis ini',
+    'dedup.anchor': 'dipertahankan',
+    'dedup.reason.node-in-way': 'di dalam batas area',
+    'dedup.reason.nearby': 'duplikat berdekatan',
+    'dedup.similarity': 'nama cocok {percent}%',
+
+    // Facility quality
+    'quality.badge': 'kualitas ×{factor}',
+    'quality.multiplier': 'Pengali kualitas',
+    'quality.multipliers': 'Pengali kualitas',
+    'quality.multipliers.desc': 'Skalakan kontribusi fasilitas berdasarkan atribut OSM-nya. 1 = tanpa efek; tempat tidur dan kapasitas mencapai nilainya pada 200 tempat tidur atau 500 tempat.',
+    'quality.opening_hours': 'Jam buka',
+    'quality.healthcare': 'Layanan kesehatan',
+    'quality.wheelchair': 'Akses kursi roda',
+    'quality.access.yes': 'Ya',
+    'quality.access.limited': 'Terbatas',
+    'quality.access.no': 'Tidak',
+    'quality.open24h': 'Buka 24/7',
+    'quality.emergency': 'Layanan gawat darurat',
+    'quality.healthcare.hospital': 'Rumah sakit',
+    'quality.healthcare.clinic': 'Klinik',
+    'quality.healthcare.doctor': 'Dokter',
+    'quality.healthcare.dentist': 'Dokter gigi',
+    'quality.healthcare.pharmacy': 'Apotek',
+    'quality.healthcare.veterinary': 'Dokter hewan',
+    'quality.wheelchair.yes': 'Ramah kursi roda',
+    'quality.wheelchair.limited': 'Akses kursi roda terbatas',
+    'quality.wheelchair.no': 'Tanpa akses kursi roda',
+    'quality.beds': 'Tempat tidur',
+    'quality.capacity': 'Kapasitas',
+
+    // Time of day
+    'weekly.title': 'Waktu',
+    'weekly.description': 'Skor untuk hari dan jam tertentu: fasilitas yang tutup pada saat itu menurut jam buka OSM tidak dihitung. Fasilitas tanpa jam buka selalu dihitung.',
+    'weekly.any.time': 'Kapan saja',
+    'weekly.daytime': 'Siang (12:00)',
+    'weekly.night': 'Malam (22:00)',
+    'weekly.no.hours': 'Tidak ada fasilitas di sini yang memiliki jam buka di OSM, jadi skornya sama kapan saja.',
+    'weekly.closed': 'tutup pada waktu yang dipilih',
+    'weekday.Mo': 'Sen',
+    'weekday.Tu': 'Sel',
+    'weekday.We': 'Rab',
+    'weekday.Th': 'Kam',
+    'weekday.Fr': 'Jum',
+    'weekday.Sa': 'Sab',
+    'weekday.Su': 'Min',
+    'weekday.Mo.long': 'Senin',
+    'weekday.Tu.long': 'Selasa',
+    'weekday.We.long': 'Rabu',
+    'weekday.Th.long': 'Kamis',
+    'weekday.Fr.long': 'Jumat',
+    'weekday.Sa.long': 'Sabtu',
+    'weekday.Su.long': 'Minggu',
+
     // Tutorial
     'welcome.title': 'Selamat Datang di Futuricity',
     'welcome.description': 'Alat canggih Anda untuk menganalisis kelayakan huni perkotaan dan merencanakan kota yang lebih baik.',
@@ -1,36 +1,24 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { 
   Heart, 
   GraduationCap, 
   ShieldCheck, 
   Car, 
   TrendingUp,
-  MapPin
+  MapPin,
+  Footprints,
+  Calculator
 } from 'lucide-react';
 import { useLanguage } from './LanguageProvider';
-
-interface LiveabilityData {
-  overall: number;
-  subscores: {
-    services: number;
-    mobility: number;
-    safety: number;
-    environment: number;
-  };
-  location: {
-    address: string;
-    coordinates: { lng: number; lat: number };
-  } | null;
-  facilityCounts: {
-    health: number;
-    education: number;
-    market: number;
-    transport: number;
-    recreation: number;
-  };
-}
+import ScoreTrend, { ScoreTrendProps } from './ScoreTrend';
+import ScoreExplanationPanel, { ScoreExplanationPanelProps } from './ScoreExplanationPanel';
+import PopulationReachCard, { PopulationReachCardProps } from './PopulationReachCard';
+import WeeklyScoreCard, { WeeklyScoreCardProps } from './WeeklyScoreCard';
+import { getSubscoreCategories } from '@/services/categoryTaxonomy';
+import type { FacilityCategory, SubscoreKey } from '@/services/livabilityService';
 
 interface LiveabilityScoreProps {
   data: {
@@ -45,24 +33,19 @@ interface LiveabilityScoreProps {
       address: string;
       coordinates: { lng: number; lat: number };
     } | null;
-    facilityCounts: {
-      health: number;
-      education: number;
-      market: number;
-      transport: number;
-      walkability: number; // New category for walkability infrastructure
-      recreation: number;
-      safety: number;
-      accessibility: number;
-      police: number;
-      religious: number;
-    };
+    facilityCounts: Record<FacilityCategory, number>;
+    timeBandCounts?: Array<{ minutes: number; count: number }>;
   };
+  trend?: ScoreTrendProps; // Score history of the location, when it can be tracked
+  explanation?: ScoreExplanationPanelProps; // Per-facility breakdown of the subscores
+  population?: PopulationReachCardProps; // Residents within walking time, for business owners
+  weekly?: WeeklyScoreCardProps; // Time-of-day picker and day vs night scores across the week
   className?: string;
 }
 
-const LiveabilityScore: React.FC<LiveabilityScoreProps> = ({ data, className }) => {
+const LiveabilityScore: React.FC<LiveabilityScoreProps> = ({ data, trend, explanation, population, weekly, className }) => {
   const { t } = useLanguage();
+  const [showExplanation, setShowExplanation] = useState(false);
   const getScoreColor = (score: number) => {
     if (score >= 80) return 'text-environment';
     if (score >= 60) return 'text-services';
@@ -77,6 +60,10 @@ const LiveabilityScore: React.FC<LiveabilityScoreProps> = ({ data, className })
     return t('poor');
   };
 
+  // Facilities found in the categories a subscore weighs
+  const countFacilities = (subscore: SubscoreKey) =>
+    getSubscoreCategories(subscore).reduce((sum, category) => sum + data.facilityCounts[category], 0);
+
   const subscoreItems = [
     {
       key: 'services',
@@ -84,7 +71,7 @@ const LiveabilityScore: React.FC<LiveabilityScoreProps> = ({ data, className })
       icon: Heart,
       description: t('healthcare.education.markets'),
       color: 'services',
-      count: data.facilityCounts.health + data.facilityCounts.education + data.facilityCounts.market + data.facilityCounts.religious
+      count: countFacilities('services')
     },
     {
       key: 'mobility',
@@ -92,7 +79,7 @@ const LiveabilityScore: React.FC<LiveabilityScoreProps> = ({ data, className })
       icon: Car,
       description: t('public.transport.walkability'),
       color: 'mobility',
-      count: data.facilityCounts.transport + data.facilityCounts.walkability
+      count: countFacilities('mobility')
     },
     {
       key: 'safety',
@@ -100,7 +87,7 @@ const LiveabilityScore: React.FC<LiveabilityScoreProps> = ({ data, className })
       icon: ShieldCheck,
       description: t('public.safety.indicators'),
       color: 'safety',
-      count: data.facilityCounts.safety + data.facilityCounts.police
+      count: countFacilities('safety')
     },
     {
       key: 'environment',
@@ -108,7 +95,7 @@ const LiveabilityScore: React.FC<LiveabilityScoreProps> = ({ data, className })
       icon: GraduationCap,
       description: t('green.spaces.air.quality'),
       color: 'environment',
-      count: data.facilityCounts.recreation
+      count: countFacilities('environment')
     },
 
   ];
@@ -179,15 +166,70 @@ const LiveabilityScore: React.FC<LiveabilityScoreProps> = ({ data, className })
         </CardContent>
       </Card>
 
+      {/* Residents within walking time */}
+      {population && <PopulationReachCard {...population} />}
+
+      {/* Score changes over time */}
+      {trend && <ScoreTrend {...trend} />}
+
+      {/* Score by time of day across the week */}
+      {weekly && <WeeklyScoreCard {...weekly} />}
+
+      {/* Facilities per walking time band */}
+      {data.timeBandCounts && data.timeBandCounts.length > 0 && (
+        <Card className="bg-card border-border shadow-sm">
+          <CardHeader className="pb-3">
+            <div className="flex items-center gap-2">
+              <div className="w-2 h-2 bg-primary rounded-full"></div>
+              <CardTitle className="text-sm md:text-base font-semibold flex items-center gap-2">
+                <Footprints className="w-4 h-4 text-primary" />
+                {t('walking.time.bands')}
+              </CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-0 pb-4">
+            <div className="grid grid-cols-3 gap-2">
+              {data.timeBandCounts.map((band, index) => (
+                <div key={band.minutes} className="p-2 rounded-lg bg-muted/20 text-center">
+                  <div className={`w-2 h-2 rounded-full mx-auto mb-1 ${
+                    index === 0 ? 'bg-green-500' : index === 1 ? 'bg-yellow-500' : 'bg-red-500'
+                  }`} />
+                  <div className="font-bold text-base">{band.count}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {t('walking.band', {
+                      from: index === 0 ? 0 : data.timeBandCounts![index - 1].minutes,
+                      to: band.minutes,
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Sub-scores */}
       <Card className="bg-card border-border shadow-sm">
         <CardHeader className="pb-4">
-          <div className="flex items-center gap-2">
-            <div className="w-2 h-2 bg-primary rounded-full"></div>
-            <CardTitle className="text-sm md:text-base font-semibold flex items-center gap-2">
-              <TrendingUp className="w-4 h-4 text-primary" />
-              {t('score.breakdown')}
-            </CardTitle>
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <div className="w-2 h-2 bg-primary rounded-full"></div>
+              <CardTitle className="text-sm md:text-base font-semibold flex items-center gap-2">
+                <TrendingUp className="w-4 h-4 text-primary" />
+                {t('score.breakdown')}
+              </CardTitle>
+            </div>
+            {explanation && (
+              <Button
+                variant={showExplanation ? 'default' : 'outline'}
+                size="sm"
+                className="h-7 text-xs px-2"
+                onClick={() => setShowExplanation(!showExplanation)}
+              >
+                <Calculator className="w-3 h-3 mr-1" />
+                {t('explain')}
+              </Button>
+            )}
           </div>
         </CardHeader>
         <CardContent className="space-y-2 pt-0 pb-4">
@@ -240,6 +282,11 @@ const LiveabilityScore: React.FC<LiveabilityScoreProps> = ({ data, className })
               </div>
             );
           })}
+          {explanation && showExplanation && (
+            <div className="pt-2">
+              <ScoreExplanationPanel {...explanation} />
+            </div>
+          )}
         </CardContent>
       </Card>
 
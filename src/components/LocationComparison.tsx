@@ -0,0 +1,277 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { PolarAngleAxis, PolarGrid, Radar, RadarChart } from "recharts";
+import { Columns3, Pin, Trash2, X } from "lucide-react";
+import {
+  MAX_PINNED_LOCATIONS,
+  PinnedLocation,
+} from "@/services/comparisonService";
+import type { SubscoreKey } from "@/services/livabilityService";
+import { CATEGORY_KEYS } from "@/services/categoryTaxonomy";
+import { useLanguage } from "./LanguageProvider";
+
+interface LocationComparisonProps {
+  pinnedLocations: PinnedLocation[];
+  canPinCurrent: boolean; // True when the current location has been analyzed
+  onPinCurrent: () => void;
+  onUnpin: (id: string) => void;
+  onClear: () => void;
+  onLocationClick?: (lng: number, lat: number) => void; // Pan the map to a pin
+  className?: string;
+}
+
+const SUBSCORE_KEYS: SubscoreKey[] = [
+  "services",
+  "mobility",
+  "safety",
+  "environment",
+];
+
+const LocationComparison: React.FC<LocationComparisonProps> = ({
+  pinnedLocations,
+  canPinCurrent,
+  onPinCurrent,
+  onUnpin,
+  onClear,
+  onLocationClick,
+  className,
+}) => {
+  const { t } = useLanguage();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const isFull = pinnedLocations.length >= MAX_PINNED_LOCATIONS;
+
+  // One radar series per pinned location
+  const chartConfig: ChartConfig = Object.fromEntries(
+    pinnedLocations.map((pin, index) => [
+      `pin${index}`,
+      { label: `#${index + 1}`, color: pin.color },
+    ])
+  );
+
+  const radarData = SUBSCORE_KEYS.map((key) => ({
+    subscore: t(key),
+    ...Object.fromEntries(
+      pinnedLocations.map((pin, index) => [
+        `pin${index}`,
+        Math.round(pin.data.subscores[key]),
+      ])
+    ),
+  }));
+
+  // Highlight the best value in each table row
+  const bestOf = (values: number[]) => Math.max(...values);
+
+  const renderRow = (label: string, values: number[], key: string) => {
+    const best = bestOf(values);
+    return (
+      <TableRow key={key}>
+        <TableCell className="text-xs font-medium capitalize">{label}</TableCell>
+        {values.map((value, index) => (
+          <TableCell
+            key={pinnedLocations[index].id}
+            className={`text-xs text-center ${
+              value === best && pinnedLocations.length > 1
+                ? "font-bold text-primary"
+                : ""
+            }`}
+          >
+            {value}
+          </TableCell>
+        ))}
+      </TableRow>
+    );
+  };
+
+  return (
+    <Card className={`bg-card border-border shadow-sm ${className || ""}`}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <div className="w-2 h-2 bg-primary rounded-full"></div>
+            <CardTitle className="text-sm md:text-base font-semibold flex items-center gap-2">
+              <Columns3 className="w-4 h-4 text-primary" />
+              {t("compare.locations")}
+            </CardTitle>
+          </div>
+          <span className="text-xs text-muted-foreground">
+            {pinnedLocations.length}/{MAX_PINNED_LOCATIONS}
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 pb-4 space-y-3">
+        {pinnedLocations.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            {t("compare.locations.empty")}
+          </p>
+        ) : (
+          <div className="space-y-1.5">
+            {pinnedLocations.map((pin, index) => (
+              <div
+                key={pin.id}
+                className="flex items-center gap-2 p-2 rounded-lg bg-muted/20 hover:bg-muted/40 transition-colors cursor-pointer"
+                onClick={() => onLocationClick?.(pin.lng, pin.lat)}
+              >
+                <span
+                  className="w-5 h-5 rounded-full flex items-center justify-center text-[10px] font-bold text-white flex-shrink-0"
+                  style={{ backgroundColor: pin.color }}
+                >
+                  {index + 1}
+                </span>
+                <span className="text-xs truncate flex-1">{pin.label}</span>
+                <span className="text-xs font-bold">
+                  {Math.round(pin.data.overall)}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onUnpin(pin.id);
+                  }}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1 text-xs"
+            onClick={onPinCurrent}
+            disabled={!canPinCurrent || isFull}
+          >
+            <Pin className="w-3 h-3 mr-1" />
+            {isFull ? t("compare.full") : t("pin.location")}
+          </Button>
+          <Button
+            size="sm"
+            className="flex-1 text-xs"
+            onClick={() => setIsDialogOpen(true)}
+            disabled={pinnedLocations.length < 2}
+          >
+            <Columns3 className="w-3 h-3 mr-1" />
+            {t("compare")}
+          </Button>
+          {pinnedLocations.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-xs px-2"
+              onClick={onClear}
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[760px] max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{t("compare.locations")}</DialogTitle>
+            <DialogDescription>{t("compare.locations.description")}</DialogDescription>
+          </DialogHeader>
+
+          <ChartContainer config={chartConfig} className="mx-auto aspect-square max-h-[320px]">
+            <RadarChart data={radarData}>
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <PolarGrid />
+              <PolarAngleAxis dataKey="subscore" />
+              {pinnedLocations.map((pin, index) => (
+                <Radar
+                  key={pin.id}
+                  dataKey={`pin${index}`}
+                  stroke={`var(--color-pin${index})`}
+                  fill={`var(--color-pin${index})`}
+                  fillOpacity={0.15}
+                  strokeWidth={2}
+                />
+              ))}
+              <ChartLegend content={<ChartLegendContent />} />
+            </RadarChart>
+          </ChartContainer>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">{t("metric")}</TableHead>
+                {pinnedLocations.map((pin, index) => (
+                  <TableHead key={pin.id} className="text-xs text-center">
+                    <div className="flex flex-col items-center gap-1">
+                      <span
+                        className="w-5 h-5 rounded-full flex items-center justify-center text-[10px] font-bold text-white"
+                        style={{ backgroundColor: pin.color }}
+                      >
+                        {index + 1}
+                      </span>
+                      <span className="max-w-[120px] truncate" title={pin.label}>
+                        {pin.label}
+                      </span>
+                    </div>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {renderRow(
+                t("livability.score"),
+                pinnedLocations.map((pin) => Math.round(pin.data.overall)),
+                "overall"
+              )}
+              {SUBSCORE_KEYS.map((key) =>
+                renderRow(
+                  t(key),
+                  pinnedLocations.map((pin) =>
+                    Math.round(pin.data.subscores[key])
+                  ),
+                  key
+                )
+              )}
+              {CATEGORY_KEYS.map((category) =>
+                renderRow(
+                  t(category),
+                  pinnedLocations.map(
+                    (pin) => pin.data.facilityCounts[category] || 0
+                  ),
+                  `count-${category}`
+                )
+              )}
+            </TableBody>
+          </Table>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default LocationComparison;
@@ -4,21 +4,19 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { MapPin, Search, Loader2, History, X, Clock } from "lucide-react";
 import { useLanguage } from "./LanguageProvider";
-import { cacheService } from "@/services/cacheService";
+import { GeocodeResult, searchAddress } from "@/services/geocodingService";
 import {
   searchHistoryService,
   SearchHistoryItem,
 } from "@/services/searchHistoryService";
 
-interface SearchResult {
-  display_name: string;
-  lat: string;
-  lon: string;
-  place_id: string;
-}
-
 interface LocationSearchProps {
-  onLocationSelect: (lng: number, lat: number, address: string) => void;
+  onLocationSelect: (
+    lng: number,
+    lat: number,
+    address: string,
+    countryCode?: string
+  ) => void;
   className?: string;
 }
 
@@ -28,7 +26,7 @@ const LocationSearch: React.FC<LocationSearchProps> = ({
 }) => {
   const { t } = useLanguage();
   const [query, setQuery] = useState("");
-  const [results, setResults] = useState<SearchResult[]>([]);
+  const [results, setResults] = useState<GeocodeResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [showResults, setShowResults] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
@@ -68,20 +66,7 @@ const LocationSearch: React.FC<LocationSearchProps> = ({
     setIsLoading(true);
     setShowResults(true); // Show dropdown immediately when searching
     try {
-      const data = await cacheService.cacheSearchResults(
-        searchQuery,
-        async () => {
-          const response = await fetch(
-            `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(
-              searchQuery
-            )}&limit=5&addressdetails=1`
-          );
-          if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
-          }
-          return response.json();
-        }
-      );
+      const data = await searchAddress(searchQuery);
       setResults(data);
     } catch (error) {
       setResults([]);
@@ -107,10 +92,10 @@ const LocationSearch: React.FC<LocationSearchProps> = ({
     }, 300);
   };
 
-  const handleResultSelect = (result: SearchResult) => {
+  const handleResultSelect = (result: GeocodeResult) => {
     const lng = parseFloat(result.lon);
     const lat = parseFloat(result.lat);
-    onLocationSelect(lng, lat, result.display_name);
+    onLocationSelect(lng, lat, result.display_name, result.address?.country_code);
     setQuery(result.display_name);
     setShowResults(false);
 
@@ -1,13 +1,47 @@
 import React, { useCallback, useEffect, useRef, useState } from "react";
-import { Map as MapLibre, Marker, Popup } from "maplibre-gl";
+import {
+  GeoJSONSource,
+  Map as MapLibre,
+  MapMouseEvent,
+  Marker,
+  Popup,
+} from "maplibre-gl";
 import "maplibre-gl/dist/maplibre-gl.css";
 import LocationSearch from "@/components/LocationSearch";
-import { cacheService } from "@/services/cacheService";
+import { reverseGeocode } from "@/services/geocodingService";
+import {
+  FacilityQuality,
+  QUALITY_FACTORS,
+  getFacilityAttributes,
+} from "@/services/facilityQuality";
 import { useTheme } from "@/components/ThemeProvider";
 import { useLanguage } from "@/components/LanguageProvider";
+import type { IsochroneBand } from "@/services/walkingNetworkService";
+import {
+  HEATMAP_COLOR_STOPS,
+  HeatmapResult,
+} from "@/services/heatmapService";
+import {
+  CATEGORY_KEYS,
+  getCategoryColor,
+  getCategoryIcon,
+} from "@/services/categoryTaxonomy";
+
+// Background colour and glow per facility category (30% alpha)
+const FACILITY_CLASS_STYLES = CATEGORY_KEYS.map((category) => {
+  const color = getCategoryColor(category);
+  return `          .facility-${category} { background-color: ${color} !important; box-shadow: 0 0 20px ${color}4d !important; }`;
+}).join("\n");
+
+export type DrawMode = "rectangle" | "polygon";
 
 interface MapProps {
-  onLocationSelect: (lng: number, lat: number, address?: string) => void;
+  onLocationSelect: (
+    lng: number,
+    lat: number,
+    address?: string,
+    countryCode?: string // Nominatim address.country_code, e.g. "id"
+  ) => void;
   selectedLocation: { lng: number; lat: number; address?: string } | null;
   facilities: Array<{
     id: string;
@@ -16,15 +50,40 @@ interface MapProps {
     lng: number;
     lat: number;
     distance: number;
+    networkDistance?: number;
     contribution: number;
     tags?: any;
+    quality?: FacilityQuality;
+    closed?: boolean;
   }>;
   showRadius: boolean;
   radiusOptions: number[];
+  isochrones?: IsochroneBand[]; // Walking time polygons; radius circles are drawn when empty
   hasCalculated?: boolean;
   visibleCategories: Record<string, boolean>;
   satelliteEnabled?: boolean; // new optional prop to toggle satellite imagery
   isCustomPoiMode?: boolean; // new prop to indicate Custom POI Mode is active
+  pinnedLocations?: Array<{
+    id: string;
+    label: string;
+    color: string;
+    lng: number;
+    lat: number;
+  }>; // Locations pinned for comparison, drawn in their own colour
+  drawMode?: DrawMode | null; // When set, clicks draw an area instead of selecting a location
+  onAreaDrawn?: (ring: Array<[number, number]>) => void;
+  heatmap?: HeatmapResult | null;
+  focusZoom?: number; // Zoom used when centering on the selected location (default 14)
+  onZoomChange?: (zoom: number) => void;
+  highlightedFacilityId?: string | null; // Facility to center on and mark, e.g. from the score explanation
+  onPlaceFacility?: (lng: number, lat: number) => void; // When set, clicks place a hypothetical facility
+  siteCandidates?: Array<{
+    id: string;
+    rank: number;
+    lat: number;
+    lng: number;
+    impact: number;
+  }>; // Ranked sites from the site finder, labelled with their score impact
 }
 
 const Map: React.FC<MapProps> = ({
@@ -33,20 +92,40 @@ const Map: React.FC<MapProps> = ({
   facilities,
   showRadius,
   radiusOptions,
+  isochrones,
   hasCalculated = false,
   visibleCategories,
   satelliteEnabled = false,
   isCustomPoiMode = false,
+  pinnedLocations,
+  drawMode = null,
+  onAreaDrawn,
+  heatmap,
+  focusZoom,
+  onZoomChange,
+  highlightedFacilityId,
+  onPlaceFacility,
+  siteCandidates,
 }) => {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<MapLibre | null>(null);
   const [mapLoaded, setMapLoaded] = useState(false);
   const [styleLoaded, setStyleLoaded] = useState(false);
   const markersRef = useRef<Marker[]>([]);
+  const markerElementsRef = useRef<Record<string, HTMLElement>>({});
+  const highlightMarkerRef = useRef<Marker | null>(null);
   const selectedLocationMarkerRef = useRef<Marker | null>(null);
   const popupRef = useRef<Popup | null>(null);
+  const radiusLayerIdsRef = useRef<string[]>([]);
+  const pinnedMarkersRef = useRef<Marker[]>([]);
+  const siteMarkersRef = useRef<Marker[]>([]);
+  const drawModeRef = useRef<DrawMode | null>(drawMode);
+  const drawPointsRef = useRef<Array<[number, number]>>([]);
+  const onAreaDrawnRef = useRef(onAreaDrawn);
   const onLocationSelectRef = useRef(onLocationSelect);
   const isCustomPoiModeRef = useRef(isCustomPoiMode);
+  const onZoomChangeRef = useRef(onZoomChange);
+  const onPlaceFacilityRef = useRef(onPlaceFacility);
   const { theme } = useTheme();
   const { t } = useLanguage();
 
@@ -63,47 +142,36 @@ const Map: React.FC<MapProps> = ({
     onLocationSelectRef.current = onLocationSelect;
   }, [onLocationSelect]);
 
+  useEffect(() => {
+    onZoomChangeRef.current = onZoomChange;
+  }, [onZoomChange]);
+
   // Update the ref when isCustomPoiMode changes
   useEffect(() => {
     isCustomPoiModeRef.current = isCustomPoiMode;
   }, [isCustomPoiMode]);
 
-  // Helper function to get address from coordinates with caching
-  const getAddressFromCoordinates = async (
-    lng: number,
-    lat: number
-  ): Promise<string> => {
-    return cacheService.cacheLocationData(
-      lat,
-      lng,
-      "address",
-      async () => {
-        try {
-          const response = await fetch(
-            `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}&addressdetails=1&zoom=18`
-          );
-          if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
-          }
-          const data = await response.json();
-          return data.display_name || `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
-        } catch (error) {
-          return `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
-        }
-      },
-      60 * 60 * 1000 // 1 hour cache for addresses
-    );
-  };
+  useEffect(() => {
+    onAreaDrawnRef.current = onAreaDrawn;
+  }, [onAreaDrawn]);
+
+  useEffect(() => {
+    onPlaceFacilityRef.current = onPlaceFacility;
+    if (map.current && !drawModeRef.current) {
+      map.current.getCanvas().style.cursor = onPlaceFacility ? "copy" : "";
+    }
+  }, [onPlaceFacility]);
 
   // Effect to fetch address if missing (e.g. when switching back from Custom POI mode)
   useEffect(() => {
     if (!isCustomPoiMode && selectedLocation && !selectedLocation.address) {
-      getAddressFromCoordinates(selectedLocation.lng, selectedLocation.lat).then(
-        (address) => {
+      reverseGeocode(selectedLocation.lat, selectedLocation.lng).then(
+        ({ address, countryCode }) => {
           onLocationSelectRef.current(
             selectedLocation.lng,
             selectedLocation.lat,
-            address
+            address,
+            countryCode
           );
         }
       );
@@ -143,340 +211,6 @@ const Map: React.FC<MapProps> = ({
     return circleData;
   };
 
-  // Category colors matching the ControlPanel facility categories
-  const categoryColors = {
-    health: "#ef4444", // red-500 for healthcare
-    education: "#3b82f6", // blue-500 for education
-    market: "#a16207", // amber-700 for market (brown)
-    transport: "#8b5cf6", // purple-500 for transport
-    recreation: "#14b8a6", // teal-500 for recreation
-    safety: "#10b981", // green-500 for safety
-    accessibility: "#ec4899", // pink-500 for accessibility
-    police: "#6366f1", // indigo-500 for police
-    religious: "#d1d5db", // gray-300 for religious
-    walkability: "#fb923c", // orange-400 for walkability
-    default: "#6b7280",
-  };
-
-  const categoryIcons = {
-    health: "🏥",
-    education: "🏫",
-    market: "🛒", // shopping cart for market (will be overridden by getMarketIcon)
-    transport: "🚌",
-    recreation: "🌳",
-    safety: "🚦", // traffic light for traffic safety
-    accessibility: "♿", // wheelchair for accessibility features (visual only)
-    police: "👮", // police officer for police facilities
-    religious: "🙏", // generic religious icon (will be overridden by getReligiousIcon)
-    walkability: "🚶", // walkability icon
-    default: "📍",
-  };
-
-  // Function to get religion-specific icon based on facility name
-  const getReligiousIcon = (facilityName: string): string => {
-    const name = facilityName.toLowerCase();
-
-    // Christianity - English & Indonesian
-    if (
-      name.includes("church") ||
-      name.includes("cathedral") ||
-      name.includes("chapel") ||
-      name.includes("basilica") ||
-      name.includes("gereja") ||
-      name.includes("katedral") ||
-      name.includes("kapel")
-    ) {
-      return "⛪";
-    }
-
-    // Islam - English & Indonesian
-    if (
-      name.includes("mosque") ||
-      name.includes("masjid") ||
-      name.includes("masjid") ||
-      name.includes("surau") ||
-      name.includes("musholla") ||
-      name.includes("langgar")
-    ) {
-      return "🕌";
-    }
-
-    // Hinduism - English & Indonesian
-    if (
-      name.includes("temple") ||
-      name.includes("mandir") ||
-      name.includes("gurdwara") ||
-      name.includes("pura") ||
-      name.includes("candi") ||
-      name.includes("mandir")
-    ) {
-      return "🕉️";
-    }
-
-    // Judaism - English & Indonesian
-    if (
-      name.includes("synagogue") ||
-      name.includes("jewish") ||
-      name.includes("jew") ||
-      name.includes("sinagoga") ||
-      name.includes("rumah ibadat yahudi")
-    ) {
-      return "🕍";
-    }
-
-    // Buddhism - English & Indonesian
-    if (
-      name.includes("buddhist") ||
-      name.includes("pagoda") ||
-      name.includes("vihara") ||
-      name.includes("vihara") ||
-      name.includes("pagoda") ||
-      name.includes("klenteng") ||
-      name.includes("wihara")
-    ) {
-      return "🏛️";
-    }
-
-    // Sikhism - English & Indonesian
-    if (
-      name.includes("sikh") ||
-      name.includes("gurdwara") ||
-      name.includes("gurdwara") ||
-      name.includes("rumah ibadat sikh")
-    ) {
-      return "🕉️";
-    }
-
-    // Confucianism - Indonesian
-    if (
-      name.includes("klenteng") ||
-      name.includes("vihara") ||
-      name.includes("kelenteng")
-    ) {
-      return "🏛️";
-    }
-
-    // Generic religious terms - Indonesian
-    if (
-      name.includes("rumah ibadat") ||
-      name.includes("tempat ibadah") ||
-      name.includes("ibadah")
-    ) {
-      return "🙏";
-    }
-
-    // Default religious icon
-    return "🙏";
-  };
-
-  // Function to get market-specific icon based on facility type and name
-  const getMarketIcon = (facilityName: string, tags?: any): string => {
-    if (!tags) return "🛒"; // Default icon if no tags available
-    const name = facilityName.toLowerCase();
-
-    // Gas stations and fuel facilities
-    if (
-      tags?.amenity === "fuel" ||
-      tags?.amenity === "gas_station" ||
-      tags?.amenity === "petrol_station" ||
-      tags?.amenity === "service_station" ||
-      name.includes("spbu") ||
-      name.includes("pom bensin") ||
-      name.includes("gas station") ||
-      name.includes("petrol") ||
-      name.includes("fuel") ||
-      name.includes("bensin") ||
-      name.includes("solar") ||
-      name.includes("pertamina") ||
-      name.includes("shell") ||
-      name.includes("bp") ||
-      name.includes("esso") ||
-      name.includes("caltex")
-    ) {
-      return "⛽";
-    }
-
-    // Restaurants and food establishments
-    if (
-      tags?.amenity === "restaurant" ||
-      tags?.amenity === "cafe" ||
-      tags?.amenity === "fast_food" ||
-      tags?.amenity === "food_court" ||
-      tags?.amenity === "bar" ||
-      tags?.amenity === "pub" ||
-      tags?.amenity === "ice_cream" ||
-      tags?.amenity === "coffee_shop" ||
-      name.includes("restaurant") ||
-      name.includes("cafe") ||
-      name.includes("warung") ||
-      name.includes("warung makan") ||
-      name.includes("rumah makan") ||
-      name.includes("kedai kopi") ||
-      name.includes("coffee") ||
-      name.includes("bakery") ||
-      name.includes("roti") ||
-      name.includes("cake") ||
-      name.includes("pizza") ||
-      name.includes("burger") ||
-      name.includes("nasi") ||
-      name.includes("mie") ||
-      name.includes("sate") ||
-      name.includes("ayam")
-    ) {
-      return "🍽️";
-    }
-
-    // Coffee shops and cafes
-    if (
-      tags?.amenity === "cafe" ||
-      tags?.amenity === "coffee_shop" ||
-      name.includes("coffee") ||
-      name.includes("kopi") ||
-      name.includes("cafe") ||
-      name.includes("kedai kopi") ||
-      name.includes("coffee shop") ||
-      name.includes("starbucks")
-    ) {
-      return "☕";
-    }
-
-    // Bakeries and pastry shops
-    if (
-      tags?.shop === "bakery" ||
-      tags?.amenity === "bakery" ||
-      name.includes("bakery") ||
-      name.includes("roti") ||
-      name.includes("cake") ||
-      name.includes("pastry") ||
-      name.includes("bread") ||
-      name.includes("kue")
-    ) {
-      return "🥐";
-    }
-
-    // Supermarkets and grocery stores
-    if (
-      tags?.shop === "supermarket" ||
-      tags?.shop === "convenience" ||
-      tags?.shop === "grocery" ||
-      name.includes("supermarket") ||
-      name.includes("minimarket") ||
-      name.includes("indomaret") ||
-      name.includes("alfamart") ||
-      name.includes("carrefour") ||
-      name.includes("giant") ||
-      name.includes("hypermart") ||
-      name.includes("lotte mart") ||
-      name.includes("grocery") ||
-      name.includes("mr diy")
-    ) {
-      return "🛒";
-    }
-
-    // Clothing and fashion stores
-    if (
-      tags?.shop === "clothes" ||
-      tags?.shop === "fashion" ||
-      tags?.shop === "jewelry" ||
-      name.includes("clothes") ||
-      name.includes("fashion") ||
-      name.includes("baju") ||
-      name.includes("pakaian") ||
-      name.includes("jewelry") ||
-      name.includes("perhiasan") ||
-      name.includes("sepatu") ||
-      name.includes("shoes") ||
-      name.includes("bag") ||
-      name.includes("tas") ||
-      name.includes("accessories")
-    ) {
-      return "👕";
-    }
-
-    // Electronics and technology stores
-    if (
-      tags?.shop === "electronics" ||
-      tags?.shop === "mobile_phone" ||
-      tags?.shop === "computer" ||
-      name.includes("electronics") ||
-      name.includes("electronic") ||
-      name.includes("hp") ||
-      name.includes("mobile") ||
-      name.includes("phone") ||
-      name.includes("computer") ||
-      name.includes("laptop") ||
-      name.includes("gadget") ||
-      name.includes("cell") ||
-      name.includes("tech")
-    ) {
-      return "📱";
-    }
-
-    // Pharmacies and drug stores
-    if (
-      tags?.shop === "pharmacy" ||
-      tags?.amenity === "pharmacy" ||
-      name.includes("pharmacy") ||
-      name.includes("apotek") ||
-      name.includes("apotik") ||
-      name.includes("drugstore") ||
-      name.includes("obat")
-    ) {
-      return "💊";
-    }
-
-    // Hardware and DIY stores
-    if (
-      tags?.shop === "hardware" ||
-      tags?.shop === "doityourself" ||
-      tags?.shop === "paint" ||
-      name.includes("hardware") ||
-      name.includes("bangunan") ||
-      name.includes("material") ||
-      name.includes("paint") ||
-      name.includes("cat") ||
-      name.includes("tools") ||
-      name.includes("alat") ||
-      name.includes("perkakas")
-    ) {
-      return "🔨";
-    }
-
-    // Bookstores and stationery
-    if (
-      tags?.shop === "books" ||
-      tags?.shop === "stationery" ||
-      tags?.shop === "newsagent" ||
-      name.includes("book") ||
-      name.includes("buku") ||
-      name.includes("stationery") ||
-      name.includes("alat tulis") ||
-      name.includes("paper") ||
-      name.includes("fotocopy") ||
-      name.includes("kertas")
-    ) {
-      return "📚";
-    }
-
-    // General convenience stores and small shops
-    if (
-      tags?.shop === "convenience" ||
-      tags?.shop === "general" ||
-      tags?.shop === "kiosk" ||
-      name.includes("toko") ||
-      name.includes("warung") ||
-      name.includes("kedai") ||
-      name.includes("store") ||
-      name.includes("shop") ||
-      name.includes("convenience")
-    ) {
-      return "🏪";
-    }
-
-    // Default market icon
-    return "🛒";
-  };
-
   useEffect(() => {
     if (!mapContainer.current) return;
 
@@ -553,16 +287,29 @@ const Map: React.FC<MapProps> = ({
       setStyleLoaded(true);
     });
 
+    map.current.on("zoomend", () => {
+      onZoomChangeRef.current?.(map.current!.getZoom());
+    });
+
     map.current.on("click", async (e) => {
       const { lng, lat } = e.lngLat;
 
+      // Area drawing handles its own clicks
+      if (drawModeRef.current) return;
+
+      // Simulation places hypothetical facilities instead of selecting
+      if (onPlaceFacilityRef.current) {
+        onPlaceFacilityRef.current(lng, lat);
+        return;
+      }
+
       // Skip address loading in Custom POI Mode for faster pinning
       if (isCustomPoiModeRef.current) {
         onLocationSelectRef.current(lng, lat);
       } else {
-        // Get address from coordinates
-        const address = await getAddressFromCoordinates(lng, lat);
-        onLocationSelectRef.current(lng, lat, address);
+        // Get address and country from coordinates
+        const { address, countryCode } = await reverseGeocode(lat, lng);
+        onLocationSelectRef.current(lng, lat, address, countryCode);
       }
     });
 
@@ -631,39 +378,84 @@ const Map: React.FC<MapProps> = ({
       return;
     }
 
-    // Only clear radius circles if we're showing new ones or if there are no facilities
-    // This prevents clearing radius when just selecting a new location
-    if (!facilities.length || !showRadius) {
-      const layersToRemove = [
-        "radius-250",
-        "radius-500",
-        "radius-1000",
-        "radius-250-fill",
-        "radius-500-fill",
-        "radius-1000-fill",
-      ];
-      const sourcesToRemove = ["radius-250", "radius-500", "radius-1000"];
-
-      layersToRemove.forEach((layerId) => {
+    // Clear previously drawn radius circles; the configured radii may have changed
+    radiusLayerIdsRef.current.forEach((sourceId) => {
+      [`${sourceId}-fill`, sourceId].forEach((layerId) => {
         if (map.current!.getLayer(layerId)) {
           map.current!.removeLayer(layerId);
         }
       });
+      if (map.current!.getSource(sourceId)) {
+        map.current!.removeSource(sourceId);
+      }
+    });
+    radiusLayerIdsRef.current = [];
+
+    if (showRadius && isochrones && isochrones.length > 0) {
+      // Walking time bands: 5 min green, 10 min yellow, 15 min red
+      const bandColors = ["#22c55e", "#eab308", "#ef4444"];
+
+      // Draw the largest band first so shorter walks stay on top
+      [...isochrones]
+        .map((band, index) => ({ band, color: bandColors[index] || "#ef4444" }))
+        .reverse()
+        .forEach(({ band, color }) => {
+          try {
+            const sourceId = `isochrone-${band.minutes}`;
+
+            map.current!.addSource(sourceId, {
+              type: "geojson",
+              data: {
+                type: "Feature",
+                properties: { minutes: band.minutes },
+                geometry: { type: "Polygon", coordinates: [band.coordinates] },
+              },
+            });
+            radiusLayerIdsRef.current.push(sourceId);
 
-      sourcesToRemove.forEach((sourceId) => {
-        if (map.current!.getSource(sourceId)) {
-          map.current!.removeSource(sourceId);
-        }
-      });
-
-      // No more pulse intervals to clear
-    }
+            map.current!.addLayer({
+              id: `${sourceId}-fill`,
+              type: "fill",
+              source: sourceId,
+              paint: {
+                "fill-color": color,
+                "fill-opacity": 0.08,
+              },
+            });
+            map.current!.addLayer({
+              id: sourceId,
+              type: "line",
+              source: sourceId,
+              paint: {
+                "line-color": color,
+                "line-width": 2.5,
+                "line-opacity": 0.8,
+              },
+              layout: {
+                "line-join": "round",
+                "line-cap": "round",
+              },
+            });
+          } catch (error) {
+            // Error adding isochrone
+          }
+        });
+    } else if (showRadius && radiusOptions.length > 0) {
+      // Inner rings green, outer rings red
+      const ringColors = ["#22c55e", "#84cc16", "#eab308", "#f97316", "#ef4444"];
 
-    if (showRadius && radiusOptions.length > 0) {
       radiusOptions.forEach((radius, index) => {
         try {
-          const sourceId = `radius-${radius}`;
-          const layerId = `radius-${radius}`;
+          const sourceId = `radius-${Math.round(radius)}`;
+          const layerId = sourceId;
+          const color =
+            radiusOptions.length === 1
+              ? ringColors[ringColors.length - 1]
+              : ringColors[
+                  Math.round(
+                    (index * (ringColors.length - 1)) / (radiusOptions.length - 1)
+                  )
+                ];
 
           const circleData = createCircle(
             selectedLocation.lng,
@@ -675,14 +467,14 @@ const Map: React.FC<MapProps> = ({
             type: "geojson",
             data: circleData,
           });
+          radiusLayerIdsRef.current.push(sourceId);
 
           map.current!.addLayer({
             id: layerId,
             type: "line",
             source: sourceId,
             paint: {
-              "line-color":
-                index === 0 ? "#22c55e" : index === 1 ? "#eab308" : "#ef4444",
+              "line-color": color,
               "line-width": 3,
               "line-opacity": 0.8,
             },
@@ -699,9 +491,8 @@ const Map: React.FC<MapProps> = ({
               type: "fill",
               source: sourceId,
               paint: {
-                "fill-color":
-                  index === 0 ? "#22c55e" : index === 1 ? "#eab308" : "#ef4444",
-                "fill-opacity": index === 0 ? 0.08 : index === 1 ? 0.06 : 0.04,
+                "fill-color": color,
+                "fill-opacity": Math.max(0.02, 0.08 - index * 0.02),
               },
             },
             layerId
@@ -754,18 +545,298 @@ const Map: React.FC<MapProps> = ({
     // Center map on selected location
     map.current.flyTo({
       center: [selectedLocation.lng, selectedLocation.lat],
-      zoom: 14,
+      zoom: focusZoom ?? 14,
       duration: 1000,
     });
   }, [
+    focusZoom,
     selectedLocation,
     showRadius,
     radiusOptions,
+    isochrones,
     isMapReady,
     hasCalculated,
     facilities,
   ]);
 
+  // Area drawing (rectangle: two corner clicks, polygon: clicks + double-click to finish)
+  useEffect(() => {
+    if (!map.current || !isMapReady) return;
+    const mapInstance = map.current;
+
+    drawModeRef.current = drawMode;
+    drawPointsRef.current = [];
+
+    // Preview of the shape being drawn
+    const renderDraft = (cursor?: [number, number]) => {
+      const points = [...drawPointsRef.current];
+      let ring: Array<[number, number]> = [];
+      if (drawMode === "rectangle" && points.length === 1 && cursor) {
+        const [[x1, y1], [x2, y2]] = [points[0], cursor];
+        ring = [[x1, y1], [x2, y1], [x2, y2], [x1, y2], [x1, y1]];
+      } else if (points.length > 0) {
+        ring = cursor ? [...points, cursor] : points;
+        ring = [...ring, ring[0]];
+      }
+      const data = {
+        type: "Feature" as const,
+        properties: {},
+        geometry: {
+          type: ring.length >= 4 ? ("Polygon" as const) : ("LineString" as const),
+          coordinates: ring.length >= 4 ? [ring] : ring,
+        },
+      };
+      const source = mapInstance.getSource("draw-area") as GeoJSONSource | undefined;
+      if (source) {
+        source.setData(data as GeoJSON.Feature);
+      } else {
+        mapInstance.addSource("draw-area", { type: "geojson", data: data as GeoJSON.Feature });
+        mapInstance.addLayer({
+          id: "draw-area-fill",
+          type: "fill",
+          source: "draw-area",
+          paint: { "fill-color": "#3b82f6", "fill-opacity": 0.1 },
+        });
+        mapInstance.addLayer({
+          id: "draw-area-line",
+          type: "line",
+          source: "draw-area",
+          paint: {
+            "line-color": "#3b82f6",
+            "line-width": 2,
+            "line-dasharray": [2, 2],
+          },
+        });
+      }
+    };
+
+    const clearDraft = () => {
+      ["draw-area-line", "draw-area-fill"].forEach((layerId) => {
+        if (mapInstance.getLayer(layerId)) mapInstance.removeLayer(layerId);
+      });
+      if (mapInstance.getSource("draw-area")) mapInstance.removeSource("draw-area");
+    };
+
+    const finish = (ring: Array<[number, number]>) => {
+      drawPointsRef.current = [];
+      clearDraft();
+      onAreaDrawnRef.current?.([...ring, ring[0]]);
+    };
+
+    if (!drawMode) {
+      clearDraft();
+      return;
+    }
+
+    const handleClick = (e: MapMouseEvent) => {
+      const point: [number, number] = [e.lngLat.lng, e.lngLat.lat];
+      const points = drawPointsRef.current;
+
+      if (drawMode === "rectangle") {
+        if (points.length === 0) {
+          drawPointsRef.current = [point];
+          renderDraft(point);
+          return;
+        }
+        const [x1, y1] = points[0];
+        const [x2, y2] = point;
+        if (x1 === x2 || y1 === y2) return;
+        finish([[x1, y1], [x2, y1], [x2, y2], [x1, y2]]);
+        return;
+      }
+
+      // Ignore the repeated clicks of a double-click
+      const last = points[points.length - 1];
+      if (last) {
+        const lastPixel = mapInstance.project(last);
+        if (
+          Math.abs(lastPixel.x - e.point.x) < 5 &&
+          Math.abs(lastPixel.y - e.point.y) < 5
+        )
+          return;
+      }
+      drawPointsRef.current = [...points, point];
+      renderDraft();
+    };
+
+    const handleMouseMove = (e: MapMouseEvent) => {
+      if (drawPointsRef.current.length === 0) return;
+      renderDraft([e.lngLat.lng, e.lngLat.lat]);
+    };
+
+    const handleDoubleClick = (e: MapMouseEvent) => {
+      if (drawMode !== "polygon") return;
+      e.preventDefault();
+      if (drawPointsRef.current.length >= 3) {
+        finish(drawPointsRef.current);
+      }
+    };
+
+    mapInstance.getCanvas().style.cursor = "crosshair";
+    mapInstance.doubleClickZoom.disable();
+    mapInstance.on("click", handleClick);
+    mapInstance.on("mousemove", handleMouseMove);
+    mapInstance.on("dblclick", handleDoubleClick);
+
+    return () => {
+      mapInstance.off("click", handleClick);
+      mapInstance.off("mousemove", handleMouseMove);
+      mapInstance.off("dblclick", handleDoubleClick);
+      mapInstance.doubleClickZoom.enable();
+      mapInstance.getCanvas().style.cursor = "";
+      drawModeRef.current = null;
+      clearDraft();
+    };
+  }, [drawMode, isMapReady]);
+
+  // Livability heatmap layer
+  useEffect(() => {
+    if (!map.current || !isMapReady) return;
+    const mapInstance = map.current;
+
+    ["heatmap-area", "heatmap-cells-line", "heatmap-cells-fill"].forEach(
+      (layerId) => {
+        if (mapInstance.getLayer(layerId)) mapInstance.removeLayer(layerId);
+      }
+    );
+    ["heatmap-cells", "heatmap-area"].forEach((sourceId) => {
+      if (mapInstance.getSource(sourceId)) mapInstance.removeSource(sourceId);
+    });
+
+    if (!heatmap || heatmap.cells.length === 0) return;
+
+    mapInstance.addSource("heatmap-cells", {
+      type: "geojson",
+      data: {
+        type: "FeatureCollection",
+        features: heatmap.cells.map((cell) => ({
+          type: "Feature",
+          properties: { overall: cell.overall },
+          geometry: { type: "Polygon", coordinates: [cell.coordinates] },
+        })),
+      },
+    });
+    mapInstance.addLayer({
+      id: "heatmap-cells-fill",
+      type: "fill",
+      source: "heatmap-cells",
+      paint: {
+        "fill-color": [
+          "interpolate",
+          ["linear"],
+          ["get", "overall"],
+          ...HEATMAP_COLOR_STOPS.flat(),
+        ],
+        "fill-opacity": 0.45,
+      },
+    });
+    mapInstance.addLayer({
+      id: "heatmap-cells-line",
+      type: "line",
+      source: "heatmap-cells",
+      paint: { "line-color": "#ffffff", "line-width": 0.5, "line-opacity": 0.6 },
+    });
+
+    mapInstance.addSource("heatmap-area", {
+      type: "geojson",
+      data: {
+        type: "Feature",
+        properties: {},
+        geometry: { type: "Polygon", coordinates: [heatmap.area] },
+      },
+    });
+    mapInstance.addLayer({
+      id: "heatmap-area",
+      type: "line",
+      source: "heatmap-area",
+      paint: { "line-color": "#1e293b", "line-width": 2 },
+    });
+  }, [heatmap, isMapReady]);
+
+  // Update comparison pin markers
+  useEffect(() => {
+    if (!map.current || !isMapReady) return;
+
+    pinnedMarkersRef.current.forEach((marker) => marker.remove());
+    pinnedMarkersRef.current = [];
+
+    pinnedLocations?.forEach((pin, index) => {
+      const pinEl = document.createElement("div");
+      pinEl.style.cssText = `
+        background-color: ${pin.color};
+        width: 26px;
+        height: 26px;
+        border-radius: 50%;
+        border: 3px solid white;
+        box-shadow: 0 3px 10px rgba(0,0,0,0.35);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        color: white;
+        font-size: 12px;
+        font-weight: 700;
+        cursor: pointer;
+      `;
+      pinEl.textContent = String(index + 1);
+      pinEl.title = pin.label;
+
+      const marker = new Marker(pinEl)
+        .setLngLat([pin.lng, pin.lat])
+        .addTo(map.current!);
+      pinnedMarkersRef.current.push(marker);
+    });
+  }, [pinnedLocations, isMapReady]);
+
+  // Update site finder markers
+  useEffect(() => {
+    if (!map.current || !isMapReady) return;
+
+    siteMarkersRef.current.forEach((marker) => marker.remove());
+    siteMarkersRef.current = [];
+
+    siteCandidates?.forEach((site) => {
+      const siteEl = document.createElement("div");
+      siteEl.style.cssText = `
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        gap: 2px;
+        pointer-events: none;
+      `;
+      siteEl.innerHTML = `
+        <div style="
+          background-color: #059669;
+          width: 28px;
+          height: 28px;
+          border-radius: 6px;
+          border: 3px solid white;
+          box-shadow: 0 3px 10px rgba(0,0,0,0.35);
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          color: white;
+          font-size: 12px;
+          font-weight: 700;
+        ">${site.rank}</div>
+        <div style="
+          background: white;
+          color: #059669;
+          border-radius: 9999px;
+          padding: 0 6px;
+          font-size: 10px;
+          font-weight: 700;
+          box-shadow: 0 1px 4px rgba(0,0,0,0.25);
+        ">+${site.impact.toFixed(2)}</div>
+      `;
+
+      // Center the numbered square on the site, with the impact label below
+      const marker = new Marker({ element: siteEl, anchor: "top", offset: [0, -14] })
+        .setLngLat([site.lng, site.lat])
+        .addTo(map.current!);
+      siteMarkersRef.current.push(marker);
+    });
+  }, [siteCandidates, isMapReady]);
+
   // Update facility markers with performance optimizations
   useEffect(() => {
     if (!map.current || !isMapReady) return;
@@ -775,6 +846,7 @@ const Map: React.FC<MapProps> = ({
       marker.remove();
     });
     markersRef.current = [];
+    markerElementsRef.current = {};
 
     let visibleCount = 0;
     let hiddenCount = 0;
@@ -796,25 +868,16 @@ const Map: React.FC<MapProps> = ({
       batch.forEach((facility) => {
         visibleCount++;
 
-        const color =
-          categoryColors[facility.category as keyof typeof categoryColors] ||
-          categoryColors.default;
-        let icon =
-          categoryIcons[facility.category as keyof typeof categoryColors] ||
-          categoryIcons.default;
-
-        // Use religion-specific icon for religious facilities
-        if (facility.category === "religious") {
-          icon = getReligiousIcon(facility.name);
-        }
-
-        // Use market-specific icon for market facilities
-        if (facility.category === "market") {
-          icon = getMarketIcon(facility.name, (facility as any).tags);
-        }
+        const color = getCategoryColor(facility.category);
+        const icon = getCategoryIcon(
+          facility.category,
+          facility.name,
+          facility.tags
+        );
 
-        // Check if this is a custom POI
+        // Check if this is a custom POI or a hypothetical facility of a simulation
         const isCustom = facility.tags?.custom === true;
+        const isHypothetical = facility.tags?.hypothetical === true;
 
         // Create marker element with optimized styles for better performance
         const el = document.createElement("div");
@@ -824,7 +887,8 @@ const Map: React.FC<MapProps> = ({
           width: 28px;
           height: 28px;
           border-radius: 50%;
-          border: 2px solid ${isCustom ? "#fbbf24" : "rgba(255,255,255,0.8)"};
+          border: 2px ${isHypothetical ? "dashed #ffffff" : `solid ${isCustom ? "#fbbf24" : "rgba(255,255,255,0.8)"}`};
+          opacity: ${isHypothetical ? 0.85 : 1};
           box-shadow: ${
             isCustom
               ? "0 0 0 2px #fbbf24, 0 4px 12px rgba(251,191,36,0.4)"
@@ -863,6 +927,36 @@ const Map: React.FC<MapProps> = ({
             popupRef.current.remove();
           }
 
+          // Tagged quality attributes, and how much they scaled the contribution
+          const attributes = getFacilityAttributes(facility.tags);
+          const healthcareKey = `healthcare.${attributes.healthcare}`;
+          const attributeRows = [
+            attributes.openingHours && [
+              t("quality.opening_hours"),
+              attributes.openingHours,
+            ],
+            attributes.emergency && [t("quality.emergency"), t("quality.access.yes")],
+            attributes.healthcare && [
+              t("quality.healthcare"),
+              (QUALITY_FACTORS as readonly string[]).includes(healthcareKey)
+                ? t(`quality.${healthcareKey}`)
+                : attributes.healthcare,
+            ],
+            attributes.wheelchair && [
+              t("quality.wheelchair"),
+              t(`quality.access.${attributes.wheelchair}`),
+            ],
+            attributes.beds && [t("quality.beds"), String(attributes.beds)],
+            attributes.capacity && [
+              t("quality.capacity"),
+              String(attributes.capacity),
+            ],
+            facility.quality && [
+              t("quality.multiplier"),
+              `×${Math.round(facility.quality.multiplier * 100) / 100}`,
+            ],
+          ].filter(Boolean) as Array<[string, string]>;
+
           const popup = new Popup({
             closeButton: false,
             closeOnClick: false,
@@ -884,6 +978,8 @@ const Map: React.FC<MapProps> = ({
               }</h3>
               <p class="text-xs text-muted-foreground mb-2 capitalize">${
                 t(facility.category) || facility.category
+              }${isHypothetical ? ` · ${t("simulation.hypothetical")}` : ""}${
+                facility.closed ? ` · ${t("weekly.closed")}` : ""
               }</p>
               <div class="space-y-1 text-xs">
                 <div class="flex justify-between">
@@ -892,12 +988,30 @@ const Map: React.FC<MapProps> = ({
                     facility.distance
                   )}m</span>
                 </div>
+                ${
+                  facility.networkDistance !== undefined
+                    ? `<div class="flex justify-between">
+                  <span class="text-muted-foreground">${t("walking.route")}</span>
+                  <span class="font-medium text-foreground">${Math.round(
+                    facility.networkDistance
+                  )}m</span>
+                </div>`
+                    : ""
+                }
                 <div class="flex justify-between">
                   <span class="text-muted-foreground">${t("score.impact")}</span>
                   <span class="font-medium text-foreground">+${facility.contribution.toFixed(
                     1
                   )}</span>
                 </div>
+                ${attributeRows
+                  .map(
+                    ([label, value]) => `<div class="flex justify-between gap-3">
+                  <span class="text-muted-foreground">${label}</span>
+                  <span class="font-medium text-foreground text-right">${value}</span>
+                </div>`
+                  )
+                  .join("")}
               </div>
             </div>
           `
@@ -926,6 +1040,7 @@ const Map: React.FC<MapProps> = ({
           .addTo(map.current!);
 
         markersRef.current.push(marker);
+        markerElementsRef.current[facility.id] = markerElement;
       });
 
       // Process next batch if there are more facilities
@@ -941,6 +1056,36 @@ const Map: React.FC<MapProps> = ({
     }
   }, [facilities, isMapReady, visibleCategories, t]);
 
+  // Center on the highlighted facility, ring it and open its popup
+  useEffect(() => {
+    highlightMarkerRef.current?.remove();
+    highlightMarkerRef.current = null;
+    if (!map.current || !isMapReady || !highlightedFacilityId) return;
+
+    const facility = facilities.find((f) => f.id === highlightedFacilityId);
+    if (!facility) return;
+
+    const ring = document.createElement("div");
+    ring.style.cssText = `
+      width: 44px;
+      height: 44px;
+      border-radius: 50%;
+      border: 3px solid hsl(var(--primary));
+      box-shadow: 0 0 0 4px hsl(var(--primary) / 0.25);
+      pointer-events: none;
+    `;
+    highlightMarkerRef.current = new Marker({ element: ring, anchor: "center" })
+      .setLngLat([facility.lng, facility.lat])
+      .addTo(map.current);
+
+    map.current.easeTo({
+      center: [facility.lng, facility.lat],
+      zoom: Math.max(map.current.getZoom(), 16),
+      duration: 800,
+    });
+    markerElementsRef.current[facility.id]?.click();
+  }, [highlightedFacilityId, facilities, isMapReady]);
+
   return (
     <div
       className="relative w-full h-full rounded-lg overflow-hidden"
@@ -949,36 +1094,15 @@ const Map: React.FC<MapProps> = ({
       {/* Search Bar Overlay - Mobile Only */}
       <div className="absolute top-4 left-4 z-10 w-80 max-w-[calc(100vw-2rem)] lg:hidden">
         <LocationSearch
-          onLocationSelect={(lng, lat, address) =>
-            onLocationSelect(lng, lat, address)
+          onLocationSelect={(lng, lat, address, countryCode) =>
+            onLocationSelect(lng, lat, address, countryCode)
           }
         />
       </div>
 
       <style>
         {`
-          .facility-health { background-color: #ef4444 !important; }
-          .facility-education { background-color: #3b82f6 !important; }
-          .facility-market { background-color: #a16207 !important; }
-          .facility-transport { background-color: #8b5cf6 !important; }
-          .facility-recreation { background-color: #14b8a6 !important; }
-          .facility-safety { background-color: #10b981 !important; }
-          .facility-accessibility { background-color: #ec4899 !important; }
-          .facility-police { background-color: #6366f1 !important; }
-          .facility-religious { background-color: #d1d5db !important; }
-          .facility-walkability { background-color: #fb923c !important; }
-          
-          /* Glow effects for different facility categories */
-          .facility-health { box-shadow: 0 0 20px rgba(239, 68, 68, 0.3) !important; }
-          .facility-education { box-shadow: 0 0 20px rgba(59, 130, 246, 0.3) !important; }
-          .facility-market { box-shadow: 0 0 20px rgba(161, 98, 7, 0.3) !important; }
-          .facility-transport { box-shadow: 0 0 20px rgba(139, 92, 246, 0.3) !important; }
-          .facility-recreation { box-shadow: 0 0 20px rgba(20, 184, 166, 0.3) !important; }
-          .facility-safety { box-shadow: 0 0 20px rgba(16, 185, 129, 0.3) !important; }
-          .facility-accessibility { box-shadow: 0 0 20px rgba(236, 72, 153, 0.3) !important; }
-          .facility-police { box-shadow: 0 0 20px rgba(99, 102, 241, 0.3) !important; }
-          .facility-religious { box-shadow: 0 0 20px rgba(209, 213, 219, 0.3) !important; }
-          .facility-walkability { box-shadow: 0 0 20px rgba(251, 146, 60, 0.3) !important; }
+${FACILITY_CLASS_STYLES}
           
           /* Radius circle styling */
           .maplibregl-canvas-container {
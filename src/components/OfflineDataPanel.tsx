@@ -0,0 +1,147 @@
+import React, { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { HardDrive, Loader2, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { ExtractInfo, osmExtractService } from "@/services/osmExtractService";
+import { importOfflineExtract } from "@/services/livabilityService";
+import { useLanguage } from "./LanguageProvider";
+
+interface OfflineDataPanelProps {
+  offlineMode: boolean;
+  onOfflineModeChange: (enabled: boolean) => void;
+  disabled?: boolean;
+}
+
+const OfflineDataPanel: React.FC<OfflineDataPanelProps> = ({
+  offlineMode,
+  onOfflineModeChange,
+  disabled,
+}) => {
+  const { t, language } = useLanguage();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [extract, setExtract] = useState<ExtractInfo | null>(() =>
+    osmExtractService.getExtractInfo()
+  );
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const formatDate = (time: number) =>
+    new Date(time).toLocaleDateString(language === "id" ? "id-ID" : "en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+
+  const handleFile = async (file: File) => {
+    setProgress(t("offline.import.reading", { count: 0 }));
+    try {
+      const info = await importOfflineExtract(file, ({ stage, count }) =>
+        setProgress(t(`offline.import.${stage}`, { count }))
+      );
+      setExtract(info);
+      toast.success(t("offline.import.success"), {
+        description: t("offline.extract.elements", { count: info.elementCount }),
+      });
+    } catch (error) {
+      console.error("Error importing offline extract:", error);
+      toast.error(t("offline.import.failed"), {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setProgress(null);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(t("confirm.delete.extract"))) return;
+    await osmExtractService.deleteExtract();
+    setExtract(null);
+    onOfflineModeChange(false);
+  };
+
+  return (
+    <div className="space-y-3 p-3 rounded-xl border border-[hsl(var(--control-border))] bg-card/50">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex-1 min-w-0">
+          <p className="text-xs font-semibold text-[hsl(var(--control-primary))] flex items-center gap-1.5">
+            <HardDrive className="w-3.5 h-3.5" />
+            {t("offline.mode")}
+          </p>
+          <p className="text-xs text-[hsl(var(--control-primary))]/70">
+            {t("offline.mode.description")}
+          </p>
+        </div>
+        <Switch
+          checked={offlineMode}
+          onCheckedChange={onOfflineModeChange}
+          disabled={disabled || !extract}
+          className="facility-switch"
+        />
+      </div>
+
+      {extract ? (
+        <div className="flex items-start gap-2 p-2 rounded-lg bg-muted/20">
+          <div className="flex-1 min-w-0 text-xs">
+            <p className="font-medium truncate" title={extract.name}>
+              {extract.name}
+            </p>
+            <p className="text-muted-foreground">
+              {extract.extractDate
+                ? t("offline.extract.date", {
+                    date: formatDate(extract.extractDate),
+                  })
+                : t("offline.extract.date.unknown")}
+            </p>
+            <p className="text-muted-foreground">
+              {t("offline.extract.elements", { count: extract.elementCount })}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+            onClick={handleDelete}
+            disabled={!!progress}
+          >
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">{t("offline.extract.none")}</p>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".pbf,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+        }}
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full text-xs"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={!!progress}
+      >
+        {progress ? (
+          <>
+            <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+            {progress}
+          </>
+        ) : (
+          <>
+            <Upload className="w-3 h-3 mr-1" />
+            {t("offline.import")}
+          </>
+        )}
+      </Button>
+    </div>
+  );
+};
+
+export default OfflineDataPanel;
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Activity, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  OverpassEndpoint,
+  overpassEndpointService,
+} from "@/services/overpassEndpointService";
+import { useLanguage } from "./LanguageProvider";
+
+interface OverpassEndpointDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const OverpassEndpointDialog: React.FC<OverpassEndpointDialogProps> = ({
+  open,
+  onOpenChange,
+}) => {
+  const { t } = useLanguage();
+  const [endpoints, setEndpoints] = useState<OverpassEndpoint[]>([]);
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [isChecking, setIsChecking] = useState(false);
+
+  const reload = () => setEndpoints([...overpassEndpointService.getEndpoints()]);
+
+  useEffect(() => {
+    if (open) reload();
+  }, [open]);
+
+  const handleAdd = () => {
+    try {
+      overpassEndpointService.addEndpoint(name, url);
+    } catch {
+      toast.error(t("endpoint.invalid.url"));
+      return;
+    }
+    setName("");
+    setUrl("");
+    reload();
+    toast.success(t("endpoint.added"));
+  };
+
+  const handleCheckStatus = async () => {
+    setIsChecking(true);
+    await Promise.all(
+      endpoints
+        .filter((e) => e.enabled)
+        .map((e) => overpassEndpointService.checkStatus(e))
+    );
+    setIsChecking(false);
+    reload();
+  };
+
+  const handleReset = () => {
+    overpassEndpointService.resetEndpoints();
+    reload();
+  };
+
+  const renderHealth = (endpoint: OverpassEndpoint) => {
+    const health = overpassEndpointService.getHealth(endpoint.id);
+    const coolingDown = (health.cooldownUntil || 0) > Date.now();
+    return (
+      <div className="flex flex-wrap items-center gap-1.5 text-[11px] text-muted-foreground">
+        {coolingDown ? (
+          <Badge variant="outline" className="border-amber-500 text-amber-600 text-[10px]">
+            {t("endpoint.cooling.down")}
+          </Badge>
+        ) : health.consecutiveFailures === 0 && health.successes > 0 ? (
+          <Badge className="bg-emerald-600/80 text-white text-[10px]">
+            {t("endpoint.healthy")}
+          </Badge>
+        ) : null}
+        {health.latency !== undefined && <span>{health.latency} ms</span>}
+        <span>
+          {health.successes}✓ {health.failures}✗
+        </span>
+        {health.status && (
+          <span>
+            {health.status.rateLimit > 0
+              ? t("endpoint.slots", {
+                  available: health.status.slotsAvailable,
+                  total: health.status.rateLimit,
+                })
+              : t("endpoint.no.rate.limit")}
+          </span>
+        )}
+        {health.lastError && (
+          <span className="text-destructive truncate max-w-[220px]" title={health.lastError}>
+            {health.lastError}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("overpass.endpoints")}</DialogTitle>
+          <DialogDescription>{t("overpass.endpoints.description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {endpoints.map((endpoint) => (
+            <div
+              key={endpoint.id}
+              className="flex items-start gap-3 p-3 rounded-lg border border-border bg-muted/20"
+            >
+              <Switch
+                checked={endpoint.enabled}
+                onCheckedChange={(checked) => {
+                  overpassEndpointService.setEnabled(endpoint.id, checked);
+                  reload();
+                }}
+                className="mt-0.5"
+              />
+              <div className="min-w-0 flex-1 space-y-1">
+                <p className="text-sm font-medium">{endpoint.name}</p>
+                <p className="text-xs text-muted-foreground font-mono break-all">
+                  {endpoint.url}
+                </p>
+                {renderHealth(endpoint)}
+              </div>
+              {!endpoint.builtIn && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+                  onClick={() => {
+                    overpassEndpointService.removeEndpoint(endpoint.id);
+                    reload();
+                  }}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2 pt-2 border-t border-border">
+          <Label className="text-xs">{t("add.endpoint")}</Label>
+          <div className="grid grid-cols-[1fr_2fr] gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t("endpoint.name")}
+              className="h-8 text-xs"
+            />
+            <Input
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://overpass.example.org/api/interpreter"
+              className="h-8 text-xs font-mono"
+            />
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            className="w-full text-xs"
+            onClick={handleAdd}
+            disabled={!url.trim()}
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            {t("add.endpoint")}
+          </Button>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" size="sm" onClick={handleReset}>
+            <RotateCcw className="w-3 h-3 mr-1" />
+            {t("reset")}
+          </Button>
+          <Button size="sm" onClick={handleCheckStatus} disabled={isChecking}>
+            <Activity className="w-3 h-3 mr-1" />
+            {t("check.status")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OverpassEndpointDialog;
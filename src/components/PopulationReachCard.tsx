@@ -0,0 +1,182 @@
+import React, { useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2, Trash2, Upload, Users } from "lucide-react";
+import { toast } from "sonner";
+import {
+  PopulationLayerInfo,
+  PopulationReach,
+  populationService,
+} from "@/services/populationService";
+import { useLanguage } from "./LanguageProvider";
+
+export interface PopulationReachCardProps {
+  layer: PopulationLayerInfo | null;
+  reach: PopulationReach | null; // Null while loading or outside the layer
+  onLayerChange: (layer: PopulationLayerInfo | null) => void;
+}
+
+const PopulationReachCard: React.FC<PopulationReachCardProps> = ({
+  layer,
+  reach,
+  onLayerChange,
+}) => {
+  const { t, language } = useLanguage();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const formatNumber = (value: number) =>
+    value.toLocaleString(language === "id" ? "id-ID" : "en-US");
+
+  const handleFile = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const info = await populationService.importLayer(file);
+      onLayerChange(info);
+      toast.success(t("population.import.success"), {
+        description: t("population.layer.summary", {
+          count: formatNumber(info.featureCount),
+          population: formatNumber(info.totalPopulation),
+        }),
+      });
+    } catch (error) {
+      console.error("Error importing population layer:", error);
+      toast.error(t("population.import.failed"), {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(t("confirm.delete.population"))) return;
+    await populationService.deleteLayer();
+    onLayerChange(null);
+  };
+
+  const maxResidents = reach
+    ? Math.max(1, ...reach.bands.map((band) => band.residents))
+    : 1;
+
+  return (
+    <Card className="bg-card border-border shadow-sm">
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-2">
+          <div className="w-2 h-2 bg-primary rounded-full"></div>
+          <CardTitle className="text-sm md:text-base font-semibold flex items-center gap-2">
+            <Users className="w-4 h-4 text-primary" />
+            {t("population.reach")}
+          </CardTitle>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {t("population.reach.description")}
+        </p>
+      </CardHeader>
+      <CardContent className="pt-0 pb-4 space-y-3">
+        {layer && reach && (
+          <div className="space-y-2">
+            <div className="flex items-baseline justify-between gap-2">
+              <span className="text-2xl font-bold text-primary">
+                {formatNumber(reach.residents)}
+              </span>
+              <span className="text-xs text-muted-foreground text-right">
+                {t("population.reach.headline", { minutes: reach.minutes })}
+              </span>
+            </div>
+            {reach.bands.map((band) => (
+              <div key={band.minutes} className="space-y-0.5">
+                <div className="flex justify-between text-xs">
+                  <span
+                    className={
+                      band.minutes === reach.minutes ? "font-semibold" : ""
+                    }
+                  >
+                    {t("population.reach.band", { minutes: band.minutes })}
+                  </span>
+                  <span className="font-medium">
+                    {formatNumber(band.residents)}
+                  </span>
+                </div>
+                <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full bg-primary rounded-full"
+                    style={{ width: `${(band.residents / maxResidents) * 100}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+            <p className="text-[11px] text-muted-foreground">
+              {reach.method === "isochrone"
+                ? t("population.reach.isochrone")
+                : t("population.reach.radius")}
+            </p>
+          </div>
+        )}
+
+        {layer && !reach && (
+          <p className="text-xs text-muted-foreground">
+            {t("population.reach.outside")}
+          </p>
+        )}
+
+        {layer ? (
+          <div className="flex items-start gap-2 p-2 rounded-lg bg-muted/20">
+            <div className="flex-1 min-w-0 text-xs">
+              <p className="font-medium truncate" title={layer.name}>
+                {layer.name}
+              </p>
+              <p className="text-muted-foreground">
+                {t("population.layer.summary", {
+                  count: formatNumber(layer.featureCount),
+                  population: formatNumber(layer.totalPopulation),
+                })}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+              onClick={handleDelete}
+              disabled={isImporting}
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            {t("population.layer.none")}
+          </p>
+        )}
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".geojson,.json,.csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+          }}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full text-xs"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+        >
+          {isImporting ? (
+            <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+          ) : (
+            <Upload className="w-3 h-3 mr-1" />
+          )}
+          {layer ? t("population.replace") : t("population.import")}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PopulationReachCard;
@@ -0,0 +1,147 @@
+import React, { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertTriangle } from "lucide-react";
+import type {
+  ExplanationLine,
+  Facility,
+  ScoreExplanation,
+  SubscoreKey,
+} from "@/services/livabilityService";
+import { useLanguage } from "./LanguageProvider";
+
+export interface ScoreExplanationPanelProps {
+  explanation: ScoreExplanation;
+  highlightedFacilityId?: string | null;
+  onFacilityClick?: (facility: Facility) => void; // Highlight the facility on the map
+}
+
+const SUBSCORE_KEYS: SubscoreKey[] = [
+  "services",
+  "mobility",
+  "safety",
+  "environment",
+];
+
+const formatNumber = (value: number) =>
+  value >= 10 ? value.toFixed(1) : value.toFixed(2);
+
+const formatMultiplier = (value: number) => String(Math.round(value * 100) / 100);
+
+const ScoreExplanationPanel: React.FC<ScoreExplanationPanelProps> = ({
+  explanation,
+  highlightedFacilityId,
+  onFacilityClick,
+}) => {
+  const { t } = useLanguage();
+  const [subscore, setSubscore] = useState<SubscoreKey>("services");
+
+  const renderLine = (line: ExplanationLine, index: number) => {
+    const { facility } = line;
+    const isHighlighted = facility.id === highlightedFacilityId;
+    return (
+      <button
+        key={`${facility.id}-${line.category}-${index}`}
+        type="button"
+        onClick={() => onFacilityClick?.(facility)}
+        className={`w-full text-left p-2 rounded-lg transition-colors ${
+          isHighlighted ? "bg-primary/15 ring-1 ring-primary" : "bg-muted/20 hover:bg-muted/40"
+        }`}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-medium truncate" title={facility.name}>
+            {facility.name}
+          </span>
+          <span className="text-xs font-bold shrink-0">
+            +{formatNumber(line.points)}
+          </span>
+        </div>
+        <div className="flex items-center gap-1.5 flex-wrap mt-1 text-[11px] text-muted-foreground">
+          <span>{t(line.category)}</span>
+          <span>·</span>
+          <span className="font-mono">
+            {formatNumber(facility.contribution)}
+            {line.factor !== 1 && ` × ${line.factor}`} × {line.weight}
+          </span>
+          {line.adjustment && (
+            <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+              {t(`explain.adjustment.${line.adjustment}`, {
+                factor: line.factor,
+              })}
+            </Badge>
+          )}
+          {line.quality !== 1 && (
+            <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+              {t("quality.badge", { factor: formatMultiplier(line.quality) })}
+            </Badge>
+          )}
+        </div>
+        {facility.quality && (
+          <p className="mt-0.5 text-[10px] text-muted-foreground">
+            {facility.quality.hits
+              .map(
+                (hit) =>
+                  `${t(`quality.${hit.factor}`)} ×${formatMultiplier(hit.multiplier)}`
+              )
+              .join(" · ")}
+          </p>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <Tabs
+      value={subscore}
+      onValueChange={(value) => setSubscore(value as SubscoreKey)}
+    >
+      <TabsList className="grid grid-cols-4 w-full h-8">
+        {SUBSCORE_KEYS.map((key) => (
+          <TabsTrigger key={key} value={key} className="text-[11px] px-1">
+            {t(key)}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+      {SUBSCORE_KEYS.map((key) => {
+        const item = explanation[key];
+        return (
+          <TabsContent key={key} value={key} className="space-y-2">
+            <div className="flex items-center justify-between text-xs p-2 rounded-lg bg-muted/40">
+              <span className="text-muted-foreground">
+                {t("explain.total", { count: item.lines.length })}
+              </span>
+              <span className="font-mono font-semibold">
+                {formatNumber(item.raw)} → {item.score}
+              </span>
+            </div>
+            {item.clipped && (
+              <div className="flex items-start gap-2 text-xs p-2 rounded-lg bg-yellow-500/10 text-yellow-700 dark:text-yellow-400">
+                <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                <span>
+                  {t("explain.clipped", {
+                    raw: formatNumber(item.raw),
+                    lost: formatNumber(item.raw - 100),
+                  })}
+                </span>
+              </div>
+            )}
+            <p className="text-[11px] text-muted-foreground">
+              {t("explain.formula")}
+            </p>
+            <div className="max-h-72 overflow-y-auto space-y-1 pr-1">
+              {item.lines.length === 0 ? (
+                <p className="text-xs text-muted-foreground text-center py-4">
+                  {t("explain.empty")}
+                </p>
+              ) : (
+                item.lines.map(renderLine)
+              )}
+            </div>
+          </TabsContent>
+        );
+      })}
+    </Tabs>
+  );
+};
+
+export default ScoreExplanationPanel;
@@ -0,0 +1,241 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  BellOff,
+  BellRing,
+  History,
+  Loader2,
+  Minus,
+  Plus,
+  RefreshCw,
+} from "lucide-react";
+import type { JournalEntry } from "@/services/journalService";
+import { diffFacilities } from "@/services/trackingService";
+import type { SubscoreKey } from "@/services/livabilityService";
+import { useLanguage } from "./LanguageProvider";
+
+export interface ScoreTrendProps {
+  isTracked: boolean;
+  history: JournalEntry[]; // Runs of the tracked location, oldest first
+  isRefreshing: boolean;
+  onToggleTracking: () => void;
+  onRefresh: () => void;
+}
+
+const SUBSCORE_KEYS: SubscoreKey[] = [
+  "services",
+  "mobility",
+  "safety",
+  "environment",
+];
+
+// Facilities listed per side of the diff before collapsing into "+N more"
+const MAX_LISTED_CHANGES = 5;
+
+const ScoreTrend: React.FC<ScoreTrendProps> = ({
+  isTracked,
+  history,
+  isRefreshing,
+  onToggleTracking,
+  onRefresh,
+}) => {
+  const { t, language } = useLanguage();
+
+  const chartConfig: ChartConfig = {
+    overall: { label: t("trend.overall"), color: "hsl(var(--primary))" },
+    services: { label: t("services"), color: "#3b82f6" },
+    mobility: { label: t("mobility"), color: "#22c55e" },
+    safety: { label: t("safety"), color: "#ef4444" },
+    environment: { label: t("environment"), color: "#a855f7" },
+  };
+
+  const formatDate = (time: number) =>
+    new Date(time).toLocaleDateString(language === "id" ? "id-ID" : "en-US", {
+      month: "short",
+      day: "numeric",
+    });
+
+  const chartData = history.map((entry) => ({
+    date: formatDate(entry.createdAt),
+    overall: Math.round(entry.data.overall),
+    ...Object.fromEntries(
+      SUBSCORE_KEYS.map((key) => [key, Math.round(entry.data.subscores[key])])
+    ),
+  }));
+
+  const latest = history[history.length - 1];
+  const previous = history[history.length - 2];
+  const changes =
+    latest && previous
+      ? diffFacilities(previous.facilities, latest.facilities)
+      : null;
+  const scoreChange =
+    latest && previous
+      ? Math.round(latest.data.overall) - Math.round(previous.data.overall)
+      : 0;
+
+  const renderChanges = (
+    facilities: JournalEntry["facilities"],
+    added: boolean
+  ) => {
+    if (facilities.length === 0) return null;
+    const Icon = added ? Plus : Minus;
+    return (
+      <div className="space-y-1">
+        <p
+          className={`text-xs font-medium ${
+            added ? "text-green-600" : "text-destructive"
+          }`}
+        >
+          {t(added ? "trend.added" : "trend.removed", {
+            count: facilities.length,
+          })}
+        </p>
+        {facilities.slice(0, MAX_LISTED_CHANGES).map((facility) => (
+          <div
+            key={facility.id}
+            className="flex items-center gap-1.5 text-xs text-muted-foreground"
+          >
+            <Icon
+              className={`w-3 h-3 shrink-0 ${
+                added ? "text-green-600" : "text-destructive"
+              }`}
+            />
+            <span className="truncate flex-1">{facility.name}</span>
+            <span className="shrink-0">{t(facility.category)}</span>
+          </div>
+        ))}
+        {facilities.length > MAX_LISTED_CHANGES && (
+          <p className="text-xs text-muted-foreground pl-4">
+            {t("trend.more", { count: facilities.length - MAX_LISTED_CHANGES })}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="bg-card border-border shadow-sm">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <div className="w-2 h-2 bg-primary rounded-full"></div>
+            <CardTitle className="text-sm md:text-base font-semibold flex items-center gap-2">
+              <History className="w-4 h-4 text-primary" />
+              {t("trend.title")}
+            </CardTitle>
+          </div>
+          <Button
+            variant={isTracked ? "ghost" : "outline"}
+            size="sm"
+            className="h-7 text-xs px-2"
+            onClick={onToggleTracking}
+          >
+            {isTracked ? (
+              <BellOff className="w-3 h-3 mr-1" />
+            ) : (
+              <BellRing className="w-3 h-3 mr-1" />
+            )}
+            {isTracked ? t("trend.untrack") : t("trend.track")}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 pb-4 space-y-3">
+        {!isTracked ? (
+          <p className="text-xs text-muted-foreground">
+            {t("trend.description")}
+          </p>
+        ) : (
+          <>
+            {history.length < 2 ? (
+              <p className="text-xs text-muted-foreground">
+                {t("trend.not.enough")}
+              </p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-muted-foreground">
+                    {t("trend.since", { date: formatDate(previous.createdAt) })}
+                  </span>
+                  <span
+                    className={`font-semibold ${
+                      scoreChange > 0
+                        ? "text-green-600"
+                        : scoreChange < 0
+                        ? "text-destructive"
+                        : "text-muted-foreground"
+                    }`}
+                  >
+                    {scoreChange > 0 ? `+${scoreChange}` : scoreChange}
+                  </span>
+                </div>
+                <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+                  <LineChart data={chartData} margin={{ left: -20, right: 8 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} fontSize={10} />
+                    <YAxis domain={[0, 100]} tickLine={false} axisLine={false} fontSize={10} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line
+                      dataKey="overall"
+                      stroke="var(--color-overall)"
+                      strokeWidth={2.5}
+                      dot={false}
+                    />
+                    {SUBSCORE_KEYS.map((key) => (
+                      <Line
+                        key={key}
+                        dataKey={key}
+                        stroke={`var(--color-${key})`}
+                        strokeWidth={1.5}
+                        strokeDasharray="4 2"
+                        dot={false}
+                      />
+                    ))}
+                    <ChartLegend content={<ChartLegendContent />} />
+                  </LineChart>
+                </ChartContainer>
+                {changes &&
+                  (changes.added.length > 0 || changes.removed.length > 0 ? (
+                    <div className="space-y-2">
+                      {renderChanges(changes.added, true)}
+                      {renderChanges(changes.removed, false)}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      {t("trend.no.changes")}
+                    </p>
+                  ))}
+              </>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full text-xs"
+              onClick={onRefresh}
+              disabled={isRefreshing}
+            >
+              {isRefreshing ? (
+                <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+              ) : (
+                <RefreshCw className="w-3 h-3 mr-1" />
+              )}
+              {t("trend.refresh")}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScoreTrend;
@@ -0,0 +1,309 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import {
+  DEFAULT_CATEGORY_WEIGHTS,
+  ScoringProfile,
+  resolveDecayConfig,
+  resolveQualityMultipliers,
+  scoringProfileService,
+} from "@/services/scoringProfileService";
+import { CATEGORY_KEYS } from "@/services/categoryTaxonomy";
+import type { QualityFactor } from "@/services/facilityQuality";
+import type { FacilityCategory, SubscoreKey } from "@/services/livabilityService";
+import { useLanguage } from "./LanguageProvider";
+
+interface ScoringProfileEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  baseProfile: ScoringProfile; // Profile being edited, or copied when built-in
+  asCopy?: boolean; // Save as a new profile even if baseProfile is custom
+  onSaved: (profile: ScoringProfile) => void;
+}
+
+const SUBSCORE_KEYS: SubscoreKey[] = [
+  "services",
+  "mobility",
+  "safety",
+  "environment",
+];
+
+const ScoringProfileEditor: React.FC<ScoringProfileEditorProps> = ({
+  open,
+  onOpenChange,
+  baseProfile,
+  asCopy = false,
+  onSaved,
+}) => {
+  const { t } = useLanguage();
+  const [draft, setDraft] = useState<ScoringProfile>(baseProfile);
+  const isCopy = asCopy || baseProfile.builtIn;
+
+  // Reset the draft every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setDraft({
+      ...baseProfile,
+      name: isCopy
+        ? `${baseProfile.name} (${t("copy")})`
+        : baseProfile.name,
+      decayConfig: Object.fromEntries(
+        CATEGORY_KEYS.map((category) => [
+          category,
+          resolveDecayConfig(category, baseProfile),
+        ])
+      ),
+      qualityMultipliers: Object.fromEntries(
+        CATEGORY_KEYS.map((category) => [
+          category,
+          resolveQualityMultipliers(category, baseProfile),
+        ])
+      ),
+    });
+  }, [open, baseProfile, isCopy, t]);
+
+  const setMix = (key: SubscoreKey, value: number) =>
+    setDraft((prev) => ({
+      ...prev,
+      subscoreMix: { ...prev.subscoreMix, [key]: value },
+    }));
+
+  const setWeight = (
+    subscore: SubscoreKey,
+    category: FacilityCategory,
+    value: number
+  ) =>
+    setDraft((prev) => ({
+      ...prev,
+      categoryWeights: {
+        ...prev.categoryWeights,
+        [subscore]: { ...prev.categoryWeights[subscore], [category]: value },
+      },
+    }));
+
+  const setDecay = (
+    category: FacilityCategory,
+    field: "maxContribution" | "decayRate",
+    value: number
+  ) =>
+    setDraft((prev) => ({
+      ...prev,
+      decayConfig: {
+        ...prev.decayConfig,
+        [category]: { ...prev.decayConfig[category], [field]: value },
+      },
+    }));
+
+  const setQuality = (
+    category: FacilityCategory,
+    factor: QualityFactor,
+    value: number
+  ) =>
+    setDraft((prev) => ({
+      ...prev,
+      qualityMultipliers: {
+        ...prev.qualityMultipliers,
+        [category]: { ...prev.qualityMultipliers?.[category], [factor]: value },
+      },
+    }));
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      toast.error(t("enter.name"));
+      return;
+    }
+    const saved = scoringProfileService.saveProfile({
+      ...draft,
+      id: isCopy ? undefined : baseProfile.id,
+      name: draft.name.trim(),
+    });
+    toast.success(t("profile.saved"));
+    onSaved(saved);
+    onOpenChange(false);
+  };
+
+  const numberValue = (value: string) => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? 0 : parsed;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("edit.scoring.profile")}</DialogTitle>
+          <DialogDescription>{t("edit.scoring.profile.desc")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="profile-name">{t("name")} *</Label>
+            <Input
+              id="profile-name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+          </div>
+
+          {/* Subscore mix */}
+          <div className="grid gap-2">
+            <Label>{t("subscore.mix")}</Label>
+            <div className="grid grid-cols-4 gap-2">
+              {SUBSCORE_KEYS.map((key) => (
+                <div key={key} className="grid gap-1">
+                  <span className="text-xs text-muted-foreground capitalize">
+                    {t(key)}
+                  </span>
+                  <Input
+                    type="number"
+                    step="0.05"
+                    min="0"
+                    value={draft.subscoreMix[key]}
+                    onChange={(e) => setMix(key, numberValue(e.target.value))}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Category weights per subscore */}
+          <div className="grid gap-2">
+            <Label>{t("category.weights")}</Label>
+            {SUBSCORE_KEYS.map((subscore) => (
+              <div key={subscore} className="grid gap-1">
+                <span className="text-xs font-medium capitalize">
+                  {t(subscore)}
+                </span>
+                <div className="grid grid-cols-4 gap-2">
+                  {(
+                    Object.keys(
+                      DEFAULT_CATEGORY_WEIGHTS[subscore]
+                    ) as FacilityCategory[]
+                  ).map((category) => (
+                    <div key={category} className="grid gap-1">
+                      <span className="text-xs text-muted-foreground capitalize">
+                        {t(category)}
+                      </span>
+                      <Input
+                        type="number"
+                        step="0.1"
+                        min="0"
+                        value={draft.categoryWeights[subscore]?.[category] ?? 0}
+                        onChange={(e) =>
+                          setWeight(
+                            subscore,
+                            category,
+                            numberValue(e.target.value)
+                          )
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Distance decay per category */}
+          <div className="grid gap-2">
+            <Label>{t("distance.decay")}</Label>
+            <div className="grid grid-cols-3 gap-2 text-xs text-muted-foreground">
+              <span>{t("category")}</span>
+              <span>{t("max.contribution")}</span>
+              <span>{t("decay.rate")}</span>
+            </div>
+            {CATEGORY_KEYS.map((category) => (
+              <div key={category} className="grid grid-cols-3 gap-2 items-center">
+                <span className="text-xs capitalize">{t(category)}</span>
+                <Input
+                  type="number"
+                  step="1"
+                  min="0"
+                  value={draft.decayConfig[category]?.maxContribution ?? 0}
+                  onChange={(e) =>
+                    setDecay(
+                      category,
+                      "maxContribution",
+                      numberValue(e.target.value)
+                    )
+                  }
+                />
+                <Input
+                  type="number"
+                  step="0.05"
+                  min="0"
+                  value={draft.decayConfig[category]?.decayRate ?? 0}
+                  onChange={(e) =>
+                    setDecay(category, "decayRate", numberValue(e.target.value))
+                  }
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Quality attribute multipliers per category */}
+          <div className="grid gap-2">
+            <Label>{t("quality.multipliers")}</Label>
+            <p className="text-xs text-muted-foreground">
+              {t("quality.multipliers.desc")}
+            </p>
+            {CATEGORY_KEYS.map((category) => {
+              const factors = Object.keys(
+                draft.qualityMultipliers?.[category] || {}
+              ) as QualityFactor[];
+              if (factors.length === 0) return null;
+              return (
+                <div key={category} className="grid gap-1">
+                  <span className="text-xs font-medium capitalize">
+                    {t(category)}
+                  </span>
+                  <div className="grid grid-cols-3 gap-2">
+                    {factors.map((factor) => (
+                      <div key={factor} className="grid gap-1">
+                        <span className="text-xs text-muted-foreground truncate">
+                          {t(`quality.${factor}`)}
+                        </span>
+                        <Input
+                          type="number"
+                          step="0.05"
+                          min="0"
+                          value={draft.qualityMultipliers?.[category]?.[factor] ?? 1}
+                          onChange={(e) =>
+                            setQuality(
+                              category,
+                              factor,
+                              numberValue(e.target.value)
+                            )
+                          }
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("cancel")}
+          </Button>
+          <Button onClick={handleSave}>{t("save.profile")}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScoringProfileEditor;
@@ -0,0 +1,372 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Download,
+  FlaskConical,
+  FolderOpen,
+  Save,
+  Trash2,
+  Upload,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  HypotheticalFacility,
+  Scenario,
+  SimulationResult,
+  scenarioService,
+} from "@/services/scenarioService";
+import {
+  FACILITY_DISTANCES,
+  FacilityCategory,
+  SubscoreKey,
+  calculateDistance,
+} from "@/services/livabilityService";
+import { useLanguage } from "./LanguageProvider";
+
+interface SimulationPanelProps {
+  location: { lat: number; lng: number; address: string };
+  isActive: boolean;
+  onActiveChange: (active: boolean) => void;
+  category: FacilityCategory; // Category of the next facility placed on the map
+  onCategoryChange: (category: FacilityCategory) => void;
+  hypotheticals: HypotheticalFacility[];
+  onHypotheticalsChange: (hypotheticals: HypotheticalFacility[]) => void;
+  result: SimulationResult | null;
+  className?: string;
+}
+
+const CATEGORIES = Object.keys(FACILITY_DISTANCES) as FacilityCategory[];
+
+const DELTA_ROWS: Array<SubscoreKey | "overall"> = [
+  "overall",
+  "services",
+  "mobility",
+  "safety",
+  "environment",
+];
+
+const SimulationPanel: React.FC<SimulationPanelProps> = ({
+  location,
+  isActive,
+  onActiveChange,
+  category,
+  onCategoryChange,
+  hypotheticals,
+  onHypotheticalsChange,
+  result,
+  className,
+}) => {
+  const { t } = useLanguage();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [scenarioName, setScenarioName] = useState("");
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+
+  useEffect(() => {
+    setScenarios(scenarioService.getScenariosAt(location.lat, location.lng));
+  }, [location.lat, location.lng]);
+
+  const reloadScenarios = () =>
+    setScenarios(scenarioService.getScenariosAt(location.lat, location.lng));
+
+  const handleSave = () => {
+    const name = scenarioName.trim() || t("simulation.untitled");
+    scenarioService.saveScenario({
+      name,
+      address: location.address,
+      lat: location.lat,
+      lng: location.lng,
+      facilities: hypotheticals,
+    });
+    reloadScenarios();
+    toast.success(t("simulation.saved", { name }));
+  };
+
+  const handleLoad = (scenario: Scenario) => {
+    setScenarioName(scenario.name);
+    onHypotheticalsChange(scenario.facilities);
+    onActiveChange(true);
+  };
+
+  const handleDelete = (id: string) => {
+    scenarioService.deleteScenario(id);
+    reloadScenarios();
+  };
+
+  const handleExport = (scenario: Scenario) => {
+    // Include the current scores when exporting the scenario on screen
+    const isCurrent =
+      scenario.name === scenarioName.trim() &&
+      JSON.stringify(scenario.facilities) === JSON.stringify(hypotheticals);
+    const blob = new Blob(
+      [scenarioService.exportScenario(scenario, isCurrent ? result : undefined)],
+      { type: "application/json" }
+    );
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `futuricity-scenario-${scenario.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const scenario = scenarioService.importScenario(await file.text());
+      reloadScenarios();
+      const sameSpot =
+        calculateDistance(location.lat, location.lng, scenario.lat, scenario.lng) <
+        50;
+      if (sameSpot) {
+        handleLoad(scenario);
+        toast.success(t("simulation.imported", { name: scenario.name }));
+      } else {
+        toast.success(t("simulation.imported", { name: scenario.name }), {
+          description: t("simulation.imported.elsewhere", {
+            address: scenario.address,
+          }),
+        });
+      }
+    } catch (error) {
+      toast.error(t("simulation.import.failed"), {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const formatDelta = (value: number) => {
+    const rounded = Math.round(value * 10) / 10;
+    return rounded > 0 ? `+${rounded}` : `${rounded}`;
+  };
+
+  return (
+    <Card className={`bg-card border-border shadow-sm ${className || ""}`}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <div className="w-2 h-2 bg-primary rounded-full"></div>
+            <CardTitle className="text-sm md:text-base font-semibold flex items-center gap-2">
+              <FlaskConical className="w-4 h-4 text-primary" />
+              {t("simulation.title")}
+            </CardTitle>
+          </div>
+          <Button
+            variant={isActive ? "default" : "outline"}
+            size="sm"
+            className="h-7 text-xs px-2"
+            onClick={() => onActiveChange(!isActive)}
+          >
+            {isActive ? t("simulation.stop") : t("simulation.start")}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {t("simulation.description")}
+        </p>
+      </CardHeader>
+      <CardContent className="pt-0 pb-4 space-y-3">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+          }}
+        />
+
+        {isActive && (
+          <>
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">
+                {t("simulation.place")}
+              </p>
+              <Select
+                value={category}
+                onValueChange={(value) =>
+                  onCategoryChange(value as FacilityCategory)
+                }
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CATEGORIES.map((c) => (
+                    <SelectItem key={c} value={c} className="text-xs">
+                      {t(c)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {hypotheticals.length > 0 && (
+              <div className="space-y-1 max-h-32 overflow-y-auto pr-1">
+                {hypotheticals.map((h) => (
+                  <div
+                    key={h.id}
+                    className="flex items-center gap-2 text-xs p-1.5 rounded bg-muted/20"
+                  >
+                    <span className="flex-1 truncate">{h.name}</span>
+                    <span className="text-muted-foreground shrink-0">
+                      {Math.round(
+                        calculateDistance(location.lat, location.lng, h.lat, h.lng)
+                      )}
+                      m
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-5 w-5 p-0"
+                      onClick={() =>
+                        onHypotheticalsChange(
+                          hypotheticals.filter((other) => other.id !== h.id)
+                        )
+                      }
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {result && hypotheticals.length > 0 && (
+              <div className="rounded-lg border border-border overflow-hidden">
+                {DELTA_ROWS.map((key) => {
+                  const before =
+                    key === "overall"
+                      ? result.before.overall
+                      : result.before.subscores[key];
+                  const after =
+                    key === "overall"
+                      ? result.after.overall
+                      : result.after.subscores[key];
+                  const delta = result.delta[key];
+                  return (
+                    <div
+                      key={key}
+                      className={`flex items-center justify-between px-2 py-1.5 text-xs ${
+                        key === "overall" ? "bg-muted/40 font-semibold" : ""
+                      }`}
+                    >
+                      <span>
+                        {key === "overall" ? t("trend.overall") : t(key)}
+                      </span>
+                      <span className="flex items-center gap-2">
+                        <span className="text-muted-foreground">
+                          {Math.round(before)} → {Math.round(after)}
+                        </span>
+                        <span
+                          className={`w-10 text-right font-semibold ${
+                            delta > 0
+                              ? "text-green-600"
+                              : delta < 0
+                              ? "text-destructive"
+                              : "text-muted-foreground"
+                          }`}
+                        >
+                          {formatDelta(delta)}
+                        </span>
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Input
+                value={scenarioName}
+                onChange={(e) => setScenarioName(e.target.value)}
+                placeholder={t("simulation.name")}
+                className="h-8 text-xs"
+              />
+              <Button
+                size="sm"
+                className="h-8 text-xs"
+                onClick={handleSave}
+                disabled={hypotheticals.length === 0}
+              >
+                <Save className="w-3 h-3 mr-1" />
+                {t("simulation.save")}
+              </Button>
+            </div>
+          </>
+        )}
+
+        {scenarios.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium">{t("simulation.saved.scenarios")}</p>
+            {scenarios.map((scenario) => (
+              <div
+                key={scenario.id}
+                className="flex items-center gap-1 text-xs p-1.5 rounded bg-muted/20"
+              >
+                <span className="flex-1 truncate" title={scenario.name}>
+                  {scenario.name}
+                </span>
+                <span className="text-muted-foreground shrink-0 mr-1">
+                  {t("simulation.facility.count", {
+                    count: scenario.facilities.length,
+                  })}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => handleLoad(scenario)}
+                  title={t("simulation.load")}
+                >
+                  <FolderOpen className="w-3 h-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => handleExport(scenario)}
+                  title={t("simulation.export")}
+                >
+                  <Download className="w-3 h-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+                  onClick={() => handleDelete(scenario.id)}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full text-xs"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="w-3 h-3 mr-1" />
+          {t("simulation.import")}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SimulationPanel;
@@ -0,0 +1,201 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Crosshair, Pentagon, Square, Trash2, X } from "lucide-react";
+import { SiteFinderResult } from "@/services/siteFinderService";
+import {
+  FACILITY_DISTANCES,
+  FacilityCategory,
+} from "@/services/livabilityService";
+import type { DrawMode } from "./Map";
+import { useLanguage } from "./LanguageProvider";
+
+interface SiteFinderPanelProps {
+  category: FacilityCategory;
+  onCategoryChange: (category: FacilityCategory) => void;
+  drawMode: DrawMode | null; // Drawing an area for the site finder
+  onDrawModeChange: (mode: DrawMode | null) => void;
+  isSearching: boolean;
+  progress: { done: number; total: number } | null;
+  result: SiteFinderResult | null;
+  onSiteClick?: (lng: number, lat: number) => void;
+  onClear: () => void;
+  className?: string;
+}
+
+const CATEGORIES = Object.keys(FACILITY_DISTANCES) as FacilityCategory[];
+
+const SiteFinderPanel: React.FC<SiteFinderPanelProps> = ({
+  category,
+  onCategoryChange,
+  drawMode,
+  onDrawModeChange,
+  isSearching,
+  progress,
+  result,
+  onSiteClick,
+  onClear,
+  className,
+}) => {
+  const { t } = useLanguage();
+
+  return (
+    <Card className={`bg-card border-border shadow-sm ${className || ""}`}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-2">
+          <div className="w-2 h-2 bg-primary rounded-full"></div>
+          <CardTitle className="text-sm md:text-base font-semibold flex items-center gap-2">
+            <Crosshair className="w-4 h-4 text-primary" />
+            {t("site.finder")}
+          </CardTitle>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {t("site.finder.description")}
+        </p>
+      </CardHeader>
+      <CardContent className="pt-0 pb-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">
+            {t("site.finder.category")}
+          </span>
+          <Select
+            value={category}
+            onValueChange={(value) => onCategoryChange(value as FacilityCategory)}
+            disabled={isSearching}
+          >
+            <SelectTrigger className="h-7 w-[140px] text-xs px-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CATEGORIES.map((c) => (
+                <SelectItem key={c} value={c} className="text-xs">
+                  {t(c)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {drawMode ? (
+          <div className="space-y-2">
+            <p className="text-xs text-primary">
+              {drawMode === "rectangle"
+                ? t("draw.rectangle.hint")
+                : t("draw.polygon.hint")}
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full text-xs"
+              onClick={() => onDrawModeChange(null)}
+            >
+              <X className="w-3 h-3 mr-1" />
+              {t("cancel")}
+            </Button>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1 text-xs"
+              onClick={() => onDrawModeChange("rectangle")}
+              disabled={isSearching}
+            >
+              <Square className="w-3 h-3 mr-1" />
+              {t("draw.rectangle")}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1 text-xs"
+              onClick={() => onDrawModeChange("polygon")}
+              disabled={isSearching}
+            >
+              <Pentagon className="w-3 h-3 mr-1" />
+              {t("draw.polygon")}
+            </Button>
+          </div>
+        )}
+
+        {isSearching && (
+          <div className="space-y-1">
+            <Progress
+              value={progress ? (progress.done / progress.total) * 100 : 0}
+              className="h-2"
+            />
+            <p className="text-xs text-muted-foreground">
+              {progress
+                ? t("site.finder.progress", {
+                    done: progress.done,
+                    total: progress.total,
+                  })
+                : t("fetching.area.data")}
+            </p>
+          </div>
+        )}
+
+        {result && !isSearching && (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              {t("site.finder.summary", {
+                category: t(result.category),
+                candidates: result.candidatesTested,
+                average: Math.round(result.baselineAverage),
+              })}
+            </p>
+            {result.candidates.length === 0 ? (
+              <p className="text-xs text-muted-foreground text-center py-2">
+                {t("site.finder.none")}
+              </p>
+            ) : (
+              <div className="space-y-1">
+                {result.candidates.map((site) => (
+                  <div
+                    key={site.id}
+                    className="flex items-center gap-2 p-2 rounded-lg bg-muted/20 hover:bg-muted/40 transition-colors cursor-pointer"
+                    onClick={() => onSiteClick?.(site.lng, site.lat)}
+                  >
+                    <span className="w-5 h-5 rounded-full flex items-center justify-center text-[10px] font-bold text-white bg-emerald-600 flex-shrink-0">
+                      {site.rank}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-xs font-mono truncate">
+                        {site.lat.toFixed(5)}, {site.lng.toFixed(5)}
+                      </div>
+                      <div className="text-[11px] text-muted-foreground">
+                        {t("site.finder.reach", { count: site.reach })}
+                      </div>
+                    </div>
+                    <span className="text-xs font-bold text-green-600 shrink-0">
+                      +{site.impact.toFixed(2)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full text-xs"
+              onClick={onClear}
+            >
+              <Trash2 className="w-3 h-3 mr-1" />
+              {t("site.finder.clear")}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SiteFinderPanel;
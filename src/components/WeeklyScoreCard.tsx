@@ -0,0 +1,150 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Clock } from "lucide-react";
+import type { WeekdayScore } from "@/services/livabilityService";
+import { TimeOfWeek, WEEKDAY_KEYS } from "@/services/openingHours";
+import { useLanguage } from "./LanguageProvider";
+
+export interface WeeklyScoreCardProps {
+  time: TimeOfWeek | null; // Time the score is for; null counts every facility
+  onTimeChange: (time: TimeOfWeek | null) => void;
+  week: WeekdayScore[]; // Overall score by day and by night per weekday
+  hasOpeningHours: boolean; // Whether any facility nearby tags its opening hours
+}
+
+const ANY_TIME = "any";
+
+// Time used when a day is picked before a time
+const DEFAULT_MINUTES = 22 * 60;
+
+const WeeklyScoreCard: React.FC<WeeklyScoreCardProps> = ({
+  time,
+  onTimeChange,
+  week,
+  hasOpeningHours,
+}) => {
+  const { t } = useLanguage();
+
+  const chartConfig: ChartConfig = {
+    daytime: { label: t("weekly.daytime"), color: "#f59e0b" },
+    night: { label: t("weekly.night"), color: "#6366f1" },
+  };
+
+  const chartData = week.map((score) => ({
+    day: t(`weekday.${WEEKDAY_KEYS[score.day]}`),
+    daytime: Math.round(score.daytime),
+    night: Math.round(score.night),
+  }));
+
+  const timeValue = time
+    ? `${String(Math.floor(time.minutes / 60)).padStart(2, "0")}:${String(
+        time.minutes % 60
+      ).padStart(2, "0")}`
+    : "";
+
+  const handleDayChange = (value: string) =>
+    onTimeChange(
+      value === ANY_TIME
+        ? null
+        : { day: Number(value), minutes: time?.minutes ?? DEFAULT_MINUTES }
+    );
+
+  const handleTimeChange = (value: string) => {
+    const [hours, minutes] = value.split(":").map(Number);
+    if (!time || isNaN(hours) || isNaN(minutes)) return;
+    onTimeChange({ day: time.day, minutes: hours * 60 + minutes });
+  };
+
+  return (
+    <Card className="bg-card border-border shadow-sm">
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-2">
+          <div className="w-2 h-2 bg-primary rounded-full"></div>
+          <CardTitle className="text-sm md:text-base font-semibold flex items-center gap-2">
+            <Clock className="w-4 h-4 text-primary" />
+            {t("weekly.title")}
+          </CardTitle>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {t("weekly.description")}
+        </p>
+      </CardHeader>
+      <CardContent className="pt-0 pb-4 space-y-3">
+        <div className="flex gap-2">
+          <Select
+            value={time ? String(time.day) : ANY_TIME}
+            onValueChange={handleDayChange}
+          >
+            <SelectTrigger className="h-8 text-xs flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_TIME} className="text-xs">
+                {t("weekly.any.time")}
+              </SelectItem>
+              {WEEKDAY_KEYS.map((key, day) => (
+                <SelectItem key={key} value={String(day)} className="text-xs">
+                  {t(`weekday.${key}.long`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="time"
+            className="h-8 text-xs w-28"
+            value={timeValue}
+            disabled={!time}
+            onChange={(e) => handleTimeChange(e.target.value)}
+          />
+        </div>
+
+        {hasOpeningHours ? (
+          <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+            <LineChart data={chartData} margin={{ left: -20, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickLine={false} axisLine={false} fontSize={10} />
+              <YAxis domain={[0, 100]} tickLine={false} axisLine={false} fontSize={10} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line
+                dataKey="daytime"
+                stroke="var(--color-daytime)"
+                strokeWidth={2}
+                dot={false}
+              />
+              <Line
+                dataKey="night"
+                stroke="var(--color-night)"
+                strokeWidth={2}
+                dot={false}
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+            </LineChart>
+          </ChartContainer>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            {t("weekly.no.hours")}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WeeklyScoreCard;
@@ -1,20 +1,88 @@
-import React, { useState, useCallback, useEffect } from "react";
+import React, { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { toast } from "sonner";
-import Map from "@/components/Map";
+import { useLocation, useNavigate } from "react-router-dom";
+import Map, { DrawMode } from "@/components/Map";
 import LocationSearch from "@/components/LocationSearch";
 import LiveabilityScore from "@/components/LiveabilityScore";
 import ControlPanel from "@/components/ControlPanel";
 import CustomPoiManager from "@/components/CustomPoiManager";
+import LocationComparison from "@/components/LocationComparison";
+import HeatmapPanel from "@/components/HeatmapPanel";
+import BatchScoringPanel from "@/components/BatchScoringPanel";
+import SimulationPanel from "@/components/SimulationPanel";
+import SiteFinderPanel from "@/components/SiteFinderPanel";
+import JournalDialog from "@/components/JournalDialog";
+import type { ScoreTrendProps } from "@/components/ScoreTrend";
+import type { ScoreExplanationPanelProps } from "@/components/ScoreExplanationPanel";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { SatelliteToggle } from "@/components/SatelliteToggle";
 import LanguageToggle from "@/components/LanguageToggle";
 import {
+  explainScore,
   calculateLivabilityScore,
   getEmptyLivabilityData,
+  scoreFacilities,
+  scoreWeek,
 } from "@/services/livabilityService";
+import {
+  ScoringProfile,
+  scoringProfileService,
+} from "@/services/scoringProfileService";
+import { analysisSettingsService } from "@/services/analysisSettingsService";
+import type {
+  DistanceMode,
+  FacilityCategory,
+} from "@/services/livabilityService";
+import type { IsochroneBand } from "@/services/walkingNetworkService";
 import { searchHistoryService } from "@/services/searchHistoryService";
+import {
+  PERMALINK_PATH,
+  buildPermalinkQuery,
+  buildPermalinkUrl,
+  parsePermalink,
+} from "@/services/permalinkService";
 import { customPoiService } from "@/services/customPoiService";
-import { Menu, X, BarChart3, Target, MapPin } from "lucide-react";
+import {
+  JournalEntry,
+  getLocationKey,
+  journalService,
+} from "@/services/journalService";
+import { TrackedLocation, trackingService } from "@/services/trackingService";
+import {
+  HypotheticalFacility,
+  simulateScenario,
+} from "@/services/scenarioService";
+import {
+  SiteFinderResult,
+  findOptimalSites,
+} from "@/services/siteFinderService";
+import {
+  PinnedLocation,
+  comparisonService,
+} from "@/services/comparisonService";
+import {
+  HEATMAP_CELL_SIZES,
+  HeatmapResult,
+  calculateHeatmap,
+  heatmapToGeoJSON,
+} from "@/services/heatmapService";
+import {
+  PopulationLayerInfo,
+  PopulationReach,
+  populationService,
+} from "@/services/populationService";
+import { PopulationReachCardProps } from "@/components/PopulationReachCard";
+import type { WeeklyScoreCardProps } from "@/components/WeeklyScoreCard";
+import { TimeOfWeek, getOpeningHours } from "@/services/openingHours";
+import {
+  DEFAULT_NAME_PACK,
+  getNamePackForCountry,
+} from "@/services/namePatternPacks";
+import {
+  CATEGORY_KEYS,
+  getCategoryDefinition,
+} from "@/services/categoryTaxonomy";
+import { Menu, X, BarChart3, Target, MapPin, History } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import UserModeToggle from "@/components/UserModeToggle";
 import { useUserMode } from "@/components/UserModeProvider";
@@ -22,8 +90,10 @@ import { useLanguage } from "@/components/LanguageProvider";
 import { TutorialPopup } from "@/components/TutorialPopup";
 
 const Index = () => {
-  const { mode: userMode } = useUserMode();
-  const { t } = useLanguage();
+  const { mode: userMode, setMode } = useUserMode();
+  const { t, language, setLanguage } = useLanguage();
+  const location = useLocation();
+  const navigate = useNavigate();
   const [selectedLocation, setSelectedLocation] = useState<{
     lng: number;
     lat: number;
@@ -33,6 +103,37 @@ const Index = () => {
     getEmptyLivabilityData()
   );
   const [facilities, setFacilities] = useState<any[]>([]);
+  const [pinnedLocations, setPinnedLocations] = useState<PinnedLocation[]>(
+    () => comparisonService.getPinnedLocations()
+  );
+  const [drawMode, setDrawMode] = useState<DrawMode | null>(null);
+  // Tool the drawn area is for
+  const [drawTarget, setDrawTarget] = useState<"heatmap" | "sites">("heatmap");
+  const [siteCategory, setSiteCategory] = useState<FacilityCategory>("health");
+  const [siteResult, setSiteResult] = useState<SiteFinderResult | null>(null);
+  const [isFindingSites, setIsFindingSites] = useState(false);
+  const [siteProgress, setSiteProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [heatmapCellSize, setHeatmapCellSize] = useState(HEATMAP_CELL_SIZES[1]);
+  const [heatmap, setHeatmap] = useState<HeatmapResult | null>(null);
+  const [isGeneratingHeatmap, setIsGeneratingHeatmap] = useState(false);
+  const [heatmapProgress, setHeatmapProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [isochrones, setIsochrones] = useState<IsochroneBand[]>([]);
+  // Name-pattern pack of the last selected country; kept for locations that
+  // come without a country (history, journal)
+  const [namePack, setNamePack] = useState(DEFAULT_NAME_PACK);
+  const [populationLayer, setPopulationLayer] =
+    useState<PopulationLayerInfo | null>(() => populationService.getLayerInfo());
+  // Reach of the analysis identified by `key`
+  const [populationReach, setPopulationReach] = useState<{
+    key: string;
+    reach: PopulationReach | null;
+  } | null>(null);
   const [isCalculating, setIsCalculating] = useState(false);
   const [showRadius, setShowRadius] = useState(true);
   const [hasCalculated, setHasCalculated] = useState(false);
@@ -45,25 +146,107 @@ const Index = () => {
   const [isBottomSheetVisible, setIsBottomSheetVisible] = useState(true);
   const [isCustomPoiMode, setIsCustomPoiMode] = useState(false);
   const [customPOIs, setCustomPOIs] = useState<any[]>([]);
-  const radiusOptions = [250, 500, 1000];
+  // Search radius per category (meters)
+  const [categoryRadii, setCategoryRadii] = useState(() =>
+    analysisSettingsService.getCategoryRadii()
+  );
+  // Rings drawn on the map: every distinct configured radius, or quarter/half
+  // reference rings when all categories share one radius
+  const radiusOptions = useMemo(() => {
+    const distinct = Array.from(new Set(Object.values(categoryRadii))).sort(
+      (a, b) => a - b
+    );
+    return distinct.length === 1
+      ? [distinct[0] / 4, distinct[0] / 2, distinct[0]]
+      : distinct;
+  }, [categoryRadii]);
+  const [distanceMode, setDistanceMode] = useState<DistanceMode>(() =>
+    analysisSettingsService.getDistanceMode()
+  );
+  // Analyze from the imported OSM extract instead of Overpass
+  const [offlineMode, setOfflineMode] = useState(() =>
+    analysisSettingsService.getOfflineMode()
+  );
+  // Day and time to score for; facilities closed then do not count
+  const [scoreTime, setScoreTime] = useState<TimeOfWeek | null>(null);
   // Satellite basemap toggle
   const [satelliteEnabled, setSatelliteEnabled] = useState(false);
 
   // Facility category visibility state
   const [visibleCategories, setVisibleCategories] = useState<
     Record<string, boolean>
-  >({
-    health: true,
-    education: true,
-    market: true,
-    transport: true,
-    walkability: false,
-    safety: true,
-    accessibility: true,
-    police: true,
-    religious: true,
-    recreation: true,
-  });
+  >(() =>
+    Object.fromEntries(
+      CATEGORY_KEYS.map((category) => [
+        category,
+        !getCategoryDefinition(category)?.hiddenByDefault,
+      ])
+    )
+  );
+
+  // Scoring profile state
+  const [scoringProfiles, setScoringProfiles] = useState<ScoringProfile[]>(
+    () => scoringProfileService.getAllProfiles()
+  );
+  const [activeProfileId, setActiveProfileId] = useState(() =>
+    scoringProfileService.getActiveProfileId()
+  );
+  const activeProfile = useMemo(
+    () =>
+      scoringProfiles.find((p) => p.id === activeProfileId) ||
+      scoringProfileService.getDefaultProfile(),
+    [scoringProfiles, activeProfileId]
+  );
+
+  // Map zoom, tracked for permalinks; focusZoom is the zoom a permalink asked for
+  const [mapZoom, setMapZoom] = useState<number | undefined>();
+  const [focusZoom, setFocusZoom] = useState<number | undefined>();
+  // Set when a permalink was opened; the analysis runs once its address resolves
+  const [permalinkPending, setPermalinkPending] = useState(false);
+  // Only the URL the page was opened with is restored
+  const permalinkRestored = useRef(false);
+
+  // Analysis journal: the entry of the analysis on screen, and the saved AI
+  // summary shown when an entry is reopened
+  const [isJournalOpen, setIsJournalOpen] = useState(false);
+  const [journalEntryId, setJournalEntryId] = useState<string | null>(null);
+  const [restoredAiSummary, setRestoredAiSummary] = useState<
+    { summary: string; source: "ai" | "fallback" } | undefined
+  >();
+
+  // Score tracking of saved locations: runs of the location on screen
+  const [trackedLocations, setTrackedLocations] = useState<TrackedLocation[]>(
+    () => trackingService.getTrackedLocations()
+  );
+  const [scoreHistory, setScoreHistory] = useState<JournalEntry[]>([]);
+  const [isRefreshingTracked, setIsRefreshingTracked] = useState(false);
+  const dueRefreshStarted = useRef(false);
+
+  // Facility selected in the score explanation, highlighted on the map
+  const [highlightedFacilityId, setHighlightedFacilityId] = useState<
+    string | null
+  >(null);
+
+  // What-if simulation: hypothetical facilities placed by clicking the map
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [simulationCategory, setSimulationCategory] =
+    useState<FacilityCategory>("health");
+  const [hypotheticals, setHypotheticals] = useState<HypotheticalFacility[]>(
+    []
+  );
+
+  // Options for batch scoring, matching a single analysis
+  const batchOptions = useMemo(
+    () => ({
+      profile: activeProfile,
+      radii: categoryRadii,
+      distanceMode,
+      offline: offlineMode,
+      namePack,
+      time: scoreTime ?? undefined,
+    }),
+    [activeProfile, categoryRadii, distanceMode, offlineMode, namePack, scoreTime]
+  );
 
   // Control panel visibility state
   const [isControlPanelVisible, setIsControlPanelVisible] = useState(true);
@@ -88,9 +271,16 @@ const Index = () => {
   }, [visibleCategories]);
 
   const handleLocationSelect = useCallback(
-    (lng: number, lat: number, address?: string) => {
+    (lng: number, lat: number, address?: string, countryCode?: string) => {
+      // Keep the permalink zoom while only the address of its location resolves
+      if (selectedLocation?.lng !== lng || selectedLocation?.lat !== lat) {
+        setFocusZoom(undefined);
+      }
       setSelectedLocation({ lng, lat, address });
       setHasCalculated(false);
+      if (countryCode) {
+        setNamePack(getNamePackForCountry(countryCode).id);
+      }
 
       // Add to search history if address is provided
       if (address) {
@@ -100,7 +290,7 @@ const Index = () => {
       // Don't clear facilities and livability data when just selecting a new location
       // Only clear them when explicitly analyzing
     },
-    []
+    [selectedLocation]
   );
 
   const handleRecalculate = useCallback(async () => {
@@ -115,6 +305,7 @@ const Index = () => {
       // Clear old data when analyzing a new location
       setLivabilityData(getEmptyLivabilityData());
       setFacilities([]);
+      setIsochrones([]);
 
       const address =
         selectedLocation.address ||
@@ -124,11 +315,44 @@ const Index = () => {
       const result = await calculateLivabilityScore(
         selectedLocation.lat,
         selectedLocation.lng,
-        address
+        address,
+        {
+          profile: activeProfile,
+          radii: categoryRadii,
+          distanceMode,
+          offline: offlineMode,
+          namePack,
+          time: scoreTime ?? undefined,
+        }
       );
       setLivabilityData(result.data);
       setFacilities(result.facilities);
+      setIsochrones(result.isochrones);
       setHasCalculated(true);
+      setRestoredAiSummary(undefined);
+      setJournalEntryId(null);
+
+      journalService
+        .addEntry({
+          address,
+          lat: selectedLocation.lat,
+          lng: selectedLocation.lng,
+          data: result.data,
+          facilities: result.facilities,
+          isochrones: result.isochrones,
+          userMode,
+          profileId: activeProfile.id,
+          profileName: activeProfile.name,
+          radii: categoryRadii,
+          distanceMode,
+          time: scoreTime ?? undefined,
+        })
+        .then((entry) => {
+          setJournalEntryId(entry.id);
+          trackingService.recordRun(entry);
+          setTrackedLocations(trackingService.getTrackedLocations());
+        })
+        .catch((error) => console.error("Error saving analysis:", error));
 
       toast.success(
         t("livability.score.calculated", {
@@ -147,7 +371,190 @@ const Index = () => {
     } finally {
       setIsCalculating(false);
     }
-  }, [selectedLocation, t]);
+  }, [
+    selectedLocation,
+    activeProfile,
+    categoryRadii,
+    distanceMode,
+    offlineMode,
+    namePack,
+    scoreTime,
+    userMode,
+    t,
+  ]);
+
+  // Save the AI summary with the analysis it describes
+  const handleAiSummary = useCallback(
+    (summary: string, source: "ai" | "fallback") => {
+      if (!journalEntryId) return;
+      journalService
+        .setSummary(journalEntryId, summary, source, language)
+        .catch((error) => console.error("Error saving AI summary:", error));
+    },
+    [journalEntryId, language]
+  );
+
+  // Show a saved analysis again without fetching anything
+  const handleOpenJournalEntry = useCallback(
+    (entry: JournalEntry) => {
+      setSelectedLocation({
+        lng: entry.lng,
+        lat: entry.lat,
+        address: entry.address,
+      });
+      setFocusZoom(undefined);
+      setLivabilityData(entry.data);
+      setFacilities(entry.facilities);
+      setIsochrones(entry.isochrones);
+      setHasCalculated(true);
+      setJournalEntryId(entry.id);
+      setScoreTime(entry.time ?? null);
+      // The summary was written for one mode and language
+      setRestoredAiSummary(
+        entry.aiSummary &&
+          entry.aiSource &&
+          entry.userMode === userMode &&
+          entry.summaryLanguage === language
+          ? { summary: entry.aiSummary, source: entry.aiSource }
+          : undefined
+      );
+      setIsJournalOpen(false);
+      setIsCustomPoiMode(false);
+    },
+    [userMode, language]
+  );
+
+  // Rescore the current facilities locally under another profile (no refetch)
+  const rescoreWithProfile = useCallback(
+    (profile: ScoringProfile) => {
+      if (!hasCalculated || !livabilityData.location) return;
+
+      const { address, coordinates } = livabilityData.location;
+      const result = scoreFacilities(
+        facilities,
+        coordinates.lat,
+        coordinates.lng,
+        address,
+        {
+          profile,
+          radii: categoryRadii,
+          distanceMode,
+          time: scoreTime ?? undefined,
+        }
+      );
+      setLivabilityData(result.data);
+      setFacilities(result.facilities);
+      toast.success(t("profile.rescored", { name: profile.name }));
+    },
+    [
+      hasCalculated,
+      livabilityData.location,
+      facilities,
+      categoryRadii,
+      distanceMode,
+      scoreTime,
+      t,
+    ]
+  );
+
+  const handleProfileChange = useCallback(
+    (profileId: string) => {
+      setActiveProfileId(profileId);
+      scoringProfileService.setActiveProfileId(profileId);
+      rescoreWithProfile(scoringProfileService.getProfileById(profileId));
+    },
+    [rescoreWithProfile]
+  );
+
+  const handleProfilesChanged = useCallback(
+    (profileId?: string) => {
+      setScoringProfiles(scoringProfileService.getAllProfiles());
+      if (profileId) {
+        handleProfileChange(profileId);
+      }
+    },
+    [handleProfileChange]
+  );
+
+  // Restore the analysis state encoded in an /analyze permalink
+  useEffect(() => {
+    if (permalinkRestored.current) return;
+    permalinkRestored.current = true;
+    if (location.pathname !== PERMALINK_PATH) return;
+    const link = parsePermalink(location.search);
+    if (!link) {
+      toast.error(t("share.link.invalid"));
+      return;
+    }
+
+    if (link.mode) setMode(link.mode);
+    if (link.language) setLanguage(link.language);
+    if (link.visibleCategories) {
+      setVisibleCategories((prev) => {
+        const updated = { ...prev };
+        Object.keys(updated).forEach((category) => {
+          updated[category] = link.visibleCategories!.includes(category);
+        });
+        return updated;
+      });
+    }
+    if (link.satellite !== undefined) setSatelliteEnabled(link.satellite);
+    if (link.profileId) {
+      // Custom profiles only exist in the browser that created them
+      if (scoringProfiles.some((p) => p.id === link.profileId)) {
+        setActiveProfileId(link.profileId);
+        scoringProfileService.setActiveProfileId(link.profileId);
+      } else {
+        toast.info(t("share.profile.missing"));
+      }
+    }
+    setFocusZoom(link.zoom);
+    setSelectedLocation({ lat: link.lat, lng: link.lng });
+    setPermalinkPending(true);
+  }, [location.pathname, location.search, scoringProfiles, setMode, setLanguage, t]);
+
+  useEffect(() => {
+    if (!permalinkPending || !selectedLocation?.address) return;
+    setPermalinkPending(false);
+    handleRecalculate();
+  }, [permalinkPending, selectedLocation, handleRecalculate]);
+
+  const permalinkState = useMemo(
+    () =>
+      hasCalculated && selectedLocation
+        ? {
+            lat: selectedLocation.lat,
+            lng: selectedLocation.lng,
+            zoom: mapZoom,
+            mode: userMode,
+            language,
+            visibleCategories: Object.keys(visibleCategories).filter(
+              (category) => visibleCategories[category]
+            ),
+            satellite: satelliteEnabled,
+            profileId: activeProfile.id,
+          }
+        : null,
+    [
+      hasCalculated,
+      selectedLocation,
+      mapZoom,
+      userMode,
+      language,
+      visibleCategories,
+      satelliteEnabled,
+      activeProfile.id,
+    ]
+  );
+  const permalink = permalinkState ? buildPermalinkUrl(permalinkState) : undefined;
+
+  // Keep the address bar on the permalink of the current analysis
+  useEffect(() => {
+    if (!permalinkState) return;
+    const search = `?${buildPermalinkQuery(permalinkState)}`;
+    if (location.pathname === PERMALINK_PATH && location.search === search) return;
+    navigate(`${PERMALINK_PATH}${search}`, { replace: true });
+  }, [permalinkState, location.pathname, location.search, navigate]);
 
   const handleAnalyzeLocation = useCallback(async () => {
     handleRecalculate();
@@ -157,6 +564,98 @@ const Index = () => {
     setShowRadius((prev) => !prev);
   }, []);
 
+  const handleCategoryRadiusChange = useCallback(
+    (category: FacilityCategory, radius: number) => {
+      setCategoryRadii(
+        analysisSettingsService.setCategoryRadius(category, radius)
+      );
+    },
+    []
+  );
+
+  const handleResetRadii = useCallback(() => {
+    setCategoryRadii(analysisSettingsService.resetCategoryRadii());
+  }, []);
+
+  const handleDistanceModeChange = useCallback(
+    (mode: DistanceMode) => {
+      setDistanceMode(mode);
+      analysisSettingsService.setDistanceMode(mode);
+      if (!hasCalculated || !livabilityData.location) return;
+
+      // Walking distances are only fetched in network mode; otherwise rescore locally
+      const hasNetworkDistances = facilities.some(
+        (facility) => facility.networkDistance !== undefined
+      );
+      if (mode === "network" && !hasNetworkDistances) {
+        toast.info(t("walking.distance.reanalyze"));
+        return;
+      }
+
+      const { address, coordinates } = livabilityData.location;
+      const result = scoreFacilities(
+        facilities,
+        coordinates.lat,
+        coordinates.lng,
+        address,
+        {
+          profile: activeProfile,
+          radii: categoryRadii,
+          distanceMode: mode,
+          time: scoreTime ?? undefined,
+        }
+      );
+      setLivabilityData(result.data);
+      setFacilities(result.facilities);
+    },
+    [
+      hasCalculated,
+      livabilityData.location,
+      facilities,
+      activeProfile,
+      categoryRadii,
+      scoreTime,
+      t,
+    ]
+  );
+
+  // Rescore the current facilities locally for another day and time
+  const handleScoreTimeChange = useCallback(
+    (time: TimeOfWeek | null) => {
+      setScoreTime(time);
+      if (!hasCalculated || !livabilityData.location) return;
+
+      const { address, coordinates } = livabilityData.location;
+      const result = scoreFacilities(
+        facilities,
+        coordinates.lat,
+        coordinates.lng,
+        address,
+        {
+          profile: activeProfile,
+          radii: categoryRadii,
+          distanceMode,
+          time: time ?? undefined,
+        }
+      );
+      setLivabilityData(result.data);
+      setFacilities(result.facilities);
+    },
+    [
+      hasCalculated,
+      livabilityData.location,
+      facilities,
+      activeProfile,
+      categoryRadii,
+      distanceMode,
+    ]
+  );
+
+  const handleOfflineModeChange = useCallback((enabled: boolean) => {
+    setOfflineMode(enabled);
+    analysisSettingsService.setOfflineMode(enabled);
+  }, []);
+
   const handleToggleSatellite = useCallback(() => {
     setSatelliteEnabled((prev) => !prev);
   }, []);
@@ -187,6 +686,439 @@ const Index = () => {
     toast.success(t("map.panned.to.place"));
   }, [t]);
 
+  // Pin the analyzed location for side-by-side comparison
+  const handlePinCurrent = useCallback(() => {
+    if (!hasCalculated || !livabilityData.location) return;
+
+    const pinned = comparisonService.pinLocation(
+      livabilityData,
+      activeProfile.name
+    );
+    if (!pinned) {
+      toast.error(t("compare.full"));
+      return;
+    }
+    setPinnedLocations(comparisonService.getPinnedLocations());
+    toast.success(t("location.pinned"));
+  }, [hasCalculated, livabilityData, activeProfile.name, t]);
+
+  const handleUnpin = useCallback((id: string) => {
+    comparisonService.unpinLocation(id);
+    setPinnedLocations(comparisonService.getPinnedLocations());
+  }, []);
+
+  const handleClearPins = useCallback(() => {
+    comparisonService.clearPinnedLocations();
+    setPinnedLocations([]);
+  }, []);
+
+  const currentTracked = useMemo(() => {
+    if (!hasCalculated || !livabilityData.location) return undefined;
+    const { lat, lng } = livabilityData.location.coordinates;
+    const locationKey = getLocationKey(lat, lng);
+    return trackedLocations.find((l) => l.locationKey === locationKey);
+  }, [hasCalculated, livabilityData.location, trackedLocations]);
+
+  // Load the runs of a tracked location, again after each new run is saved
+  useEffect(() => {
+    if (!currentTracked) {
+      setScoreHistory([]);
+      return;
+    }
+    let cancelled = false;
+    trackingService
+      .getHistory(currentTracked)
+      .then((history) => {
+        if (!cancelled) setScoreHistory(history);
+      })
+      .catch((error) => console.error("Error loading score history:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentTracked, journalEntryId]);
+
+  const handleToggleTracking = useCallback(() => {
+    if (currentTracked) {
+      trackingService.untrack(currentTracked.id);
+      toast.success(t("trend.untracked"));
+    } else if (livabilityData.location) {
+      const { lat, lng } = livabilityData.location.coordinates;
+      trackingService.track(
+        lat,
+        lng,
+        livabilityData.location.address,
+        activeProfile.id,
+        categoryRadii,
+        distanceMode,
+        namePack
+      );
+      toast.success(t("trend.tracked"));
+    }
+    setTrackedLocations(trackingService.getTrackedLocations());
+  }, [
+    currentTracked,
+    livabilityData.location,
+    activeProfile.id,
+    categoryRadii,
+    distanceMode,
+    namePack,
+    t,
+  ]);
+
+  // Re-analyze the tracked location on screen and show the new run
+  const handleRefreshTracked = useCallback(async () => {
+    if (!currentTracked) return;
+    setIsRefreshingTracked(true);
+    try {
+      const entry = await trackingService.refresh(
+        currentTracked,
+        { radii: categoryRadii, distanceMode, offline: offlineMode },
+        userMode
+      );
+      setLivabilityData(entry.data);
+      setFacilities(entry.facilities);
+      setIsochrones(entry.isochrones);
+      setJournalEntryId(entry.id);
+      setRestoredAiSummary(undefined);
+      // Tracked runs count facilities at any time
+      setScoreTime(null);
+      setTrackedLocations(trackingService.getTrackedLocations());
+      toast.success(
+        t("livability.score.calculated", {
+          score: Math.round(entry.data.overall),
+        })
+      );
+    } catch (error) {
+      toast.error(t("failed.calculate.score"), {
+        description: t("try.again.select.different"),
+      });
+    } finally {
+      setIsRefreshingTracked(false);
+    }
+  }, [currentTracked, categoryRadii, distanceMode, offlineMode, userMode, t]);
+
+  // Re-analyze tracked locations whose cached data expired, once per visit
+  useEffect(() => {
+    if (dueRefreshStarted.current) return;
+    dueRefreshStarted.current = true;
+    const due = trackingService.getDueLocations();
+    if (due.length === 0) return;
+
+    (async () => {
+      let updated = 0;
+      for (const location of due) {
+        try {
+          await trackingService.refresh(
+            location,
+            { radii: categoryRadii, distanceMode, offline: offlineMode },
+            userMode
+          );
+          updated++;
+        } catch (error) {
+          console.error("Error refreshing tracked location:", error);
+        }
+      }
+      setTrackedLocations(trackingService.getTrackedLocations());
+      if (updated > 0) {
+        toast.success(t("trend.refreshed", { count: updated }));
+      }
+    })();
+  }, [categoryRadii, distanceMode, offlineMode, userMode, t]);
+
+  // A new facility set invalidates the highlighted facility
+  useEffect(() => {
+    setHighlightedFacilityId(null);
+  }, [facilities]);
+
+  const explanation = useMemo(
+    () =>
+      hasCalculated && facilities.length > 0
+        ? explainScore(facilities, {
+            profile: activeProfile,
+            radii: categoryRadii,
+            distanceMode,
+            time: scoreTime ?? undefined,
+          })
+        : null,
+    [
+      hasCalculated,
+      facilities,
+      activeProfile,
+      categoryRadii,
+      distanceMode,
+      scoreTime,
+    ]
+  );
+
+  const scoreExplanation: ScoreExplanationPanelProps | undefined = explanation
+    ? {
+        explanation,
+        highlightedFacilityId,
+        onFacilityClick: (facility) =>
+          setHighlightedFacilityId((current) =>
+            current === facility.id ? null : facility.id
+          ),
+      }
+    : undefined;
+
+  // Hypothetical facilities belong to the analyzed location
+  const analyzedLat = livabilityData.location?.coordinates.lat;
+  const analyzedLng = livabilityData.location?.coordinates.lng;
+  useEffect(() => {
+    setIsSimulating(false);
+    setHypotheticals([]);
+  }, [analyzedLat, analyzedLng]);
+
+  const handlePlaceHypothetical = useCallback(
+    (lng: number, lat: number) => {
+      setHypotheticals((prev) => [
+        ...prev,
+        {
+          id: `hypothetical_${Date.now()}_${Math.random()
+            .toString(36)
+            .substr(2, 9)}`,
+          name: t("simulation.facility.name", {
+            category: t(simulationCategory),
+            number: prev.length + 1,
+          }),
+          category: simulationCategory,
+          lat,
+          lng,
+        },
+      ]);
+    },
+    [simulationCategory, t]
+  );
+
+  const simulation = useMemo(
+    () =>
+      isSimulating && hasCalculated && livabilityData.location
+        ? simulateScenario(
+            facilities,
+            hypotheticals,
+            livabilityData.location.coordinates.lat,
+            livabilityData.location.coordinates.lng,
+            livabilityData.location.address,
+            {
+              profile: activeProfile,
+              radii: categoryRadii,
+              distanceMode,
+              time: scoreTime ?? undefined,
+            }
+          )
+        : null,
+    [
+      isSimulating,
+      hasCalculated,
+      livabilityData.location,
+      facilities,
+      hypotheticals,
+      activeProfile,
+      categoryRadii,
+      distanceMode,
+      scoreTime,
+    ]
+  );
+
+  // Day vs night scores across the week, from the facilities' opening hours
+  const weeklyScores = useMemo(
+    () =>
+      hasCalculated && livabilityData.location
+        ? scoreWeek(
+            facilities,
+            livabilityData.location.coordinates.lat,
+            livabilityData.location.coordinates.lng,
+            livabilityData.location.address,
+            { profile: activeProfile, radii: categoryRadii, distanceMode }
+          )
+        : [],
+    [
+      hasCalculated,
+      livabilityData.location,
+      facilities,
+      activeProfile,
+      categoryRadii,
+      distanceMode,
+    ]
+  );
+
+  const weeklyCard: WeeklyScoreCardProps | undefined =
+    hasCalculated && livabilityData.location
+      ? {
+          time: scoreTime,
+          onTimeChange: handleScoreTimeChange,
+          week: weeklyScores,
+          hasOpeningHours: facilities.some(
+            (facility) => !!getOpeningHours(facility.tags?.opening_hours)
+          ),
+        }
+      : undefined;
+
+  const scoreTrend: ScoreTrendProps | undefined =
+    hasCalculated && livabilityData.location
+      ? {
+          isTracked: !!currentTracked,
+          history: scoreHistory,
+          isRefreshing: isRefreshingTracked,
+          onToggleTracking: handleToggleTracking,
+          onRefresh: handleRefreshTracked,
+        }
+      : undefined;
+
+  // Population reach is a business-owner metric and needs an imported layer
+  const populationKey =
+    userMode === "business-owner" &&
+    populationLayer &&
+    hasCalculated &&
+    livabilityData.location
+      ? [
+          livabilityData.location.coordinates.lat,
+          livabilityData.location.coordinates.lng,
+          isochrones.map((band) => band.minutes).join("-"),
+          populationLayer.importedAt,
+        ].join(",")
+      : null;
+
+  useEffect(() => {
+    if (!populationKey || !livabilityData.location) return;
+    let cancelled = false;
+    const { lat, lng } = livabilityData.location.coordinates;
+    populationService
+      .getReach(lat, lng, isochrones)
+      .catch((error) => {
+        console.error("Error calculating population reach:", error);
+        return null;
+      })
+      .then((reach) => {
+        if (!cancelled) setPopulationReach({ key: populationKey, reach });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [populationKey, livabilityData.location, isochrones]);
+
+  const currentPopulationReach =
+    populationKey && populationReach?.key === populationKey
+      ? populationReach.reach
+      : null;
+  // The AI summary waits for the reach so the prompt can include it
+  const isPopulationPending =
+    !!populationKey && populationReach?.key !== populationKey;
+
+  const populationCard: PopulationReachCardProps | undefined =
+    userMode === "business-owner" && hasCalculated && livabilityData.location
+      ? {
+          layer: populationLayer,
+          reach: currentPopulationReach,
+          onLayerChange: setPopulationLayer,
+        }
+      : undefined;
+
+  // Rank sites for a new facility across the drawn area
+  const findSites = useCallback(
+    async (ring: Array<[number, number]>) => {
+      setIsFindingSites(true);
+      setSiteProgress(null);
+
+      try {
+        const result = await findOptimalSites(
+          ring,
+          siteCategory,
+          {
+            profile: activeProfile,
+            radii: categoryRadii,
+            offline: offlineMode,
+            namePack,
+            time: scoreTime ?? undefined,
+          },
+          (done, total) => setSiteProgress({ done, total })
+        );
+        setSiteResult(result);
+        toast.success(t("site.finder.ready", { count: result.candidates.length }));
+      } catch (error) {
+        toast.error(t("site.finder.failed"), {
+          description:
+            error instanceof Error
+              ? error.message
+              : t("try.again.select.different"),
+        });
+      } finally {
+        setIsFindingSites(false);
+        setSiteProgress(null);
+      }
+    },
+    [
+      siteCategory,
+      activeProfile,
+      categoryRadii,
+      offlineMode,
+      namePack,
+      scoreTime,
+      t,
+    ]
+  );
+
+  // Score a grid of cells across the drawn area
+  const handleAreaDrawn = useCallback(
+    async (ring: Array<[number, number]>) => {
+      setDrawMode(null);
+      if (drawTarget === "sites") {
+        findSites(ring);
+        return;
+      }
+      setIsGeneratingHeatmap(true);
+      setHeatmapProgress(null);
+
+      try {
+        const result = await calculateHeatmap(
+          ring,
+          heatmapCellSize,
+          {
+            profile: activeProfile,
+            radii: categoryRadii,
+            offline: offlineMode,
+            namePack,
+            time: scoreTime ?? undefined,
+          },
+          (done, total) => setHeatmapProgress({ done, total })
+        );
+        setHeatmap(result);
+        toast.success(t("heatmap.ready", { count: result.cells.length }));
+      } catch (error) {
+        toast.error(t("heatmap.failed"), {
+          description: t("try.again.select.different"),
+        });
+      } finally {
+        setIsGeneratingHeatmap(false);
+        setHeatmapProgress(null);
+      }
+    },
+    [
+      heatmapCellSize,
+      activeProfile,
+      categoryRadii,
+      offlineMode,
+      namePack,
+      scoreTime,
+      drawTarget,
+      findSites,
+      t,
+    ]
+  );
+
+  const handleExportHeatmap = useCallback(() => {
+    if (!heatmap) return;
+    const blob = new Blob([JSON.stringify(heatmapToGeoJSON(heatmap), null, 2)], {
+      type: "application/geo+json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `futuricity-heatmap-${Date.now()}.geojson`;
+    a.click();
+    toast.success(t("heatmap.exported"));
+  }, [heatmap, t]);
+
   // Load all custom POIs on initial mount and when in Custom POI Mode
   useEffect(() => {
     reloadCustomPOIs();
@@ -383,6 +1315,15 @@ const Index = () => {
                 <MapPin className="w-4 h-4 mr-2" />
                 <span className="hidden lg:inline">{t("my.places")}</span>
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsJournalOpen(true)}
+                className="h-9 px-3"
+                title={t("journal.title")}
+              >
+                <History className="w-4 h-4" />
+              </Button>
               <UserModeToggle />
               <LanguageToggle />
               <ThemeToggle />
@@ -397,11 +1338,81 @@ const Index = () => {
           <div className="flex-1 overflow-y-auto control-panel-scrollbar p-6 space-y-6">
             {!isCustomPoiMode ? (
               <>
-                <LiveabilityScore data={livabilityData} />
+                <LiveabilityScore
+                  data={livabilityData}
+                  trend={scoreTrend}
+                  explanation={scoreExplanation}
+                  population={populationCard}
+                  weekly={weeklyCard}
+                />
+                {hasCalculated && livabilityData.location && (
+                  <SimulationPanel
+                    location={{
+                      lat: livabilityData.location.coordinates.lat,
+                      lng: livabilityData.location.coordinates.lng,
+                      address: livabilityData.location.address,
+                    }}
+                    isActive={isSimulating}
+                    onActiveChange={setIsSimulating}
+                    category={simulationCategory}
+                    onCategoryChange={setSimulationCategory}
+                    hypotheticals={hypotheticals}
+                    onHypotheticalsChange={setHypotheticals}
+                    result={simulation}
+                  />
+                )}
+                <LocationComparison
+                  pinnedLocations={pinnedLocations}
+                  canPinCurrent={hasCalculated && !!livabilityData.location}
+                  onPinCurrent={handlePinCurrent}
+                  onUnpin={handleUnpin}
+                  onClear={handleClearPins}
+                  onLocationClick={handlePOIClick}
+                />
+                <BatchScoringPanel options={batchOptions} />
+                {userMode === "urban-planner" && (
+                  <HeatmapPanel
+                    drawMode={drawTarget === "heatmap" ? drawMode : null}
+                    onDrawModeChange={(mode) => {
+                      setDrawTarget("heatmap");
+                      setDrawMode(mode);
+                    }}
+                    cellSize={heatmapCellSize}
+                    onCellSizeChange={setHeatmapCellSize}
+                    isGenerating={isGeneratingHeatmap}
+                    progress={heatmapProgress}
+                    heatmap={heatmap}
+                    onExport={handleExportHeatmap}
+                    onClear={() => setHeatmap(null)}
+                  />
+                )}
+                {userMode === "urban-planner" && (
+                  <SiteFinderPanel
+                    category={siteCategory}
+                    onCategoryChange={setSiteCategory}
+                    drawMode={drawTarget === "sites" ? drawMode : null}
+                    onDrawModeChange={(mode) => {
+                      setDrawTarget("sites");
+                      setDrawMode(mode);
+                    }}
+                    isSearching={isFindingSites}
+                    progress={siteProgress}
+                    result={siteResult}
+                    onSiteClick={handlePOIClick}
+                    onClear={() => setSiteResult(null)}
+                  />
+                )}
                 <ControlPanel
                   showRadius={showRadius}
                   onToggleRadius={handleToggleRadius}
                   radiusOptions={radiusOptions}
+                  categoryRadii={categoryRadii}
+                  onCategoryRadiusChange={handleCategoryRadiusChange}
+                  onResetRadii={handleResetRadii}
+                  distanceMode={distanceMode}
+                  onDistanceModeChange={handleDistanceModeChange}
+                  offlineMode={offlineMode}
+                  onOfflineModeChange={handleOfflineModeChange}
                   isCalculating={isCalculating}
                   selectedLocation={selectedLocation}
                   onRecalculate={handleRecalculate}
@@ -412,6 +1423,15 @@ const Index = () => {
                   visibleCategories={visibleCategories}
                   onToggleCategory={handleToggleCategory}
                   onToggleAllCategories={handleToggleAllCategories}
+                  scoringProfiles={scoringProfiles}
+                  activeProfileId={activeProfile.id}
+                  onProfileChange={handleProfileChange}
+                  onProfilesChanged={handleProfilesChanged}
+                  permalink={permalink}
+                  restoredAiSummary={restoredAiSummary}
+                  onAiSummary={handleAiSummary}
+                  populationReach={currentPopulationReach}
+                  isPopulationPending={isPopulationPending}
                 />
               </>
             ) : (
@@ -429,19 +1449,37 @@ const Index = () => {
       {/* Full Screen Map */}
       <div className="flex-1 relative">
         <Map
-          onLocationSelect={(lng, lat, address) =>
-            handleLocationSelect(lng, lat, address)
+          onLocationSelect={(lng, lat, address, countryCode) =>
+            handleLocationSelect(lng, lat, address, countryCode)
           }
           selectedLocation={selectedLocation}
           facilities={
-            isCustomPoiMode ? [...facilities, ...customPOIs] : facilities
+            isCustomPoiMode
+              ? [...facilities, ...customPOIs]
+              : simulation
+              ? simulation.facilities
+              : facilities
           }
           showRadius={showRadius && hasCalculated && facilities.length > 0}
           radiusOptions={radiusOptions}
+          isochrones={isochrones}
           hasCalculated={hasCalculated}
           visibleCategories={visibleCategories}
           satelliteEnabled={satelliteEnabled}
           isCustomPoiMode={isCustomPoiMode}
+          pinnedLocations={pinnedLocations}
+          drawMode={drawMode}
+          onAreaDrawn={handleAreaDrawn}
+          heatmap={heatmap}
+          focusZoom={focusZoom}
+          onZoomChange={setMapZoom}
+          highlightedFacilityId={highlightedFacilityId}
+          siteCandidates={siteResult?.candidates}
+          onPlaceFacility={
+            isSimulating && !isCustomPoiMode && !drawMode
+              ? handlePlaceHypothetical
+              : undefined
+          }
         />
 
         {/* Top Left Controls - Floating on Map */}
@@ -463,8 +1501,8 @@ const Index = () => {
           {/* Search Bar */}
           <div className="w-80">
             <LocationSearch
-              onLocationSelect={(lng, lat, address) =>
-                handleLocationSelect(lng, lat, address)
+              onLocationSelect={(lng, lat, address, countryCode) =>
+                handleLocationSelect(lng, lat, address, countryCode)
               }
             />
           </div>
@@ -552,18 +1590,100 @@ const Index = () => {
                         ? t("exit.custom.poi.mode")
                         : t("enter.custom.poi.mode")}
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setIsJournalOpen(true)}
+                      className="w-full h-10 mt-2"
+                    >
+                      <History className="w-4 h-4 mr-2" />
+                      {t("journal.title")}
+                    </Button>
                   </div>
 
                   {!isCustomPoiMode ? (
                     <>
                       {hasCalculated && livabilityData ? (
-                        <LiveabilityScore data={livabilityData} />
+                        <LiveabilityScore
+                          data={livabilityData}
+                          trend={scoreTrend}
+                          explanation={scoreExplanation}
+                          population={populationCard}
+                          weekly={weeklyCard}
+                        />
                       ) : null}
+                      {hasCalculated && livabilityData.location && (
+                        <SimulationPanel
+                          location={{
+                            lat: livabilityData.location.coordinates.lat,
+                            lng: livabilityData.location.coordinates.lng,
+                            address: livabilityData.location.address,
+                          }}
+                          isActive={isSimulating}
+                          onActiveChange={setIsSimulating}
+                          category={simulationCategory}
+                          onCategoryChange={setSimulationCategory}
+                          hypotheticals={hypotheticals}
+                          onHypotheticalsChange={setHypotheticals}
+                          result={simulation}
+                        />
+                      )}
+
+                      <LocationComparison
+                        pinnedLocations={pinnedLocations}
+                        canPinCurrent={hasCalculated && !!livabilityData.location}
+                        onPinCurrent={handlePinCurrent}
+                        onUnpin={handleUnpin}
+                        onClear={handleClearPins}
+                        onLocationClick={handlePOIClick}
+                      />
+                      <BatchScoringPanel options={batchOptions} />
+
+                      {userMode === "urban-planner" && (
+                        <HeatmapPanel
+                          drawMode={drawTarget === "heatmap" ? drawMode : null}
+                          onDrawModeChange={(mode) => {
+                            setDrawTarget("heatmap");
+                            setDrawMode(mode);
+                          }}
+                          cellSize={heatmapCellSize}
+                          onCellSizeChange={setHeatmapCellSize}
+                          isGenerating={isGeneratingHeatmap}
+                          progress={heatmapProgress}
+                          heatmap={heatmap}
+                          onExport={handleExportHeatmap}
+                          onClear={() => setHeatmap(null)}
+                        />
+                      )}
+
+                      {userMode === "urban-planner" && (
+                        <SiteFinderPanel
+                          category={siteCategory}
+                          onCategoryChange={setSiteCategory}
+                          drawMode={drawTarget === "sites" ? drawMode : null}
+                          onDrawModeChange={(mode) => {
+                            setDrawTarget("sites");
+                            setDrawMode(mode);
+                          }}
+                          isSearching={isFindingSites}
+                          progress={siteProgress}
+                          result={siteResult}
+                          onSiteClick={handlePOIClick}
+                          onClear={() => setSiteResult(null)}
+                        />
+                      )}
 
                       <ControlPanel
                         showRadius={showRadius}
                         onToggleRadius={handleToggleRadius}
                         radiusOptions={radiusOptions}
+                        categoryRadii={categoryRadii}
+                        onCategoryRadiusChange={handleCategoryRadiusChange}
+                        onResetRadii={handleResetRadii}
+                        distanceMode={distanceMode}
+                        onDistanceModeChange={handleDistanceModeChange}
+                        offlineMode={offlineMode}
+                        onOfflineModeChange={handleOfflineModeChange}
                         isCalculating={isCalculating}
                         selectedLocation={selectedLocation}
                         onRecalculate={handleRecalculate}
@@ -574,6 +1694,15 @@ const Index = () => {
                         visibleCategories={visibleCategories}
                         onToggleCategory={handleToggleCategory}
                         onToggleAllCategories={handleToggleAllCategories}
+                        scoringProfiles={scoringProfiles}
+                        activeProfileId={activeProfile.id}
+                        onProfileChange={handleProfileChange}
+                        onProfilesChanged={handleProfilesChanged}
+                        permalink={permalink}
+                        restoredAiSummary={restoredAiSummary}
+                        onAiSummary={handleAiSummary}
+                        populationReach={currentPopulationReach}
+                        isPopulationPending={isPopulationPending}
                       />
                     </>
                   ) : (
@@ -656,6 +1785,12 @@ const Index = () => {
         </div>
       )}
 
+      <JournalDialog
+        open={isJournalOpen}
+        onOpenChange={setIsJournalOpen}
+        onOpenEntry={handleOpenJournalEntry}
+      />
+
       {/* Cache Manager for Development */}
       <TutorialPopup />
     </div>
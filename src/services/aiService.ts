@@ -1,20 +1,13 @@
 // AI service for generating location summaries using our backend API
 import { cacheService } from "./cacheService";
+import {
+  FacilityCategory,
+  describeFacilityCounts,
+} from "./categoryTaxonomy";
 
 interface LocationData {
   address: string;
-  facilityCounts: {
-    health: number;
-    education: number;
-    market: number;
-    transport: number;
-    walkability: number;
-    recreation: number;
-    safety: number;
-    police: number;
-    religious: number;
-    accessibility: number;
-  };
+  facilityCounts: Record<FacilityCategory, number>;
   scores: {
     overall: number;
     services: number;
@@ -23,6 +16,10 @@ interface LocationData {
     environment: number;
   };
   nearbyFacilities: string[];
+  populationReach?: {
+    minutes: number;
+    residents: number; // Residents within `minutes` of walking
+  };
 }
 
 type UserMode = "residents" | "business-owner" | "urban-planner";
@@ -59,7 +56,9 @@ export const generateLocationSummary = async (
   // Create a unique prompt for caching
   const prompt = `${locationData.address}-${JSON.stringify(
     locationData.facilityCounts
-  )}-${JSON.stringify(locationData.scores)}`;
+  )}-${JSON.stringify(locationData.scores)}-${
+    locationData.populationReach?.residents ?? ""
+  }`;
 
   return cacheService.cacheAIResponse(
     prompt,
@@ -189,36 +188,30 @@ function generatePrompt(
     language === "id"
       ? `Lokasi: ${locationData.address}
 Skor Keseluruhan: ${locationData.scores.overall}/100
-Fasilitas: ${locationData.facilityCounts.health} kesehatan, ${
-          locationData.facilityCounts.education
-        } pendidikan, ${locationData.facilityCounts.market} belanja, ${
-          locationData.facilityCounts.transport
-        } transportasi, ${
-          locationData.facilityCounts.walkability
-        } kemudahan jalan kaki, ${
-          locationData.facilityCounts.recreation
-        } rekreasi
+Fasilitas: ${describeFacilityCounts(locationData.facilityCounts, "id")}
 Skor: Layanan ${locationData.scores.services}, Mobilitas ${
           locationData.scores.mobility
         }, Keamanan ${locationData.scores.safety}, Lingkungan ${
           locationData.scores.environment
         }
-Terdekat: ${locationData.nearbyFacilities.slice(0, 5).join(", ")}`
+Terdekat: ${locationData.nearbyFacilities.slice(0, 5).join(", ")}${
+          locationData.populationReach
+            ? `\nPenduduk dalam ${locationData.populationReach.minutes} menit jalan kaki: ${locationData.populationReach.residents}`
+            : ""
+        }`
       : `Location: ${locationData.address}
 Overall Score: ${locationData.scores.overall}/100
-Facilities: ${locationData.facilityCounts.health} healthcare, ${
-          locationData.facilityCounts.education
-        } education, ${locationData.facilityCounts.market} shopping, ${
-          locationData.facilityCounts.transport
-        } transport, ${locationData.facilityCounts.walkability} walkability, ${
-          locationData.facilityCounts.recreation
-        } recreation
+Facilities: ${describeFacilityCounts(locationData.facilityCounts, "en")}
 Scores: Services ${locationData.scores.services}, Mobility ${
           locationData.scores.mobility
         }, Safety ${locationData.scores.safety}, Environment ${
           locationData.scores.environment
         }
-Nearby: ${locationData.nearbyFacilities.slice(0, 5).join(", ")}`;
+Nearby: ${locationData.nearbyFacilities.slice(0, 5).join(", ")}${
+          locationData.populationReach
+            ? `\nResidents within a ${locationData.populationReach.minutes}-minute walk: ${locationData.populationReach.residents}`
+            : ""
+        }`;
 
   if (language === "id") {
     switch (userMode) {
@@ -415,6 +408,8 @@ const generateMockSummary = (
         summary += `Konektivitas transportasi yang sangat baik memastikan aksesibilitas pelanggan. `;
       if (scores.safety >= 70)
         summary += `Peringkat keamanan yang tinggi menunjukkan lingkungan bisnis yang stabil. `;
+      if (data.populationReach)
+        summary += `Sekitar ${data.populationReach.residents} penduduk tinggal dalam ${data.populationReach.minutes} menit jalan kaki. `;
 
       summary += `Pertimbangkan profil demografis dan kesenjangan layanan saat merencanakan strategi bisnis Anda.`;
     } else {
@@ -433,6 +428,8 @@ const generateMockSummary = (
         summary += `Excellent transport connectivity ensures customer accessibility. `;
       if (scores.safety >= 70)
         summary += `High safety ratings suggest a stable business environment. `;
+      if (data.populationReach)
+        summary += `About ${data.populationReach.residents} residents live within a ${data.populationReach.minutes}-minute walk. `;
 
       summary += `Consider the demographic profile and service gaps when planning your business strategy.`;
     }
@@ -0,0 +1,88 @@
+// Service for persisting analysis settings (search radius per category, distance mode, offline mode)
+// Stores data in localStorage for persistence
+import {
+  CategoryRadii,
+  DistanceMode,
+  FACILITY_DISTANCES,
+  FacilityCategory,
+} from "./livabilityService";
+
+// Radius choices offered in the UI (meters)
+export const RADIUS_CHOICES = [250, 400, 500, 750, 1000, 1500, 2000, 3000];
+
+const RADII_STORAGE_KEY = "futuricity_category_radii";
+const DISTANCE_MODE_STORAGE_KEY = "futuricity_distance_mode";
+const OFFLINE_MODE_STORAGE_KEY = "futuricity_offline_mode";
+
+class AnalysisSettingsService {
+  // Get the search radius for every category, filling gaps with defaults
+  getCategoryRadii(): Record<FacilityCategory, number> {
+    try {
+      const stored = localStorage.getItem(RADII_STORAGE_KEY);
+      const saved: CategoryRadii = stored ? JSON.parse(stored) : {};
+      return { ...FACILITY_DISTANCES, ...saved };
+    } catch (error) {
+      console.error("Error loading category radii:", error);
+      return { ...FACILITY_DISTANCES };
+    }
+  }
+
+  // Update the search radius of a single category
+  setCategoryRadius(
+    category: FacilityCategory,
+    radius: number
+  ): Record<FacilityCategory, number> {
+    const radii = { ...this.getCategoryRadii(), [category]: radius };
+    try {
+      localStorage.setItem(RADII_STORAGE_KEY, JSON.stringify(radii));
+    } catch (error) {
+      console.error("Error saving category radii:", error);
+    }
+    return radii;
+  }
+
+  // Restore the default radius for all categories
+  resetCategoryRadii(): Record<FacilityCategory, number> {
+    localStorage.removeItem(RADII_STORAGE_KEY);
+    return { ...FACILITY_DISTANCES };
+  }
+
+  // Get whether scoring uses straight-line or walking network distance
+  getDistanceMode(): DistanceMode {
+    try {
+      return localStorage.getItem(DISTANCE_MODE_STORAGE_KEY) === "network"
+        ? "network"
+        : "straight";
+    } catch {
+      return "straight";
+    }
+  }
+
+  setDistanceMode(mode: DistanceMode): void {
+    try {
+      localStorage.setItem(DISTANCE_MODE_STORAGE_KEY, mode);
+    } catch (error) {
+      console.error("Error saving distance mode:", error);
+    }
+  }
+
+  // Get whether analyses use the imported OSM extract instead of Overpass
+  getOfflineMode(): boolean {
+    try {
+      return localStorage.getItem(OFFLINE_MODE_STORAGE_KEY) === "true";
+    } catch {
+      return false;
+    }
+  }
+
+  setOfflineMode(enabled: boolean): void {
+    try {
+      localStorage.setItem(OFFLINE_MODE_STORAGE_KEY, String(enabled));
+    } catch (error) {
+      console.error("Error saving offline mode:", error);
+    }
+  }
+}
+
+// Export singleton instance
+export const analysisSettingsService = new AnalysisSettingsService();
@@ -0,0 +1,433 @@
+// Batch scoring of a CSV of addresses or coordinates
+// Rows are geocoded with Nominatim (one request per second) and scored one at a
+// time with calculateLivabilityScore, so repeated areas are answered from the
+// tile index and Overpass rate limits are handled by the endpoint pool.
+import {
+  FACILITY_DISTANCES,
+  LivabilityOptions,
+  LiveabilityData,
+  calculateLivabilityScore,
+} from "./livabilityService";
+import { NOMINATIM_MIN_INTERVAL, geocodeAddress } from "./geocodingService";
+import { getNamePackForCountry } from "./namePatternPacks";
+
+export type BatchRowStatus = "pending" | "geocoding" | "scoring" | "done" | "failed";
+
+// Why a row failed; "error" rows can be retried
+export type BatchRowError = "invalid" | "not-found" | "error";
+
+export interface BatchRow {
+  index: number;
+  values: string[]; // Original CSV cells
+  address?: string;
+  lat?: number;
+  lng?: number;
+  status: BatchRowStatus;
+  attempts: number;
+  resolvedAddress?: string;
+  namePack?: string; // Name-pattern pack of the geocoded country
+  data?: LiveabilityData;
+  error?: BatchRowError;
+  errorMessage?: string;
+}
+
+export interface BatchColumns {
+  address?: number;
+  lat?: number;
+  lng?: number;
+}
+
+export interface ParsedBatch {
+  headers: string[];
+  columns: BatchColumns;
+  rows: BatchRow[];
+}
+
+export const MAX_BATCH_ROWS = 1000;
+// Automatic attempts per row before it is marked failed
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY = 5000;
+
+const ADDRESS_HEADERS = ["address", "alamat", "location", "lokasi", "query"];
+const LAT_HEADERS = ["lat", "latitude", "y"];
+const LNG_HEADERS = ["lng", "lon", "long", "longitude", "x"];
+
+// Parse CSV text (RFC 4180: quoted fields, escaped quotes, CRLF). The delimiter
+// is detected from the header line so semicolon-separated exports also work.
+export const parseCsv = (text: string): string[][] => {
+  const lineEnd = text.indexOf("\n");
+  const firstLine = lineEnd === -1 ? text : text.slice(0, lineEnd);
+  const delimiter =
+    (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length
+      ? ";"
+      : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+};
+
+const findColumn = (headers: string[], names: string[]): number | undefined => {
+  const index = headers.findIndex((h) => names.includes(h.trim().toLowerCase()));
+  return index === -1 ? undefined : index;
+};
+
+// Parse an uploaded CSV into batch rows. Throws when no address or lat/lng
+// columns are found.
+export const parseBatchCsv = (text: string): ParsedBatch => {
+  const [headers, ...records] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!headers || records.length === 0) {
+    throw new Error("The CSV file has no data rows");
+  }
+
+  const columns: BatchColumns = {
+    address: findColumn(headers, ADDRESS_HEADERS),
+    lat: findColumn(headers, LAT_HEADERS),
+    lng: findColumn(headers, LNG_HEADERS),
+  };
+  const hasCoordinates = columns.lat !== undefined && columns.lng !== undefined;
+  if (columns.address === undefined && !hasCoordinates) {
+    throw new Error("The CSV file needs an address column or lat and lng columns");
+  }
+  if (records.length > MAX_BATCH_ROWS) {
+    throw new Error(`The CSV file has more than ${MAX_BATCH_ROWS} rows`);
+  }
+
+  const rows = records.map((values, index): BatchRow => {
+    const row: BatchRow = { index, values, status: "pending", attempts: 0 };
+
+    if (hasCoordinates) {
+      const lat = parseFloat(values[columns.lat!]);
+      const lng = parseFloat(values[columns.lng!]);
+      if (
+        Number.isFinite(lat) &&
+        Number.isFinite(lng) &&
+        Math.abs(lat) <= 90 &&
+        Math.abs(lng) <= 180
+      ) {
+        row.lat = lat;
+        row.lng = lng;
+      }
+    }
+    if (columns.address !== undefined) {
+      const address = values[columns.address]?.trim();
+      if (address) row.address = address;
+    }
+
+    if (row.lat === undefined && !row.address) {
+      row.status = "failed";
+      row.error = "invalid";
+    }
+    return row;
+  });
+
+  return { headers, columns, rows };
+};
+
+const escapeCsv = (value: string | number | undefined): string => {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Results as CSV: the original columns followed by the coordinates used,
+// overall score, subscores and facility counts
+export const batchToCsv = (batch: ParsedBatch, rows: BatchRow[]): string => {
+  const categories = Object.keys(FACILITY_DISTANCES);
+  const header = [
+    ...batch.headers,
+    "scored_lat",
+    "scored_lng",
+    "resolved_address",
+    "overall",
+    "services",
+    "mobility",
+    "safety",
+    "environment",
+    ...categories.map((category) => `count_${category}`),
+    "status",
+    "error",
+  ];
+
+  const lines = rows.map((row) => {
+    const data = row.data;
+    return [
+      ...batch.headers.map((_, i) => row.values[i]),
+      row.lat?.toFixed(6),
+      row.lng?.toFixed(6),
+      row.resolvedAddress,
+      data ? Math.round(data.overall) : undefined,
+      data?.subscores.services,
+      data?.subscores.mobility,
+      data?.subscores.safety,
+      data?.subscores.environment,
+      ...categories.map(
+        (category) =>
+          data?.facilityCounts[category as keyof LiveabilityData["facilityCounts"]]
+      ),
+      row.status,
+      row.errorMessage || row.error,
+    ]
+      .map(escapeCsv)
+      .join(",");
+  });
+
+  return [header.map(escapeCsv).join(","), ...lines].join("\r\n");
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Processes pending rows one at a time. Pausing lets the current row finish.
+class BatchScoringQueue {
+  private rows: BatchRow[];
+  private running = false;
+  private paused = false;
+  private lastGeocodeAt = 0;
+
+  constructor(
+    rows: BatchRow[],
+    private options: LivabilityOptions,
+    private onUpdate: (rows: BatchRow[]) => void
+  ) {
+    this.rows = rows.map((row) => ({ ...row }));
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  getRows(): BatchRow[] {
+    return this.rows;
+  }
+
+  start(): void {
+    this.paused = false;
+    if (!this.running) this.run();
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  // Queue failed rows again, except those that can never succeed
+  retryFailed(): void {
+    this.rows.forEach((row, i) => {
+      if (row.status === "failed" && row.error === "error") {
+        this.updateRow(i, {
+          status: "pending",
+          attempts: 0,
+          error: undefined,
+          errorMessage: undefined,
+        });
+      }
+    });
+    this.start();
+  }
+
+  private updateRow(index: number, changes: Partial<BatchRow>): void {
+    this.rows = this.rows.map((row, i) =>
+      i === index ? { ...row, ...changes } : row
+    );
+    this.onUpdate(this.rows);
+  }
+
+  // Fresh rows first, so retried rows wait for the rest of the queue
+  private nextPendingRow(): number {
+    let next = -1;
+    this.rows.forEach((row, i) => {
+      if (
+        row.status === "pending" &&
+        (next === -1 || row.attempts < this.rows[next].attempts)
+      ) {
+        next = i;
+      }
+    });
+    return next;
+  }
+
+  private async run(): Promise<void> {
+    this.running = true;
+    this.onUpdate(this.rows);
+    try {
+      let index = this.nextPendingRow();
+      while (!this.paused && index !== -1) {
+        await this.processRow(index);
+        index = this.nextPendingRow();
+      }
+    } finally {
+      this.running = false;
+      this.onUpdate(this.rows);
+    }
+  }
+
+  private async processRow(index: number): Promise<void> {
+    const row = this.rows[index];
+    const attempts = row.attempts + 1;
+
+    try {
+      let { lat, lng } = row;
+      let resolvedAddress = row.resolvedAddress || row.address;
+      let namePack = row.namePack;
+
+      if (lat === undefined || lng === undefined) {
+        this.updateRow(index, { status: "geocoding", attempts });
+        const wait = this.lastGeocodeAt + NOMINATIM_MIN_INTERVAL - Date.now();
+        if (wait > 0) await sleep(wait);
+        this.lastGeocodeAt = Date.now();
+
+        const match = await geocodeAddress(row.address!);
+        if (!match) {
+          this.updateRow(index, { status: "failed", error: "not-found" });
+          return;
+        }
+        ({ lat, lng } = match);
+        resolvedAddress = match.address;
+        if (match.countryCode) {
+          namePack = getNamePackForCountry(match.countryCode).id;
+        }
+      }
+
+      this.updateRow(index, {
+        status: "scoring",
+        attempts,
+        lat,
+        lng,
+        resolvedAddress,
+        namePack,
+      });
+      const result = await calculateLivabilityScore(
+        lat,
+        lng,
+        resolvedAddress || `${lat.toFixed(4)}, ${lng.toFixed(4)}`,
+        { ...this.options, namePack: namePack ?? this.options.namePack }
+      );
+      this.updateRow(index, { status: "done", data: result.data });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (attempts < MAX_ATTEMPTS) {
+        // Back off, then try the row again after the rest of the queue
+        this.updateRow(index, { status: "pending", attempts, errorMessage });
+        await sleep(RETRY_DELAY * attempts);
+        return;
+      }
+      this.updateRow(index, { status: "failed", error: "error", errorMessage });
+    }
+  }
+}
+
+export interface BatchState {
+  batch: ParsedBatch | null;
+  fileName: string;
+  rows: BatchRow[];
+  isRunning: boolean;
+  started: boolean;
+}
+
+const EMPTY_STATE: BatchState = {
+  batch: null,
+  fileName: "",
+  rows: [],
+  isRunning: false,
+  started: false,
+};
+
+// Holds the current batch so it keeps running while panels are closed
+class BatchScoringService {
+  private state: BatchState = EMPTY_STATE;
+  private queue: BatchScoringQueue | null = null;
+  private listeners = new Set<(state: BatchState) => void>();
+
+  getState(): BatchState {
+    return this.state;
+  }
+
+  subscribe(listener: (state: BatchState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Replace the current batch with an uploaded CSV file
+  async loadFile(file: File): Promise<ParsedBatch> {
+    const batch = parseBatchCsv(await file.text());
+    this.clear();
+    this.setState({ batch, fileName: file.name, rows: batch.rows });
+    return batch;
+  }
+
+  // Start or resume scoring; options are fixed when the batch first starts
+  start(options: LivabilityOptions): void {
+    if (!this.queue) {
+      const queue = new BatchScoringQueue(this.state.rows, options, (rows) => {
+        // Ignore a cleared batch finishing its last row
+        if (this.queue === queue) {
+          this.setState({ rows, isRunning: queue.isRunning });
+        }
+      });
+      this.queue = queue;
+      this.setState({ started: true });
+    }
+    this.queue.start();
+  }
+
+  pause(): void {
+    this.queue?.pause();
+  }
+
+  retryFailed(): void {
+    this.queue?.retryFailed();
+  }
+
+  clear(): void {
+    this.queue?.pause();
+    this.queue = null;
+    this.setState(EMPTY_STATE);
+  }
+
+  toCsv(): string {
+    return this.state.batch ? batchToCsv(this.state.batch, this.state.rows) : "";
+  }
+
+  private setState(changes: Partial<BatchState>): void {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
+
+// Export singleton instance
+export const batchScoringService = new BatchScoringService();
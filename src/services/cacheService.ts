@@ -1,26 +1,46 @@
 // Cache service for API responses and computed data
-interface CacheEntry<T> {
-  data: T;
+// Two tiers: a small in-memory LRU for hot entries, backed by compressed
+// IndexedDB storage with size-based LRU eviction.
+import { IndexedDbCacheStore } from "./cacheStore";
+import { encodeGeohash } from "./geohashService";
+
+interface MemoryEntry {
+  data: unknown;
   timestamp: number;
   ttl: number;
 }
 
-interface CacheConfig {
-  ttl: number; // Time to live in milliseconds
-  maxSize?: number; // Maximum number of entries
+export interface NamespaceStats {
+  namespace: string;
+  entries: number;
+  bytes: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  memoryEntries: number;
+  namespaces: NamespaceStats[]; // Largest first
 }
 
 class CacheService {
-  private readonly STORAGE_PREFIX = "f_cache_";
+  private readonly LEGACY_STORAGE_PREFIX = "f_cache_";
   private readonly defaultTTL = 5 * 60 * 1000; // 5 minutes
-  private readonly maxSize = 100; // Limit entries to avoid localStorage bloat
+  private readonly maxMemoryEntries = 100; // Hot entries kept in memory
+  private readonly maxBytes = 50 * 1024 * 1024; // 50 MB of compressed payloads
+  private memory = new Map<string, MemoryEntry>(); // Insertion order = LRU order
+  private store = new IndexedDbCacheStore(this.maxBytes);
 
   constructor() {
-    this.prune();
+    this.removeLegacyEntries();
+    if (this.store.isAvailable()) {
+      this.store.evict().catch((e) => console.warn("Failed to prune cache:", e));
+    }
   }
 
   // Generate cache key from parameters
-  private generateKey(prefix: string, params: Record<string, any>): string {
+  private generateKey(prefix: string, params: Record<string, string | number>): string {
     const sortedParams = Object.keys(params)
       .sort()
       .map((key) => `${key}:${params[key]}`)
@@ -28,72 +48,55 @@ class CacheService {
     return `${prefix}:${sortedParams}`;
   }
 
-  // Get full storage key
-  private getStorageKey(key: string): string {
-    return `${this.STORAGE_PREFIX}${key}`;
+  // Namespace of a key is its prefix, e.g. "overpass-tile" or "ai-response"
+  private getNamespace(key: string): string {
+    return key.split(":")[0];
   }
 
-  // Prune expired or excessive entries
-  private prune(): void {
+  // Entries from the earlier localStorage cache are no longer read
+  private removeLegacyEntries(): void {
     try {
-      const keys = [];
-      const now = Date.now();
-
-      // Gather all our keys
+      const keys: string[] = [];
       for (let i = 0; i < localStorage.length; i++) {
         const key = localStorage.key(i);
-        if (key && key.startsWith(this.STORAGE_PREFIX)) {
+        if (key && key.startsWith(this.LEGACY_STORAGE_PREFIX)) {
           keys.push(key);
         }
       }
-
-      // Check expiry and collect valid entries
-      const validEntries: { key: string; timestamp: number }[] = [];
-
-      keys.forEach((key) => {
-        try {
-          const item = localStorage.getItem(key);
-          if (item) {
-            const parsed = JSON.parse(item);
-            if (now - parsed.timestamp > parsed.ttl) {
-              localStorage.removeItem(key); // Remove expired
-            } else {
-              validEntries.push({ key, timestamp: parsed.timestamp });
-            }
-          }
-        } catch (e) {
-          localStorage.removeItem(key); // Remove corrupted
-        }
-      });
-
-      // Enforce Max Size (remove oldest)
-      if (validEntries.length > this.maxSize) {
-        validEntries.sort((a, b) => a.timestamp - b.timestamp); // Oldest first
-        const toRemove = validEntries.slice(0, validEntries.length - this.maxSize);
-        toRemove.forEach((entry) => localStorage.removeItem(entry.key));
-      }
+      keys.forEach((key) => localStorage.removeItem(key));
     } catch (e) {
-      console.warn("Failed to prune cache:", e);
+      console.warn("Failed to remove legacy cache entries:", e);
     }
   }
 
-  // Get cached data
-  get<T>(key: string): T | null {
-    try {
-      const storageKey = this.getStorageKey(key);
-      const item = localStorage.getItem(storageKey);
-      
-      if (!item) return null;
-
-      const entry: CacheEntry<T> = JSON.parse(item);
+  private remember(key: string, entry: MemoryEntry): void {
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+    if (this.memory.size > this.maxMemoryEntries) {
+      // Oldest inserted = least recently used
+      this.memory.delete(this.memory.keys().next().value!);
+    }
+  }
 
-      // Check if entry is expired
-      if (Date.now() - entry.timestamp > entry.ttl) {
-        localStorage.removeItem(storageKey);
-        return null;
+  // Get cached data
+  async get<T>(key: string): Promise<T | null> {
+    const hot = this.memory.get(key);
+    if (hot) {
+      if (Date.now() - hot.timestamp <= hot.ttl) {
+        this.remember(key, hot);
+        return hot.data as T;
       }
+      this.memory.delete(key);
+    }
+
+    if (!this.store.isAvailable()) return null;
+    try {
+      const json = await this.store.get(key);
+      if (json === null) return null;
 
-      return entry.data;
+      const entry: MemoryEntry = JSON.parse(json);
+      this.remember(key, entry);
+      return entry.data as T;
     } catch (e) {
       console.error("Cache read error:", e);
       return null;
@@ -101,38 +104,24 @@ class CacheService {
   }
 
   // Set cached data
-  set<T>(key: string, data: T, ttl: number = this.defaultTTL): void {
+  async set<T>(key: string, data: T, ttl: number = this.defaultTTL): Promise<void> {
+    const entry: MemoryEntry = { data, timestamp: Date.now(), ttl };
+    this.remember(key, entry);
+
+    if (!this.store.isAvailable()) return;
     try {
-      const storageKey = this.getStorageKey(key);
-      const entry: CacheEntry<T> = {
-        data,
-        timestamp: Date.now(),
-        ttl,
-      };
-      
-      try {
-        localStorage.setItem(storageKey, JSON.stringify(entry));
-      } catch (e: any) {
-        // Handle QuotaExceededError
-        if (e.name === "QuotaExceededError" || e.code === 22) {
-          this.prune(); // Try to make space
-          try {
-             // Try one more time
-             localStorage.setItem(storageKey, JSON.stringify(entry));
-          } catch(retryError) {
-             console.warn("Cache quota exceeded, could not save entry.");
-          }
-        }
-      }
+      await this.store.set(key, this.getNamespace(key), JSON.stringify(entry), ttl);
     } catch (e) {
       console.error("Cache write error:", e);
     }
   }
 
   // Clear specific cache entry
-  delete(key: string): boolean {
+  async delete(key: string): Promise<boolean> {
+    this.memory.delete(key);
+    if (!this.store.isAvailable()) return true;
     try {
-      localStorage.removeItem(this.getStorageKey(key));
+      await this.store.delete(key);
       return true;
     } catch {
       return false;
@@ -140,46 +129,63 @@ class CacheService {
   }
 
   // Clear all cache
-  clear(): void {
+  async clear(): Promise<void> {
+    this.memory.clear();
+    if (!this.store.isAvailable()) return;
     try {
-       const keysToRemove = [];
-       for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key && key.startsWith(this.STORAGE_PREFIX)) {
-          keysToRemove.push(key);
-        }
-      }
-      keysToRemove.forEach(k => localStorage.removeItem(k));
+      await this.store.clear();
     } catch (e) {
       console.error("Cache clear error:", e);
     }
   }
 
-  // Get cache statistics
-  getStats() {
-    // Rough estimate based on keys starting with prefix
-    let count = 0;
-    for (let i = 0; i < localStorage.length; i++) {
-        if (localStorage.key(i)?.startsWith(this.STORAGE_PREFIX)) count++;
+  // Get cache statistics with stored bytes per namespace
+  async getStats(): Promise<CacheStats> {
+    const namespaces = new Map<string, NamespaceStats>();
+    let entries = 0;
+    let bytes = 0;
+
+    try {
+      const now = Date.now();
+      const metas = this.store.isAvailable() ? await this.store.getAllMeta() : [];
+      metas
+        .filter((meta) => now - meta.timestamp <= meta.ttl)
+        .forEach((meta) => {
+          const stats = namespaces.get(meta.namespace) || {
+            namespace: meta.namespace,
+            entries: 0,
+            bytes: 0,
+          };
+          stats.entries++;
+          stats.bytes += meta.bytes;
+          namespaces.set(meta.namespace, stats);
+          entries++;
+          bytes += meta.bytes;
+        });
+    } catch (e) {
+      console.error("Cache stats error:", e);
     }
+
     return {
-      size: count,
-      maxSize: this.maxSize,
-      keys: [], // Too expensive to list all keys in stat
+      entries,
+      bytes,
+      maxBytes: this.maxBytes,
+      memoryEntries: this.memory.size,
+      namespaces: Array.from(namespaces.values()).sort((a, b) => b.bytes - a.bytes),
     };
   }
 
   // Cache API call with automatic key generation
   async cacheAPI<T>(
     prefix: string,
-    params: Record<string, any>,
+    params: Record<string, string | number>,
     fetchFn: () => Promise<T>,
     ttl: number = this.defaultTTL
   ): Promise<T> {
     const key = this.generateKey(prefix, params);
 
     // Try to get from cache first
-    const cached = this.get<T>(key);
+    const cached = await this.get<T>(key);
     if (cached !== null) {
       return cached;
     }
@@ -187,25 +193,26 @@ class CacheService {
     // Fetch fresh data
     const data = await fetchFn();
 
-    // Cache the result
+    // Cache the result; persisting happens in the background
     this.set(key, data, ttl);
 
     return data;
   }
 
-  // Cache location-specific data with longer TTL
+  // Cache location-specific data with longer TTL.
+  // Keys are geohash tiles, so every point inside the same tile shares an entry.
+  // Precision 7 (~150 m) suits area data; use 8 (~40 m) for addresses.
   async cacheLocationData<T>(
     lat: number,
     lng: number,
     dataType: string,
     fetchFn: () => Promise<T>,
-    ttl: number = 30 * 60 * 1000 // 30 minutes for location data
+    ttl: number = 30 * 60 * 1000, // 30 minutes for location data
+    precision: number = 7
   ): Promise<T> {
-    // Round to 3 decimal places (~111 meters precision)
-    // This ensures nearby locations share the same cache for consistency
     return this.cacheAPI(
       `location-${dataType}`,
-      { lat: lat.toFixed(3), lng: lng.toFixed(3) },
+      { tile: encodeGeohash(lat, lng, precision) },
       fetchFn,
       ttl
     );
@@ -215,11 +222,11 @@ class CacheService {
   getCachedLocationData<T>(
     lat: number,
     lng: number,
-    dataType: string
-  ): T | null {
+    dataType: string,
+    precision: number = 7
+  ): Promise<T | null> {
     const key = this.generateKey(`location-${dataType}`, {
-      lat: lat.toFixed(3),
-      lng: lng.toFixed(3),
+      tile: encodeGeohash(lat, lng, precision),
     });
     return this.get<T>(key);
   }
@@ -0,0 +1,213 @@
+// IndexedDB storage backend for the cache service
+// Payloads are gzip-compressed and kept apart from their metadata, so size
+// accounting and LRU eviction never have to read the payloads themselves.
+
+export interface CacheMeta {
+  key: string;
+  namespace: string; // Key prefix, e.g. "overpass-tile" or "ai-response"
+  bytes: number; // Stored (compressed) payload size
+  timestamp: number;
+  ttl: number;
+  lastAccess: number;
+}
+
+interface CachePayload {
+  key: string;
+  payload: Uint8Array | string;
+  compressed: boolean;
+}
+
+// Payloads smaller than this are stored as plain JSON
+const COMPRESSION_THRESHOLD = 1024;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const pipeBytes = async (
+  bytes: Uint8Array,
+  transform: CompressionStream | DecompressionStream
+): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const canCompress = typeof CompressionStream !== "undefined";
+
+const encodePayload = async (
+  json: string
+): Promise<{ payload: Uint8Array | string; compressed: boolean; bytes: number }> => {
+  if (!canCompress || json.length < COMPRESSION_THRESHOLD) {
+    return { payload: json, compressed: false, bytes: json.length * 2 };
+  }
+  const payload = await pipeBytes(
+    textEncoder.encode(json),
+    new CompressionStream("gzip")
+  );
+  return { payload, compressed: true, bytes: payload.byteLength };
+};
+
+const decodePayload = async (record: CachePayload): Promise<string> =>
+  record.compressed
+    ? textDecoder.decode(
+        await pipeBytes(
+          record.payload as Uint8Array,
+          new DecompressionStream("gzip")
+        )
+      )
+    : (record.payload as string);
+
+// Wrap an IndexedDB request in a promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export class IndexedDbCacheStore {
+  private readonly DB_NAME = "futuricity_cache";
+  private readonly META_STORE = "meta";
+  private readonly PAYLOAD_STORE = "payloads";
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly maxBytes: number) {}
+
+  isAvailable(): boolean {
+    return typeof indexedDB !== "undefined";
+  }
+
+  // Stored JSON for a key, or null when missing or expired
+  async get(key: string): Promise<string | null> {
+    const db = await this.openDb();
+    const transaction = db.transaction(
+      [this.META_STORE, this.PAYLOAD_STORE],
+      "readwrite"
+    );
+    const metaStore = transaction.objectStore(this.META_STORE);
+    const meta: CacheMeta | undefined = await promisify(metaStore.get(key));
+    if (!meta) return null;
+
+    if (Date.now() - meta.timestamp > meta.ttl) {
+      metaStore.delete(key);
+      transaction.objectStore(this.PAYLOAD_STORE).delete(key);
+      await transactionDone(transaction);
+      return null;
+    }
+
+    const record: CachePayload | undefined = await promisify(
+      transaction.objectStore(this.PAYLOAD_STORE).get(key)
+    );
+    metaStore.put({ ...meta, lastAccess: Date.now() });
+    await transactionDone(transaction);
+
+    return record ? decodePayload(record) : null;
+  }
+
+  async set(key: string, namespace: string, json: string, ttl: number): Promise<void> {
+    // Compress before opening the transaction; IndexedDB transactions close
+    // when control returns to the event loop without pending requests
+    const { payload, compressed, bytes } = await encodePayload(json);
+    if (bytes > this.maxBytes) return;
+
+    const db = await this.openDb();
+    const transaction = db.transaction(
+      [this.META_STORE, this.PAYLOAD_STORE],
+      "readwrite"
+    );
+    const now = Date.now();
+    const payloadRecord: CachePayload = { key, payload, compressed };
+    const meta: CacheMeta = {
+      key,
+      namespace,
+      bytes,
+      timestamp: now,
+      ttl,
+      lastAccess: now,
+    };
+    transaction.objectStore(this.PAYLOAD_STORE).put(payloadRecord);
+    transaction.objectStore(this.META_STORE).put(meta);
+    await transactionDone(transaction);
+
+    await this.evict();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.deleteKeys([key]);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.openDb();
+    const transaction = db.transaction(
+      [this.META_STORE, this.PAYLOAD_STORE],
+      "readwrite"
+    );
+    transaction.objectStore(this.META_STORE).clear();
+    transaction.objectStore(this.PAYLOAD_STORE).clear();
+    await transactionDone(transaction);
+  }
+
+  // Metadata of every stored entry
+  async getAllMeta(): Promise<CacheMeta[]> {
+    const db = await this.openDb();
+    return promisify(
+      db.transaction(this.META_STORE, "readonly").objectStore(this.META_STORE).getAll()
+    );
+  }
+
+  // Drop expired entries, then least recently used ones until under maxBytes
+  async evict(): Promise<void> {
+    const now = Date.now();
+    const entries = await this.getAllMeta();
+    const expired = entries.filter((e) => now - e.timestamp > e.ttl);
+    const valid = entries
+      .filter((e) => now - e.timestamp <= e.ttl)
+      .sort((a, b) => a.lastAccess - b.lastAccess); // Least recently used first
+
+    let total = valid.reduce((sum, e) => sum + e.bytes, 0);
+    const toRemove = expired.map((e) => e.key);
+    for (const entry of valid) {
+      if (total <= this.maxBytes) break;
+      toRemove.push(entry.key);
+      total -= entry.bytes;
+    }
+
+    if (toRemove.length > 0) await this.deleteKeys(toRemove);
+  }
+
+  private async deleteKeys(keys: string[]): Promise<void> {
+    const db = await this.openDb();
+    const transaction = db.transaction(
+      [this.META_STORE, this.PAYLOAD_STORE],
+      "readwrite"
+    );
+    keys.forEach((key) => {
+      transaction.objectStore(this.META_STORE).delete(key);
+      transaction.objectStore(this.PAYLOAD_STORE).delete(key);
+    });
+    await transactionDone(transaction);
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.META_STORE, { keyPath: "key" });
+          request.result.createObjectStore(this.PAYLOAD_STORE, { keyPath: "key" });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+}
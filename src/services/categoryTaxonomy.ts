@@ -0,0 +1,521 @@
+// Facility category taxonomy
+// One declarative definition per category drives the Overpass queries, the
+// classification of fetched elements, map icons and colours, the legend and the
+// default scoring (search radius, distance decay, subscore weights, quality
+// multipliers). Adding a
+// category is an entry here plus its translation key; the local words for it
+// go into the name-pattern packs.
+// Free of browser APIs; shared with the /api/score edge function.
+import type { DecayConfig } from "./scoringProfileService";
+import type { SubscoreKey } from "./scoringCore";
+import type { QualityMultipliers } from "./facilityQuality";
+import { getCategoryNamePatterns } from "./namePatternPacks";
+
+export type OsmElementType = "node" | "way";
+
+// Tag conditions that must all hold; `true` only requires the key to exist
+export type TagConditions = Record<string, string[] | true>;
+
+export interface TagMatcher {
+  tags: TagConditions;
+  types?: OsmElementType[]; // Element types to query (defaults to nodes and ways)
+  names?: string[]; // Additionally requires one of these name fragments
+  query?: false; // Classification only; too broad to query
+}
+
+// Icon used instead of the category icon when tags or name fragments match
+export interface IconVariant {
+  icon: string;
+  tags?: TagConditions; // Any one condition is enough
+  names?: string[];
+}
+
+export interface CategoryDefinition {
+  priority: number; // Categories are tried in ascending order when classifying
+  matchers: TagMatcher[]; // Name fragments come from the locale name-pattern packs
+  icon: string;
+  iconVariants?: IconVariant[];
+  promptLabel: { en: string; id: string }; // Plural noun used in AI summary prompts
+  color: string;
+  radius: number; // Default search radius (meters)
+  decay: DecayConfig; // Curve ends at the search radius
+  weights: Partial<Record<SubscoreKey, number>>; // Default share in each subscore
+  quality?: QualityMultipliers; // Default multipliers for tagged quality attributes
+  hiddenByDefault?: boolean; // Markers start hidden on the map
+}
+
+export const CATEGORY_TAXONOMY = {
+  health: {
+    priority: 4,
+    matchers: [
+      {
+        tags: {
+          amenity: ["hospital", "clinic", "doctors", "dentist", "pharmacy", "veterinary"],
+        },
+      },
+    ],
+    icon: "🏥",
+    promptLabel: { en: "healthcare", id: "kesehatan" },
+    color: "#ef4444", // red-500
+    radius: 1000,
+    decay: { maxContribution: 10, decayRate: 0.8 },
+    weights: { services: 1.2, safety: 0.8 }, // Hospital access aids safety
+    quality: {
+      open24h: 1.15,
+      emergency: 1.25,
+      "healthcare.hospital": 1.2,
+      "healthcare.doctor": 0.9,
+      "healthcare.dentist": 0.8,
+      "healthcare.pharmacy": 0.9,
+      "healthcare.veterinary": 0.4, // Serves pets, not residents
+      "wheelchair.yes": 1.05,
+      "wheelchair.no": 0.9,
+      beds: 1.2,
+    },
+  },
+  education: {
+    priority: 1,
+    matchers: [
+      {
+        tags: {
+          amenity: ["school", "university", "college", "kindergarten", "library"],
+        },
+      },
+    ],
+    icon: "🏫",
+    promptLabel: { en: "education", id: "pendidikan" },
+    color: "#3b82f6", // blue-500
+    radius: 1000,
+    decay: { maxContribution: 10, decayRate: 0.9 },
+    weights: { services: 1.0 },
+    quality: { "wheelchair.yes": 1.05, "wheelchair.no": 0.9, capacity: 1.15 },
+  },
+  market: {
+    priority: 3,
+    matchers: [
+      { tags: { shop: true } },
+      {
+        tags: {
+          amenity: ["restaurant", "cafe", "fast_food", "food_court", "bar", "pub", "ice_cream", "coffee_shop"],
+        },
+      },
+      { tags: { amenity: ["shop", "store", "market", "retail", "food", "beverage"] } },
+      {
+        tags: {
+          amenity: ["fuel", "gas_station", "petrol_station", "service_station"],
+        },
+      },
+      // Community centres that are really markets
+      {
+        tags: { amenity: ["community_centre"] },
+        names: ["pasar", "market", "pusat", "center", "centre"],
+      },
+    ],
+    icon: "🛒",
+    promptLabel: { en: "shopping", id: "belanja" },
+    iconVariants: [
+      {
+        icon: "⛽",
+        tags: { amenity: ["fuel", "gas_station", "petrol_station", "service_station"] },
+        names: ["spbu", "pom bensin", "gas station", "petrol", "fuel", "bensin", "solar", "pertamina", "shell", "bp", "esso", "caltex"],
+      },
+      {
+        icon: "🍽️",
+        tags: {
+          amenity: ["restaurant", "cafe", "fast_food", "food_court", "bar", "pub", "ice_cream", "coffee_shop"],
+        },
+        names: ["restaurant", "cafe", "warung", "rumah makan", "kedai kopi", "coffee", "bakery", "roti", "cake", "pizza", "burger", "nasi", "mie", "sate", "ayam"],
+      },
+      { icon: "☕", names: ["kopi", "starbucks"] },
+      {
+        icon: "🥐",
+        tags: { shop: ["bakery"], amenity: ["bakery"] },
+        names: ["pastry", "bread", "kue"],
+      },
+      {
+        icon: "🛒",
+        tags: { shop: ["supermarket", "convenience", "grocery"] },
+        names: ["supermarket", "minimarket", "indomaret", "alfamart", "carrefour", "giant", "hypermart", "lotte mart", "grocery", "mr diy"],
+      },
+      {
+        icon: "👕",
+        tags: { shop: ["clothes", "fashion", "jewelry"] },
+        names: ["clothes", "fashion", "baju", "pakaian", "jewelry", "perhiasan", "sepatu", "shoes", "bag", "tas", "accessories"],
+      },
+      {
+        icon: "📱",
+        tags: { shop: ["electronics", "mobile_phone", "computer"] },
+        names: ["electronics", "electronic", "hp", "mobile", "phone", "computer", "laptop", "gadget", "cell", "tech"],
+      },
+      {
+        icon: "💊",
+        tags: { shop: ["pharmacy"], amenity: ["pharmacy"] },
+        names: ["pharmacy", "apotek", "apotik", "drugstore", "obat"],
+      },
+      {
+        icon: "🔨",
+        tags: { shop: ["hardware", "doityourself", "paint"] },
+        names: ["hardware", "bangunan", "material", "paint", "cat", "tools", "alat", "perkakas"],
+      },
+      {
+        icon: "📚",
+        tags: { shop: ["books", "stationery", "newsagent"] },
+        names: ["book", "buku", "stationery", "alat tulis", "paper", "fotocopy", "kertas"],
+      },
+      {
+        icon: "🏪",
+        tags: { shop: ["general", "kiosk"] },
+        names: ["toko", "warung", "kedai", "store", "shop", "convenience"],
+      },
+    ],
+    color: "#a16207", // amber-700
+    radius: 1000,
+    decay: { maxContribution: 8, decayRate: 0.85 },
+    weights: { services: 0.8 }, // Markets are common, lower weight to prevent saturation
+    quality: { open24h: 1.1, "wheelchair.yes": 1.05, "wheelchair.no": 0.95 },
+  },
+  transport: {
+    priority: 5,
+    matchers: [
+      { tags: { public_transport: ["platform", "station", "stop_position"] } },
+      { tags: { highway: ["bus_stop"] }, types: ["node"] },
+      { tags: { railway: ["station", "halt", "tram_stop"] }, types: ["node"] },
+    ],
+    icon: "🚌",
+    promptLabel: { en: "transport", id: "transportasi" },
+    color: "#8b5cf6", // purple-500
+    radius: 1000,
+    decay: { maxContribution: 10, decayRate: 0.95 },
+    weights: { mobility: 1.5 },
+    quality: { "wheelchair.yes": 1.1, "wheelchair.no": 0.85 },
+  },
+  walkability: {
+    priority: 8,
+    matchers: [
+      // Pedestrian-friendly streets, paths, sidewalks and crossings
+      { tags: { highway: ["footway", "pedestrian", "path", "steps", "bridleway"] }, types: ["way"] },
+      { tags: { highway: ["residential", "service"], foot: ["designated"] }, types: ["way"] },
+      { tags: { sidewalk: ["both", "left", "right", "separate"] }, types: ["way"] },
+      { tags: { footway: ["sidewalk", "crossing"] }, types: ["way"] },
+      { tags: { highway: ["crossing"], foot: ["designated"] }, types: ["node"] },
+      {
+        tags: { highway: ["crossing"], crossing: ["zebra", "traffic_signals", "uncontrolled"] },
+        types: ["node"],
+      },
+      // Pedestrian zones and walking routes
+      { tags: { pedestrian: ["yes", "designated", "zone"] }, types: ["way"] },
+      { tags: { route: ["foot", "hiking", "walking"] }, types: ["way"] },
+      // Street furniture and lighting
+      { tags: { amenity: ["bench", "drinking_water"] } },
+      { tags: { highway: ["street_lamp"] }, types: ["node"] },
+      { tags: { highway: true, lit: ["yes"] }, types: ["way"] },
+      // Traffic calming and low-speed streets
+      { tags: { traffic_calming: ["speed_bump", "table", "chicane", "hump", "cushion"] }, types: ["way"] },
+      { tags: { maxspeed: ["20", "30", "40"] }, types: ["way"] },
+      { tags: { "zone:traffic": ["20", "30"] }, types: ["way"] },
+      { tags: { highway: ["residential"], lanes: ["1", "2"] }, types: ["way"] },
+      { tags: { highway: ["service"], lanes: ["1"] }, types: ["way"] },
+      // Green infrastructure for walking
+      { tags: { natural: ["tree_row", "hedge"] }, types: ["way"] },
+      { tags: { landuse: ["grass", "meadow"] }, types: ["way"] },
+      // Any value of these marks pedestrian infrastructure
+      { tags: { sidewalk: true }, query: false },
+      { tags: { pedestrian: true }, query: false },
+      { tags: { lit: ["yes"] }, query: false },
+      { tags: { traffic_calming: true }, query: false },
+      { tags: { maxspeed: true }, query: false },
+    ],
+    icon: "🚶",
+    promptLabel: { en: "walkability", id: "kemudahan jalan kaki" },
+    color: "#fb923c", // orange-400
+    radius: 1000,
+    decay: { maxContribution: 12, decayRate: 0.85 }, // Higher contribution for walkability
+    // Walkability often has MANY items (lamps, benches), so lower weight per item prevents inflation
+    weights: { mobility: 0.5 },
+    hiddenByDefault: true,
+  },
+  recreation: {
+    priority: 7,
+    matchers: [
+      {
+        tags: {
+          leisure: ["park", "playground", "sports_centre", "fitness_centre", "swimming_pool", "garden"],
+        },
+      },
+      { tags: { amenity: ["cinema", "theatre"] } },
+      { tags: { amenity: ["community_centre"] }, query: false },
+    ],
+    icon: "🌳",
+    promptLabel: { en: "recreation", id: "rekreasi" },
+    color: "#14b8a6", // teal-500
+    radius: 1000,
+    decay: { maxContribution: 8, decayRate: 0.8 },
+    weights: { environment: 2.5 }, // 4 good parks (4x10=40) * 2.5 = 100
+    quality: { "wheelchair.yes": 1.05, "wheelchair.no": 0.9, capacity: 1.1 },
+  },
+  safety: {
+    priority: 10,
+    matchers: [
+      // Street lighting, crossings and signals
+      { tags: { highway: ["street_lamp"] }, types: ["node"] },
+      { tags: { highway: true, lit: ["yes"] }, types: ["way"] },
+      { tags: { highway: ["crossing", "traffic_signals"] }, types: ["node"] },
+      // Traffic calming, speed limits and sidewalks
+      { tags: { traffic_calming: true }, types: ["way"] },
+      { tags: { maxspeed: true }, types: ["way"] },
+      { tags: { sidewalk: true }, types: ["way"] },
+      { tags: { footway: ["sidewalk"] }, types: ["way"] },
+      { tags: { kerb: ["lowered"] }, types: ["way"] },
+      // Emergency response (police has its own category)
+      { tags: { amenity: ["fire_station", "hospital"] } },
+      // Surveillance
+      { tags: { man_made: ["surveillance"] } },
+      { tags: { "surveillance:type": ["camera"] } },
+    ],
+    icon: "🚦",
+    promptLabel: { en: "safety infrastructure", id: "infrastruktur keamanan" },
+    color: "#10b981", // green-500
+    radius: 1000,
+    decay: { maxContribution: 6, decayRate: 0.7 },
+    weights: { safety: 0.6 }, // Safety infra (lamps etc) is abundant, weight low
+    quality: { emergency: 1.2 }, // Hospitals with an emergency department
+  },
+  accessibility: {
+    priority: 9,
+    matchers: [
+      { tags: { barrier: ["kerb"] } },
+      { tags: { kerb: ["lowered", "flush"] } },
+      { tags: { highway: ["elevator"] } },
+      { tags: { highway: ["steps"], incline: true } },
+      { tags: { amenity: ["parking"], access: ["designated"] } },
+      { tags: { tactile_paving: ["yes"] } },
+      { tags: { amenity: ["toilets"], wheelchair: ["yes"] } },
+    ],
+    icon: "♿",
+    promptLabel: { en: "accessibility features", id: "fasilitas aksesibilitas" },
+    color: "#ec4899", // pink-500
+    radius: 1000,
+    decay: { maxContribution: 4, decayRate: 0.9 },
+    weights: { safety: 1.0 },
+  },
+  police: {
+    priority: 2,
+    matchers: [{ tags: { amenity: ["police"] } }],
+    icon: "👮",
+    promptLabel: { en: "police", id: "kepolisian" },
+    color: "#6366f1", // indigo-500
+    radius: 1000,
+    decay: { maxContribution: 8, decayRate: 0.6 },
+    weights: { safety: 2.0 }, // Police stations are rare, weight high
+    quality: { open24h: 1.1 },
+  },
+  religious: {
+    priority: 6,
+    matchers: [
+      {
+        tags: {
+          amenity: ["place_of_worship", "mosque", "church", "temple", "synagogue", "hindu_temple", "buddhist_temple"],
+        },
+      },
+    ],
+    icon: "🙏",
+    promptLabel: { en: "places of worship", id: "tempat ibadah" },
+    iconVariants: [
+      { icon: "⛪", names: ["church", "cathedral", "chapel", "basilica", "gereja", "katedral", "kapel"] },
+      { icon: "🕌", names: ["mosque", "masjid", "surau", "musholla", "langgar"] },
+      { icon: "🕉️", names: ["temple", "mandir", "gurdwara", "pura", "candi"] },
+      { icon: "🕍", names: ["synagogue", "jewish", "jew", "sinagoga", "rumah ibadat yahudi"] },
+      { icon: "🏛️", names: ["buddhist", "pagoda", "vihara", "klenteng", "wihara"] },
+      { icon: "🕉️", names: ["sikh", "rumah ibadat sikh"] },
+      { icon: "🏛️", names: ["kelenteng"] },
+    ],
+    color: "#d1d5db", // gray-300
+    radius: 1000,
+    decay: { maxContribution: 6, decayRate: 0.75 },
+    weights: { services: 0.8 },
+    quality: { "wheelchair.yes": 1.05, capacity: 1.1 },
+  },
+} satisfies Record<string, CategoryDefinition>;
+
+export type FacilityCategory = keyof typeof CATEGORY_TAXONOMY;
+
+// Categories in display order
+export const CATEGORY_KEYS = Object.keys(CATEGORY_TAXONOMY) as FacilityCategory[];
+
+const DEFAULT_ICON = "📍";
+const DEFAULT_COLOR = "#6b7280";
+
+export const getCategoryDefinition = (
+  category: string
+): CategoryDefinition | undefined =>
+  (CATEGORY_TAXONOMY as Record<string, CategoryDefinition>)[category];
+
+// "12 healthcare, 3 education, ..." for every category, for AI summary prompts
+export const describeFacilityCounts = (
+  counts: Partial<Record<string, number>>,
+  language: "en" | "id" = "en"
+): string =>
+  CATEGORY_KEYS.map(
+    (category) =>
+      `${counts[category] ?? 0} ${CATEGORY_TAXONOMY[category].promptLabel[language]}`
+  ).join(", ");
+
+// Categories weighted in a subscore by default
+export const getSubscoreCategories = (subscore: SubscoreKey): FacilityCategory[] =>
+  CATEGORY_KEYS.filter(
+    (category) => (getCategoryDefinition(category)?.weights[subscore] ?? 0) > 0
+  );
+
+// A value of zero for every category
+export const createCategoryRecord = (): Record<FacilityCategory, number> =>
+  Object.fromEntries(CATEGORY_KEYS.map((category) => [category, 0])) as Record<
+    FacilityCategory,
+    number
+  >;
+
+const matchesConditions = (
+  tags: Record<string, string>,
+  conditions: TagConditions
+): boolean =>
+  Object.entries(conditions).every(([key, values]) =>
+    values === true ? tags[key] !== undefined : values.includes(tags[key])
+  );
+
+// Fragments up to this length are abbreviations or short words ("pp", "tk",
+// "poli") and only match whole words; longer ones match at the start of a word
+const WHOLE_WORD_LENGTH = 4;
+
+const fragmentPatterns = new Map<string, RegExp>();
+
+// Position of a name fragment in a lowercase name, or -1
+const findFragment = (name: string, fragment: string): number => {
+  let pattern = fragmentPatterns.get(fragment);
+  if (!pattern) {
+    const word = fragment.trim();
+    const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    pattern = new RegExp(
+      `(?<![\\p{L}\\p{M}\\p{N}])${escaped}` +
+        (word.length <= WHOLE_WORD_LENGTH ? "(?![\\p{L}\\p{M}\\p{N}])" : ""),
+      "u"
+    );
+    fragmentPatterns.set(fragment, pattern);
+  }
+  return name.search(pattern);
+};
+
+const nameIncludes = (name: string, fragments: string[] | undefined): boolean =>
+  !!fragments && fragments.some((fragment) => findFragment(name, fragment) !== -1);
+
+// Whether an element's tags belong to a category
+const matchesCategoryTags = (
+  category: FacilityCategory,
+  tags: Record<string, string>
+): boolean => {
+  const name = tags.name?.toLowerCase() || "";
+  return (CATEGORY_TAXONOMY[category] as CategoryDefinition).matchers.some(
+    (matcher) =>
+      matchesConditions(tags, matcher.tags) &&
+      (!matcher.names || nameIncludes(name, matcher.names))
+  );
+};
+
+// Categories ordered for classification
+const CLASSIFICATION_ORDER = [...CATEGORY_KEYS].sort(
+  (a, b) => CATEGORY_TAXONOMY[a].priority - CATEGORY_TAXONOMY[b].priority
+);
+
+// Category of an OSM element: the first category by priority whose tags match.
+// Untagged elements go by the name-pattern pack word found earliest in the name
+// ("Bệnh viện Chợ Rẫy" is a hospital, not a market), else the category whose
+// query returned them.
+export const classifyElement = (
+  tags: Record<string, string> | undefined,
+  fallback: string,
+  namePack?: string
+): string => {
+  if (!tags) return fallback;
+  const byTags = CLASSIFICATION_ORDER.find((category) =>
+    matchesCategoryTags(category, tags)
+  );
+  if (byTags) return byTags;
+
+  const name = tags.name?.toLowerCase() || "";
+  let byName: FacilityCategory | undefined;
+  let earliest = Infinity;
+  CLASSIFICATION_ORDER.forEach((category) =>
+    getCategoryNamePatterns(category, namePack).forEach((fragment) => {
+      const index = findFragment(name, fragment);
+      if (index !== -1 && index < earliest) {
+        byName = category;
+        earliest = index;
+      }
+    })
+  );
+  return byName || fallback;
+};
+
+// Overpass filter for a set of tag conditions, e.g. ["amenity"~"^(a|b)$"]
+const tagFilter = (conditions: TagConditions): string =>
+  Object.entries(conditions)
+    .map(([key, values]) =>
+      values === true
+        ? `["${key}"]`
+        : values.length === 1
+        ? `["${key}"="${values[0]}"]`
+        : `["${key}"~"^(${values.join("|")})$"]`
+    )
+    .join("");
+
+const namePrefixFilter = (fragments: string[]): string =>
+  `["name"~"^(${fragments.map((fragment) => fragment.trim()).join("|")})"]`;
+
+// Overpass statements for a category, each ending in `areaFilter`
+export const categoryStatements = (
+  category: string,
+  areaFilter: string,
+  namePack?: string
+): string[] => {
+  const definition = getCategoryDefinition(category);
+  if (!definition) return [];
+
+  const statements: string[] = [];
+  definition.matchers.forEach((matcher) => {
+    if (matcher.query === false) return;
+    const filter =
+      tagFilter(matcher.tags) + (matcher.names ? namePrefixFilter(matcher.names) : "");
+    (matcher.types || ["node", "way"]).forEach((type) =>
+      statements.push(`${type}${filter}${areaFilter};`)
+    );
+  });
+  const namePatterns = getCategoryNamePatterns(category, namePack);
+  if (namePatterns.length > 0) {
+    const filter = namePrefixFilter(namePatterns);
+    statements.push(`node${filter}${areaFilter};`, `way${filter}${areaFilter};`);
+  }
+  return statements;
+};
+
+export const getCategoryColor = (category: string): string =>
+  getCategoryDefinition(category)?.color || DEFAULT_COLOR;
+
+// Map icon for a facility, refined by the category's icon variants
+export const getCategoryIcon = (
+  category: string,
+  name = "",
+  tags?: Record<string, string>
+): string => {
+  const definition = getCategoryDefinition(category);
+  if (!definition) return DEFAULT_ICON;
+
+  const lowerName = name.toLowerCase();
+  const variant = definition.iconVariants?.find(
+    (v) =>
+      (tags &&
+        v.tags &&
+        Object.entries(v.tags).some(([key, values]) =>
+          matchesConditions(tags, { [key]: values })
+        )) ||
+      nameIncludes(lowerName, v.names)
+  );
+  return variant?.icon || definition.icon;
+};
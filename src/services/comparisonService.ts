@@ -0,0 +1,108 @@
+// Service for pinning analyzed locations to compare them side by side
+// Stores data in localStorage for persistence
+import type { LiveabilityData } from "./livabilityService";
+
+export interface PinnedLocation {
+  id: string;
+  label: string;
+  color: string; // Marker colour on the map and series colour in charts
+  lat: number;
+  lng: number;
+  data: LiveabilityData;
+  profileName?: string; // Scoring profile used for the analysis
+  pinnedAt: number;
+}
+
+// Maximum number of locations that can be compared at once
+export const MAX_PINNED_LOCATIONS = 5;
+
+// One colour per pin slot
+export const PIN_COLORS = ["#2563eb", "#f97316", "#16a34a", "#9333ea", "#db2777"];
+
+class ComparisonService {
+  private readonly STORAGE_KEY = "futuricity_pinned_locations";
+
+  // Get pinned locations in the order they were pinned
+  getPinnedLocations(): PinnedLocation[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return [];
+      return JSON.parse(stored);
+    } catch (error) {
+      console.error("Error loading pinned locations:", error);
+      return [];
+    }
+  }
+
+  // Pin an analyzed location. Re-pinning the same coordinates replaces the old entry.
+  // Returns null when the comparison is already full.
+  pinLocation(
+    data: LiveabilityData,
+    profileName?: string
+  ): PinnedLocation | null {
+    if (!data.location) return null;
+
+    const { lat, lng } = data.location.coordinates;
+    const pinned = this.getPinnedLocations();
+    const existing = pinned.find((p) => p.lat === lat && p.lng === lng);
+    const others = pinned.filter((p) => p !== existing);
+
+    if (!existing && pinned.length >= MAX_PINNED_LOCATIONS) {
+      return null;
+    }
+
+    // Reuse the existing colour, otherwise pick the first unused one
+    const usedColors = others.map((p) => p.color);
+    const color =
+      existing?.color ||
+      PIN_COLORS.find((c) => !usedColors.includes(c)) ||
+      PIN_COLORS[0];
+
+    const location: PinnedLocation = {
+      id:
+        existing?.id ||
+        `pin_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      label: data.location.address,
+      color,
+      lat,
+      lng,
+      data,
+      profileName,
+      pinnedAt: existing?.pinnedAt || Date.now(),
+    };
+
+    const updated = existing
+      ? pinned.map((p) => (p.id === existing.id ? location : p))
+      : [...pinned, location];
+    this.savePinnedLocations(updated);
+
+    return location;
+  }
+
+  // Remove a single pinned location
+  unpinLocation(id: string): void {
+    this.savePinnedLocations(
+      this.getPinnedLocations().filter((p) => p.id !== id)
+    );
+  }
+
+  // Remove all pinned locations
+  clearPinnedLocations(): void {
+    try {
+      localStorage.removeItem(this.STORAGE_KEY);
+    } catch (error) {
+      console.error("Error clearing pinned locations:", error);
+    }
+  }
+
+  private savePinnedLocations(pinned: PinnedLocation[]): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(pinned));
+    } catch (error) {
+      console.error("Error saving pinned locations:", error);
+    }
+  }
+}
+
+// Export singleton instance
+export const comparisonService = new ComparisonService();
@@ -0,0 +1,337 @@
+// Facility deduplication
+// OSM often maps one place several times: a node plus a building outline, or the
+// same shop twice with slightly different names. Facilities of one category are
+// bucketed on a grid so only neighbours are compared, then merged when a node
+// lies inside a way's bounding box or when they are close and their normalized names
+// are similar. Merged facilities keep every source element and why it was merged.
+// Free of browser APIs; shared with the /api/score edge function.
+import type { Facility, FacilitySource } from "./scoringCore";
+import type { OverpassElement } from "./spatialIndexService";
+import { getNamePack } from "./namePatternPacks";
+
+// Facilities closer than this (meters) are compared by name
+export const DEDUP_DISTANCE = 50;
+
+// Normalized names at least this similar (0-1) belong to one facility
+export const NAME_SIMILARITY_THRESHOLD = 0.8;
+
+// Ways spanning more than this (meters) are streets or districts, not buildings
+const MAX_OUTLINE_SPAN = 1000;
+
+const METERS_PER_DEGREE = 111320;
+
+// A classified facility with the OSM element it came from
+export interface DedupCandidate {
+  facility: Facility;
+  element: OverpassElement;
+}
+
+interface Outline {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+interface Cluster {
+  anchor: DedupCandidate; // Member the others are compared with
+  outline?: Outline;
+  members: Array<{ candidate: DedupCandidate; source: FacilitySource }>;
+}
+
+export const getOsmId = (element: OverpassElement): string =>
+  `${element.type}/${element.id}`;
+
+// Lowercase, accent-free words of a name with the pack's aliases applied,
+// so "Sekolah Dasar Negeri 1" and "SD Negeri 1" both become "sd negeri 1"
+export const normalizeFacilityName = (name: string, namePack?: string): string => {
+  const clean = (text: string) =>
+    text
+      .toLowerCase()
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/đ/g, "d")
+      .replace(/[^\p{L}\p{N}]+/gu, " ")
+      .trim();
+
+  let normalized = ` ${clean(name)} `;
+  Object.entries(getNamePack(namePack).nameAliases)
+    .map(([alias, canonical]) => [clean(alias), clean(canonical)])
+    .sort((a, b) => b[0].length - a[0].length)
+    .forEach(([alias, canonical]) => {
+      normalized = normalized.split(` ${alias} `).join(` ${canonical} `);
+    });
+  return normalized.replace(/\s+/g, " ").trim();
+};
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Short words must match exactly, longer ones may differ by a typo
+const wordsMatch = (a: string, b: string): boolean =>
+  a === b ||
+  (Math.min(a.length, b.length) >= 4 &&
+    1 - editDistance(a, b) / Math.max(a.length, b.length) >= 0.8);
+
+// Similarity (0-1) of two normalized names. Names with different numbers never
+// match ("SD Negeri 1" vs "SD Negeri 2"); a name whose words all appear in the
+// other counts as the same ("Indomaret" vs "Indomaret Kemang").
+export const nameSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const wordsA = a.split(" ");
+  const wordsB = b.split(" ");
+  const numbers = (words: string[]) =>
+    words.filter((word) => /\d/.test(word)).sort().join(" ");
+  if (numbers(wordsA) !== numbers(wordsB)) return 0;
+
+  const unmatched = [...wordsB];
+  let matched = 0;
+  wordsA.forEach((word) => {
+    const index = unmatched.findIndex((other) => wordsMatch(word, other));
+    if (index !== -1) {
+      unmatched.splice(index, 1);
+      matched++;
+    }
+  });
+  const dice = (2 * matched) / (wordsA.length + wordsB.length);
+  const containment = matched / Math.min(wordsA.length, wordsB.length);
+  return Math.max(dice, containment);
+};
+
+const distanceBetween = (a: Facility, b: Facility): number => {
+  const dLat = (a.lat - b.lat) * METERS_PER_DEGREE;
+  const dLng =
+    (a.lng - b.lng) * METERS_PER_DEGREE * Math.cos((a.lat * Math.PI) / 180);
+  return Math.sqrt(dLat * dLat + dLng * dLng);
+};
+
+// Outline of a way as its bounding box (category ways are fetched with
+// `out bb`, without geometry); null for streets and other ways too large to be
+// a single facility
+const getOutline = (element: OverpassElement): Outline | null => {
+  if (element.type !== "way" || !element.bounds) return null;
+  const bounds = element.bounds;
+
+  const span = Math.max(
+    (bounds.maxlat - bounds.minlat) * METERS_PER_DEGREE,
+    (bounds.maxlon - bounds.minlon) *
+      METERS_PER_DEGREE *
+      Math.cos((bounds.minlat * Math.PI) / 180)
+  );
+  if (span > MAX_OUTLINE_SPAN) return null;
+
+  return {
+    south: bounds.minlat,
+    west: bounds.minlon,
+    north: bounds.maxlat,
+    east: bounds.maxlon,
+  };
+};
+
+// Whether a point lies inside an outline's bounding box
+const insideOutline = (lat: number, lng: number, outline: Outline): boolean =>
+  lat >= outline.south &&
+  lat <= outline.north &&
+  lng >= outline.west &&
+  lng <= outline.east;
+
+// Tags naming what an element is, in order of preference
+const KIND_KEYS = ["amenity", "shop", "leisure", "highway", "railway", "public_transport", "man_made", "barrier"];
+
+// What an element is, e.g. "amenity=hospital" or "highway=street_lamp"
+const getKind = (facility: Facility): string | undefined => {
+  const key = KIND_KEYS.find((k) => facility.tags?.[k]);
+  return key && `${key}=${facility.tags[key]}`;
+};
+
+class GridIndex {
+  private cells = new Map<string, Cluster[]>();
+  private readonly latSize: number;
+  private readonly lngSize: number;
+
+  constructor(referenceLat: number) {
+    this.latSize = DEDUP_DISTANCE / METERS_PER_DEGREE;
+    this.lngSize =
+      DEDUP_DISTANCE /
+      (METERS_PER_DEGREE * Math.max(Math.cos((referenceLat * Math.PI) / 180), 0.01));
+  }
+
+  private cell(lat: number, lng: number): [number, number] {
+    return [Math.floor(lat / this.latSize), Math.floor(lng / this.lngSize)];
+  }
+
+  // Register a cluster in the cell of its anchor, or every cell of its outline
+  add(cluster: Cluster): void {
+    const { lat, lng } = cluster.anchor.facility;
+    const [south, west] = cluster.outline
+      ? this.cell(cluster.outline.south, cluster.outline.west)
+      : this.cell(lat, lng);
+    const [north, east] = cluster.outline
+      ? this.cell(cluster.outline.north, cluster.outline.east)
+      : [south, west];
+    for (let y = south; y <= north; y++) {
+      for (let x = west; x <= east; x++) {
+        const key = `${y}:${x}`;
+        const clusters = this.cells.get(key);
+        if (clusters) clusters.push(cluster);
+        else this.cells.set(key, [cluster]);
+      }
+    }
+  }
+
+  // Clusters registered in the cell of a point and its eight neighbours
+  near(lat: number, lng: number): Cluster[] {
+    const [y, x] = this.cell(lat, lng);
+    const found = new Set<Cluster>();
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        this.cells.get(`${y + dy}:${x + dx}`)?.forEach((c) => found.add(c));
+      }
+    }
+    return Array.from(found);
+  }
+}
+
+// How a candidate joins a cluster, or null when it is a different facility
+const matchCluster = (
+  cluster: Cluster,
+  candidate: DedupCandidate,
+  normalizedNames: Map<DedupCandidate, string>
+): FacilitySource | null => {
+  const anchor = cluster.anchor.facility;
+  const facility = candidate.facility;
+  const distance = Math.round(distanceBetween(anchor, facility));
+
+  // Named elements are compared by name; an unnamed one by what it is
+  const bothNamed = !!anchor.tags?.name && !!facility.tags?.name;
+  const similarity = bothNamed
+    ? nameSimilarity(normalizedNames.get(cluster.anchor)!, normalizedNames.get(candidate)!)
+    : undefined;
+  const same = bothNamed
+    ? similarity! >= NAME_SIMILARITY_THRESHOLD
+    : !!getKind(anchor) && getKind(anchor) === getKind(facility);
+  if (!same) return null;
+
+  const source: FacilitySource = {
+    osmId: getOsmId(candidate.element),
+    name: facility.name,
+    tags: facility.tags,
+    distance,
+    similarity,
+  };
+  if (
+    cluster.outline &&
+    candidate.element.type === "node" &&
+    insideOutline(facility.lat, facility.lng, cluster.outline)
+  ) {
+    return { ...source, reason: "node-in-way" };
+  }
+  if (distance <= DEDUP_DISTANCE) {
+    return { ...source, reason: "nearby" };
+  }
+  return null;
+};
+
+// Merge duplicate facilities. Each OSM element counts once; within a category
+// ways are placed first so nodes inside them can join, and every facility is
+// compared with the first member of nearby clusters only, so rows of street
+// lamps do not chain into one facility. A merged facility uses the member with
+// the highest contribution, the union of all tags and lists every source.
+export const dedupeFacilities = (
+  candidates: DedupCandidate[],
+  namePack?: string
+): Facility[] => {
+  const seen = new Set<string>();
+  const unique = candidates.filter((candidate) => {
+    const osmId = getOsmId(candidate.element);
+    if (seen.has(osmId)) return false;
+    seen.add(osmId);
+    return true;
+  });
+  if (unique.length === 0) return [];
+
+  const normalizedNames = new Map(
+    unique.map((candidate) => [
+      candidate,
+      normalizeFacilityName(candidate.facility.tags?.name || "", namePack),
+    ])
+  );
+
+  const byCategory = new Map<string, DedupCandidate[]>();
+  unique.forEach((candidate) => {
+    const list = byCategory.get(candidate.facility.category);
+    if (list) list.push(candidate);
+    else byCategory.set(candidate.facility.category, [candidate]);
+  });
+
+  const clusters: Cluster[] = [];
+  byCategory.forEach((list) => {
+    const grid = new GridIndex(list[0].facility.lat);
+    const ordered = [
+      ...list.filter((c) => c.element.type === "way"),
+      ...list.filter((c) => c.element.type !== "way"),
+    ];
+
+    ordered.forEach((candidate) => {
+      const { lat, lng } = candidate.facility;
+      for (const cluster of grid.near(lat, lng)) {
+        const source = matchCluster(cluster, candidate, normalizedNames);
+        if (source) {
+          cluster.members.push({ candidate, source });
+          return;
+        }
+      }
+
+      const cluster: Cluster = {
+        anchor: candidate,
+        outline: getOutline(candidate.element) || undefined,
+        members: [
+          {
+            candidate,
+            source: {
+              osmId: getOsmId(candidate.element),
+              name: candidate.facility.name,
+              tags: candidate.facility.tags,
+            },
+          },
+        ],
+      };
+      grid.add(cluster);
+      clusters.push(cluster);
+    });
+  });
+
+  return clusters.map((cluster) => {
+    if (cluster.members.length === 1) return cluster.anchor.facility;
+
+    const kept = cluster.members.reduce((best, member) =>
+      member.candidate.facility.contribution > best.candidate.facility.contribution
+        ? member
+        : best
+    ).candidate.facility;
+    const tags = cluster.members.reduce(
+      (merged, member) => ({ ...member.candidate.facility.tags, ...merged }),
+      kept.tags || {}
+    );
+    return {
+      ...kept,
+      tags,
+      sources: cluster.members.map((member) => member.source),
+    };
+  });
+};
@@ -0,0 +1,137 @@
+// Facility quality attributes
+// Two facilities of one category are not always worth the same: a hospital with
+// an emergency department open around the clock serves more needs than a vet
+// clinic. Quality attributes are read from OSM tags (opening_hours, emergency,
+// healthcare, wheelchair, beds, capacity) and each category maps them to
+// multipliers on the facility's distance contribution. Defaults live in the
+// category taxonomy; scoring profiles can override them.
+// Free of browser APIs; shared with the /api/score edge function.
+import { getOpeningHours, isAlwaysOpen } from "./openingHours";
+
+export const QUALITY_FACTORS = [
+  "open24h",
+  "emergency",
+  "healthcare.hospital",
+  "healthcare.clinic",
+  "healthcare.doctor",
+  "healthcare.dentist",
+  "healthcare.pharmacy",
+  "healthcare.veterinary",
+  "wheelchair.yes",
+  "wheelchair.limited",
+  "wheelchair.no",
+  "beds",
+  "capacity",
+] as const;
+
+export type QualityFactor = (typeof QUALITY_FACTORS)[number];
+
+// Multiplier per attribute; attributes without one leave the contribution as is.
+// For "beds" and "capacity" the multiplier is reached at the reference size and
+// scaled linearly below it.
+export type QualityMultipliers = Partial<Record<QualityFactor, number>>;
+
+// Size at which the "beds" and "capacity" multipliers apply in full
+export const SIZE_REFERENCE: Record<"beds" | "capacity", number> = {
+  beds: 200,
+  capacity: 500,
+};
+
+// Bounds of the combined multiplier, so stacked attributes stay plausible
+export const MIN_QUALITY_MULTIPLIER = 0.25;
+export const MAX_QUALITY_MULTIPLIER = 2;
+
+export type WheelchairAccess = "yes" | "limited" | "no";
+
+// Quality-relevant attributes of a facility, as tagged in OSM
+export interface FacilityAttributes {
+  openingHours?: string; // Raw opening_hours value
+  open24h: boolean;
+  emergency: boolean;
+  healthcare?: string; // e.g. "hospital", "pharmacy"
+  wheelchair?: WheelchairAccess;
+  beds?: number;
+  capacity?: number;
+}
+
+// An attribute that changed a facility's contribution
+export interface QualityHit {
+  factor: QualityFactor;
+  multiplier: number; // Effective multiplier (scaled for sizes)
+}
+
+export interface FacilityQuality {
+  multiplier: number; // Product of the hits, clamped
+  hits: QualityHit[];
+}
+
+// amenity values that double as healthcare types
+const AMENITY_HEALTHCARE: Record<string, string> = {
+  hospital: "hospital",
+  clinic: "clinic",
+  doctors: "doctor",
+  dentist: "dentist",
+  pharmacy: "pharmacy",
+  veterinary: "veterinary",
+};
+
+const parseCount = (value: unknown): number | undefined => {
+  const parsed = parseInt(String(value ?? ""), 10);
+  return parsed > 0 ? parsed : undefined;
+};
+
+// Read the quality attributes from a facility's OSM tags
+export const getFacilityAttributes = (
+  tags: Record<string, string> | undefined
+): FacilityAttributes => {
+  const openingHours = tags?.opening_hours?.trim() || undefined;
+  const hours = getOpeningHours(openingHours);
+  const wheelchair = tags?.wheelchair;
+  return {
+    openingHours,
+    open24h: !!hours && isAlwaysOpen(hours),
+    emergency: tags?.emergency === "yes",
+    healthcare:
+      tags?.healthcare || (tags?.amenity && AMENITY_HEALTHCARE[tags.amenity]),
+    wheelchair:
+      wheelchair === "yes" || wheelchair === "limited" || wheelchair === "no"
+        ? wheelchair
+        : undefined,
+    beds: parseCount(tags?.beds),
+    capacity: parseCount(tags?.capacity),
+  };
+};
+
+// Multiplier for a facility's contribution under a category's quality multipliers
+export const getFacilityQuality = (
+  tags: Record<string, string> | undefined,
+  multipliers: QualityMultipliers
+): FacilityQuality => {
+  const attributes = getFacilityAttributes(tags);
+  const hits: QualityHit[] = [];
+  const add = (factor: QualityFactor, scale = 1) => {
+    const value = multipliers[factor];
+    if (value === undefined || value === 1) return;
+    hits.push({ factor, multiplier: 1 + (value - 1) * Math.min(1, scale) });
+  };
+
+  if (attributes.open24h) add("open24h");
+  if (attributes.emergency) add("emergency");
+  if (attributes.healthcare) {
+    add(`healthcare.${attributes.healthcare}` as QualityFactor);
+  }
+  if (attributes.wheelchair) add(`wheelchair.${attributes.wheelchair}`);
+  if (attributes.beds) add("beds", attributes.beds / SIZE_REFERENCE.beds);
+  if (attributes.capacity) {
+    add("capacity", attributes.capacity / SIZE_REFERENCE.capacity);
+  }
+
+  const product = hits.reduce((total, hit) => total * hit.multiplier, 1);
+  return {
+    multiplier: Math.min(
+      MAX_QUALITY_MULTIPLIER,
+      Math.max(MIN_QUALITY_MULTIPLIER, product)
+    ),
+    hits,
+  };
+};
@@ -0,0 +1,77 @@
+// Address search and reverse geocoding with OpenStreetMap Nominatim
+// Results are cached per query; Nominatim allows at most one request per second.
+import { cacheService } from "./cacheService";
+
+export interface GeocodeResult {
+  display_name: string;
+  lat: string;
+  lon: string;
+  place_id: string;
+  address?: Record<string, string>; // Address details, e.g. country_code
+}
+
+// Minimum delay between uncached Nominatim requests in bulk use
+export const NOMINATIM_MIN_INTERVAL = 1100;
+
+// Search for places matching a free-text query
+export const searchAddress = async (query: string): Promise<GeocodeResult[]> =>
+  cacheService.cacheSearchResults(query, async () => {
+    const response = await fetch(
+      `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(
+        query
+      )}&limit=5&addressdetails=1`
+    );
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  });
+
+// Best match for an address, or null when nothing was found
+export const geocodeAddress = async (
+  query: string
+): Promise<{
+  lat: number;
+  lng: number;
+  address: string;
+  countryCode?: string;
+} | null> => {
+  const results = await searchAddress(query);
+  if (!results || results.length === 0) return null;
+  return {
+    lat: parseFloat(results[0].lat),
+    lng: parseFloat(results[0].lon),
+    address: results[0].display_name,
+    countryCode: results[0].address?.country_code,
+  };
+};
+
+// Address and country of a map position; falls back to the coordinates
+export const reverseGeocode = async (
+  lat: number,
+  lng: number
+): Promise<{ address: string; countryCode?: string }> =>
+  cacheService.cacheLocationData(
+    lat,
+    lng,
+    "place",
+    async () => {
+      try {
+        const response = await fetch(
+          `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}&addressdetails=1&zoom=18`
+        );
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        const data = await response.json();
+        return {
+          address: data.display_name || `${lat.toFixed(4)}, ${lng.toFixed(4)}`,
+          countryCode: data.address?.country_code,
+        };
+      } catch (error) {
+        return { address: `${lat.toFixed(4)}, ${lng.toFixed(4)}` };
+      }
+    },
+    60 * 60 * 1000, // 1 hour cache for addresses
+    8 // ~40 m tiles so nearby clicks share an address
+  );
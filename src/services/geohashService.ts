@@ -0,0 +1,162 @@
+// Geohash utilities
+// Encodes coordinates into geohash cells, used to key cached and indexed data
+// by geographic tile, plus the distance and bounds helpers shared by the services.
+
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+export const encodeGeohash = (
+  lat: number,
+  lng: number,
+  precision: number
+): string => {
+  let latMin = -90;
+  let latMax = 90;
+  let lngMin = -180;
+  let lngMax = 180;
+  let hash = "";
+  let bit = 0;
+  let value = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lngMin + lngMax) / 2;
+      if (lng >= mid) {
+        value = value * 2 + 1;
+        lngMin = mid;
+      } else {
+        value = value * 2;
+        lngMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (lat >= mid) {
+        value = value * 2 + 1;
+        latMin = mid;
+      } else {
+        value = value * 2;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bit === 5) {
+      hash += BASE32[value];
+      bit = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+};
+
+export const decodeGeohashBounds = (hash: string): GeoBounds => {
+  let latMin = -90;
+  let latMax = 90;
+  let lngMin = -180;
+  let lngMax = 180;
+  let evenBit = true;
+
+  for (const char of hash) {
+    const value = BASE32.indexOf(char);
+    for (let n = 4; n >= 0; n--) {
+      const bitN = (value >> n) & 1;
+      if (evenBit) {
+        const mid = (lngMin + lngMax) / 2;
+        if (bitN === 1) lngMin = mid;
+        else lngMax = mid;
+      } else {
+        const mid = (latMin + latMax) / 2;
+        if (bitN === 1) latMin = mid;
+        else latMax = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return { south: latMin, west: lngMin, north: latMax, east: lngMax };
+};
+
+// Size of a geohash cell in degrees
+const cellSize = (precision: number) => {
+  const bits = precision * 5;
+  const lngBits = Math.ceil(bits / 2);
+  const latBits = Math.floor(bits / 2);
+  return { lat: 180 / Math.pow(2, latBits), lng: 360 / Math.pow(2, lngBits) };
+};
+
+// All geohash cells of the given precision that intersect the bounds
+export const geohashesInBounds = (
+  bounds: GeoBounds,
+  precision: number
+): string[] => {
+  const size = cellSize(precision);
+  const hashes = new Set<string>();
+  for (let lat = bounds.south; lat < bounds.north + size.lat; lat += size.lat) {
+    for (let lng = bounds.west; lng < bounds.east + size.lng; lng += size.lng) {
+      hashes.add(
+        encodeGeohash(
+          Math.min(lat, bounds.north),
+          Math.min(lng, bounds.east),
+          precision
+        )
+      );
+    }
+  }
+  return Array.from(hashes);
+};
+
+// Calculate distance between two coordinates (Haversine formula)
+export const calculateDistance = (
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number
+): number => {
+  const R = 6371000; // Earth's radius in meters
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLng = ((lng2 - lng1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((lat1 * Math.PI) / 180) *
+      Math.cos((lat2 * Math.PI) / 180) *
+      Math.sin(dLng / 2) *
+      Math.sin(dLng / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+};
+
+// Bounding box around a point
+export const boundsAround = (
+  lat: number,
+  lng: number,
+  radius: number
+): GeoBounds => {
+  const dLat = radius / 111320;
+  const dLng =
+    radius / (111320 * Math.max(Math.cos((lat * Math.PI) / 180), 0.01));
+  return {
+    south: lat - dLat,
+    west: lng - dLng,
+    north: lat + dLat,
+    east: lng + dLng,
+  };
+};
+
+// Smallest bounds containing all the given geohash cells
+export const unionBounds = (hashes: string[]): GeoBounds => {
+  const cells = hashes.map(decodeGeohashBounds);
+  return {
+    south: Math.min(...cells.map((c) => c.south)),
+    west: Math.min(...cells.map((c) => c.west)),
+    north: Math.max(...cells.map((c) => c.north)),
+    east: Math.max(...cells.map((c) => c.east)),
+  };
+};
@@ -0,0 +1,217 @@
+// Heatmap service
+// Scores a hexagonal grid of points across a drawn area using a single shared
+// Overpass fetch, then exports the result as GeoJSON.
+import {
+  AreaBounds,
+  Facility,
+  LiveabilityData,
+  LivabilityOptions,
+  calculateDistance,
+  fetchAreaFacilities,
+  getCategoryRadius,
+  scoreFacilities,
+} from "./livabilityService";
+
+export interface HeatmapCell {
+  id: string;
+  lat: number;
+  lng: number;
+  coordinates: Array<[number, number]>; // Closed hexagon ring as [lng, lat]
+  overall: number;
+  subscores: LiveabilityData["subscores"];
+  facilityCounts: LiveabilityData["facilityCounts"];
+}
+
+export interface HeatmapResult {
+  area: Array<[number, number]>; // Drawn polygon ring as [lng, lat]
+  cellSize: number; // Distance between neighbouring cell centers (meters)
+  cells: HeatmapCell[];
+  facilityCount: number;
+  generatedAt: number;
+}
+
+// Cell sizes offered in the UI (meters)
+export const HEATMAP_CELL_SIZES = [100, 200, 300, 500];
+
+// Upper bound on scored cells; the cell size grows until the grid fits
+export const MAX_HEATMAP_CELLS = 400;
+
+// Colour stops for the overall score, shared by the map layer and legend
+export const HEATMAP_COLOR_STOPS: Array<[number, string]> = [
+  [0, "#ef4444"],
+  [40, "#f97316"],
+  [60, "#eab308"],
+  [80, "#22c55e"],
+];
+
+const METERS_PER_DEGREE = 111320;
+
+// Ray casting point-in-polygon test
+export const isPointInPolygon = (
+  lng: number,
+  lat: number,
+  ring: Array<[number, number]>
+): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const intersects =
+      yi > lat !== yj > lat &&
+      lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi;
+    if (intersects) inside = !inside;
+  }
+  return inside;
+};
+
+export const getRingBounds = (ring: Array<[number, number]>): AreaBounds => ({
+  south: Math.min(...ring.map(([, lat]) => lat)),
+  west: Math.min(...ring.map(([lng]) => lng)),
+  north: Math.max(...ring.map(([, lat]) => lat)),
+  east: Math.max(...ring.map(([lng]) => lng)),
+});
+
+// Pointy-top hexagon centers covering the polygon, spaced cellSize meters apart
+const hexCenters = (
+  ring: Array<[number, number]>,
+  cellSize: number
+): Array<{ lat: number; lng: number }> => {
+  const bounds = getRingBounds(ring);
+  const cosLat = Math.cos(
+    (((bounds.south + bounds.north) / 2) * Math.PI) / 180
+  );
+  const dLng = cellSize / (METERS_PER_DEGREE * cosLat);
+  const dLat = ((cellSize * Math.sqrt(3)) / 2) / METERS_PER_DEGREE;
+
+  const centers: Array<{ lat: number; lng: number }> = [];
+  for (let row = 0, lat = bounds.south; lat <= bounds.north + dLat; row++, lat += dLat) {
+    const offset = row % 2 === 0 ? 0 : dLng / 2;
+    for (let lng = bounds.west + offset; lng <= bounds.east + dLng; lng += dLng) {
+      if (isPointInPolygon(lng, lat, ring)) {
+        centers.push({ lat, lng });
+      }
+    }
+  }
+  return centers;
+};
+
+// Hexagon outline around a center
+const hexagon = (
+  lat: number,
+  lng: number,
+  cellSize: number
+): Array<[number, number]> => {
+  const radius = cellSize / Math.sqrt(3);
+  const cosLat = Math.cos((lat * Math.PI) / 180);
+  const coordinates: Array<[number, number]> = [];
+  for (let i = 0; i <= 6; i++) {
+    const angle = ((60 * i + 30) * Math.PI) / 180;
+    coordinates.push([
+      lng + (radius * Math.cos(angle)) / (METERS_PER_DEGREE * cosLat),
+      lat + (radius * Math.sin(angle)) / METERS_PER_DEGREE,
+    ]);
+  }
+  return coordinates;
+};
+
+// Build the hex grid, growing the cell size until it fits maxCells
+export const generateHexGrid = (
+  ring: Array<[number, number]>,
+  cellSize: number,
+  maxCells: number = MAX_HEATMAP_CELLS
+): { cellSize: number; centers: Array<{ lat: number; lng: number }> } => {
+  let size = cellSize;
+  let centers = hexCenters(ring, size);
+  while (centers.length > maxCells) {
+    size = Math.round(size * 1.25);
+    centers = hexCenters(ring, size);
+  }
+  return { cellSize: size, centers };
+};
+
+// Facilities within their category radius of a point, with distances from it
+export const facilitiesNear = (
+  facilities: Facility[],
+  lat: number,
+  lng: number,
+  options: LivabilityOptions = {}
+): Facility[] => {
+  const nearby: Facility[] = [];
+  facilities.forEach((facility) => {
+    const distance = calculateDistance(lat, lng, facility.lat, facility.lng);
+    if (distance <= getCategoryRadius(facility.category, options.radii)) {
+      nearby.push({ ...facility, distance: Math.round(distance) });
+    }
+  });
+  return nearby;
+};
+
+// Score every grid cell from one shared facility fetch
+export const calculateHeatmap = async (
+  ring: Array<[number, number]>,
+  cellSize: number,
+  options: LivabilityOptions = {},
+  onProgress?: (done: number, total: number) => void
+): Promise<HeatmapResult> => {
+  const grid = generateHexGrid(ring, cellSize);
+  const facilities = await fetchAreaFacilities(getRingBounds(ring), options);
+
+  // Walking network distances are per origin, so grid cells use straight-line distance
+  const cellOptions: LivabilityOptions = { ...options, distanceMode: "straight" };
+
+  const cells: HeatmapCell[] = [];
+  for (let i = 0; i < grid.centers.length; i++) {
+    const { lat, lng } = grid.centers[i];
+
+    const nearby = facilitiesNear(facilities, lat, lng, options);
+    const { data } = scoreFacilities(nearby, lat, lng, "", cellOptions);
+    cells.push({
+      id: `cell-${i}`,
+      lat,
+      lng,
+      coordinates: hexagon(lat, lng, grid.cellSize),
+      overall: Math.round(data.overall),
+      subscores: data.subscores,
+      facilityCounts: data.facilityCounts,
+    });
+
+    // Yield to the UI every few cells
+    if (i % 20 === 19) {
+      onProgress?.(i + 1, grid.centers.length);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+  onProgress?.(grid.centers.length, grid.centers.length);
+
+  return {
+    area: ring,
+    cellSize: grid.cellSize,
+    cells,
+    facilityCount: facilities.length,
+    generatedAt: Date.now(),
+  };
+};
+
+// GeoJSON FeatureCollection with one hexagon feature per cell
+export const heatmapToGeoJSON = (result: HeatmapResult) => ({
+  type: "FeatureCollection" as const,
+  properties: {
+    cellSize: result.cellSize,
+    facilityCount: result.facilityCount,
+    generatedAt: new Date(result.generatedAt).toISOString(),
+  },
+  features: result.cells.map((cell) => ({
+    type: "Feature" as const,
+    properties: {
+      id: cell.id,
+      center: [cell.lng, cell.lat],
+      overall: cell.overall,
+      ...cell.subscores,
+      facilityCounts: cell.facilityCounts,
+    },
+    geometry: {
+      type: "Polygon" as const,
+      coordinates: [cell.coordinates],
+    },
+  })),
+});
@@ -0,0 +1,200 @@
+// Journal of completed analyses
+// Every analysis is stored in IndexedDB with its results, so it can be browsed
+// later and reopened without fetching anything again.
+import type {
+  CategoryRadii,
+  DistanceMode,
+  Facility,
+  LiveabilityData,
+} from "./livabilityService";
+import type { IsochroneBand } from "./walkingNetworkService";
+import type { TimeOfWeek } from "./openingHours";
+import { encodeGeohash } from "./geohashService";
+
+export type JournalUserMode = "residents" | "business-owner" | "urban-planner";
+
+export interface JournalEntry {
+  id: string;
+  address: string;
+  lat: number;
+  lng: number;
+  locationKey: string; // Geohash (~40m) grouping analyses of the same spot
+  data: LiveabilityData;
+  facilities: Facility[];
+  isochrones: IsochroneBand[];
+  aiSummary?: string;
+  aiSource?: "ai" | "fallback";
+  summaryLanguage?: string; // Language the AI summary was written in
+  userMode: JournalUserMode;
+  profileId: string;
+  profileName: string;
+  radii?: CategoryRadii; // Search radii the analysis used
+  distanceMode?: DistanceMode;
+  time?: TimeOfWeek; // Day and time the score is for; unset counts every facility
+  createdAt: number;
+}
+
+export interface JournalFilter {
+  query?: string; // Matched against the address
+  minScore?: number;
+  maxScore?: number;
+  userMode?: JournalUserMode;
+}
+
+// Oldest entries are dropped beyond this, except those of retained locations
+export const MAX_JOURNAL_ENTRIES = 500;
+
+const LOCATION_KEY_PRECISION = 8;
+
+// Key shared by analyses of the same spot
+export const getLocationKey = (lat: number, lng: number): string =>
+  encodeGeohash(lat, lng, LOCATION_KEY_PRECISION);
+
+class JournalService {
+  private readonly DB_NAME = "futuricity_journal";
+  private readonly STORE_NAME = "entries";
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private retainedLocationKeys: () => string[] = () => [];
+
+  // Never prune the entries of these locations (e.g. tracked ones)
+  retainLocations(getLocationKeys: () => string[]): void {
+    this.retainedLocationKeys = getLocationKeys;
+  }
+
+  // Save a completed analysis
+  async addEntry(
+    entry: Omit<JournalEntry, "id" | "locationKey" | "createdAt">
+  ): Promise<JournalEntry> {
+    const saved: JournalEntry = {
+      ...entry,
+      id: `analysis_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      locationKey: getLocationKey(entry.lat, entry.lng),
+      createdAt: Date.now(),
+    };
+    await this.put(saved);
+    await this.prune();
+    return saved;
+  }
+
+  // Attach the AI summary generated after the analysis
+  async setSummary(
+    id: string,
+    aiSummary: string,
+    aiSource: "ai" | "fallback",
+    summaryLanguage: string
+  ): Promise<void> {
+    const entry = await this.getEntry(id);
+    if (!entry) return;
+    await this.put({ ...entry, aiSummary, aiSource, summaryLanguage });
+  }
+
+  async getEntry(id: string): Promise<JournalEntry | undefined> {
+    const db = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const request = db
+        .transaction(this.STORE_NAME, "readonly")
+        .objectStore(this.STORE_NAME)
+        .get(id);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // All entries, most recent first
+  async getEntries(): Promise<JournalEntry[]> {
+    const db = await this.openDb();
+    const entries = await new Promise<JournalEntry[]>((resolve, reject) => {
+      const request = db
+        .transaction(this.STORE_NAME, "readonly")
+        .objectStore(this.STORE_NAME)
+        .getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  // Analyses of the same spot, most recent first
+  async getEntriesAt(lat: number, lng: number): Promise<JournalEntry[]> {
+    const db = await this.openDb();
+    const entries = await new Promise<JournalEntry[]>((resolve, reject) => {
+      const request = db
+        .transaction(this.STORE_NAME, "readonly")
+        .objectStore(this.STORE_NAME)
+        .index("locationKey")
+        .getAll(getLocationKey(lat, lng));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  // Entries matching an address search, score range and user mode
+  async search(filter: JournalFilter): Promise<JournalEntry[]> {
+    const query = filter.query?.trim().toLowerCase();
+    return (await this.getEntries()).filter((entry) => {
+      const score = Math.round(entry.data.overall);
+      return (
+        (!query || entry.address.toLowerCase().includes(query)) &&
+        (filter.minScore === undefined || score >= filter.minScore) &&
+        (filter.maxScore === undefined || score <= filter.maxScore) &&
+        (!filter.userMode || entry.userMode === filter.userMode)
+      );
+    });
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    await this.write((store) => store.delete(id));
+  }
+
+  async clear(): Promise<void> {
+    await this.write((store) => store.clear());
+  }
+
+  private async put(entry: JournalEntry): Promise<void> {
+    await this.write((store) => store.put(entry));
+  }
+
+  private async prune(): Promise<void> {
+    const entries = await this.getEntries();
+    if (entries.length <= MAX_JOURNAL_ENTRIES) return;
+    const retained = new Set(this.retainedLocationKeys());
+    const stale = entries
+      .slice(MAX_JOURNAL_ENTRIES)
+      .filter((entry) => !retained.has(entry.locationKey));
+    await this.write((store) => stale.forEach((entry) => store.delete(entry.id)));
+  }
+
+  private async write(action: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.openDb();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(this.STORE_NAME, "readwrite");
+      action(transaction.objectStore(this.STORE_NAME));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(this.STORE_NAME, {
+            keyPath: "id",
+          });
+          store.createIndex("locationKey", "locationKey");
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+// Export singleton instance
+export const journalService = new JournalService();
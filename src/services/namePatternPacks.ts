@@ -0,0 +1,159 @@
+// Locale name-pattern packs
+// Facility names carry local words ("puskesmas", "bệnh viện", "Apotheke") that
+// OSM tags often miss. Each pack lists those words per category for a group of
+// countries; the pack is picked from the country of the analyzed location and
+// feeds the Overpass queries, the classifier and duplicate detection.
+// Free of browser APIs; shared with the /api/score edge function.
+import type { FacilityCategory } from "./categoryTaxonomy";
+
+export interface NamePatternPack {
+  id: string;
+  name: string; // Display name
+  countries: string[]; // ISO 3166-1 alpha-2 codes (lowercase) using this pack
+  // Lowercase name fragments per category. Classification matches them at the
+  // start of a word (short ones only as whole words), queries match them at the
+  // start of the name.
+  names: Partial<Record<FacilityCategory, string[]>>;
+  // Spellings of the same words, replaced before names are compared for
+  // duplicates, e.g. "sekolah dasar" -> "sd" so "SD Negeri 1" and
+  // "Sekolah Dasar Negeri 1" are one school
+  nameAliases: Record<string, string>;
+}
+
+export const NAME_PATTERN_PACKS: NamePatternPack[] = [
+  {
+    id: "international",
+    name: "International (English)",
+    countries: [],
+    names: {
+      health: ["hospital", "clinic", "medical cent", "pharmacy", "chemist", "doctor", "dental", "surgery"],
+      education: ["school", "university", "college", "academy", "kindergarten", "nursery", "library"],
+      market: ["supermarket", "grocery", "market", "mall", "shop", "store", "bakery", "gas station", "petrol", "fuel", "shell", "bp"],
+      transport: ["bus stop", "bus station", "station", "terminal", "metro", "subway"],
+      recreation: ["park", "playground", "swimming", "gym", "fitness", "cinema", "theatre", "theater"],
+      police: ["police"],
+      religious: ["church", "cathedral", "chapel", "mosque", "temple", "synagogue"],
+    },
+    nameAliases: { saint: "st", mount: "mt", center: "centre", theater: "theatre" },
+  },
+  {
+    id: "id",
+    name: "Indonesia",
+    countries: ["id"],
+    names: {
+      health: ["rumah sakit", "rs", "rsud", "klinik", "apotek", "apotik", "dokter", "puskesmas", "poli"],
+      education: ["sekolah", "sd", "smp", "sma", "smk", "universitas", "univ", "kampus", "tk", "paud", "perpustakaan", "library"],
+      market: ["spbu", "pom bensin", "gas station", "petrol", "fuel", "bensin", "solar", "pertamina", "shell", "bp", "esso", "caltex", "toko", "warung", "shop", "store", "market", "mall", "plaza"],
+      transport: ["halte", "bus stop", "terminal", "stasiun", "station", "mrt", "lrt", "transjakarta", "angkot"],
+      recreation: ["taman", "park", "playground", "kolam renang", "swimming", "gym", "fitness", "bioskop", "cinema", "teater", "theatre", "pusat komunitas"],
+      police: ["polisi", "polres", "polsek", "polda", "satlantas", "satpol", "pp", "police"],
+      religious: ["masjid", "gereja", "katedral", "synagogue", "pura", "candi", "vihara"],
+    },
+    nameAliases: {
+      "sekolah dasar": "sd",
+      "sekolah dasar negeri": "sd negeri",
+      sdn: "sd negeri",
+      "sekolah menengah pertama": "smp",
+      smpn: "smp negeri",
+      "sekolah menengah atas": "sma",
+      sman: "sma negeri",
+      "sekolah menengah kejuruan": "smk",
+      smkn: "smk negeri",
+      "taman kanak kanak": "tk",
+      "rumah sakit": "rs",
+      "rumah sakit umum daerah": "rsud",
+      apotik: "apotek",
+      mesjid: "masjid",
+      musholla: "mushola",
+      musala: "mushola",
+    },
+  },
+  {
+    id: "my",
+    name: "Malaysia",
+    countries: ["my", "bn"],
+    names: {
+      health: ["hospital", "klinik", "poliklinik", "farmasi", "pharmacy", "doktor"],
+      education: ["sekolah", "sk", "smk", "sjk", "universiti", "kolej", "tadika", "taska", "perpustakaan", "library"],
+      market: ["kedai", "pasar", "pasaraya", "mydin", "speedmart", "restoran", "gerai", "petronas", "petron", "shell", "caltex", "bhp", "supermarket", "mall", "plaza"],
+      transport: ["hentian", "perhentian bas", "stesen", "terminal", "lrt", "mrt", "monorel", "ktm", "bus stop", "station"],
+      recreation: ["taman", "padang", "kolam renang", "gim", "pawagam", "park", "playground", "swimming", "gym", "cinema"],
+      police: ["balai polis", "ibu pejabat polis", "pdrm", "police"],
+      religious: ["masjid", "surau", "gereja", "kuil", "tokong", "gurdwara", "church", "temple"],
+    },
+    nameAliases: {
+      "sekolah kebangsaan": "sk",
+      "sekolah menengah kebangsaan": "smk",
+      "sekolah jenis kebangsaan": "sjk",
+      "klinik kesihatan": "kk",
+      "balai polis": "bp",
+    },
+  },
+  {
+    id: "vn",
+    name: "Vietnam",
+    countries: ["vn"],
+    names: {
+      health: ["bệnh viện", "phòng khám", "trạm y tế", "nhà thuốc", "hiệu thuốc", "nha khoa", "hospital", "clinic", "pharmacy"],
+      education: ["trường", "đại học", "cao đẳng", "mầm non", "tiểu học", "thcs", "thpt", "thư viện", "school", "university"],
+      market: ["chợ", "siêu thị", "cửa hàng", "tạp hóa", "quán", "nhà hàng", "cà phê", "cây xăng", "petrolimex", "winmart", "bách hóa xanh", "circle k", "market", "mall"],
+      transport: ["bến xe", "trạm xe buýt", "điểm dừng", "nhà ga", "ga tàu", "metro", "bus stop", "station"],
+      recreation: ["công viên", "sân chơi", "hồ bơi", "bể bơi", "phòng gym", "rạp chiếu phim", "nhà văn hóa", "park", "gym", "cinema"],
+      police: ["công an", "cảnh sát", "police"],
+      religious: ["chùa", "nhà thờ", "đền", "miếu", "thánh đường", "giáo xứ", "church", "pagoda", "temple"],
+    },
+    nameAliases: {
+      "trung học cơ sở": "thcs",
+      "trung học phổ thông": "thpt",
+      "tiểu học": "th",
+      "bệnh viện": "bv",
+    },
+  },
+  {
+    id: "europe",
+    name: "Europe",
+    countries: ["at", "be", "ch", "cz", "de", "dk", "es", "fi", "fr", "gb", "ie", "it", "lu", "nl", "no", "pl", "pt", "se"],
+    names: {
+      health: ["krankenhaus", "klinik", "apotheke", "arztpraxis", "hôpital", "clinique", "pharmacie", "ziekenhuis", "apotheek", "ospedale", "farmacia", "hospital", "clínica", "szpital", "apteka", "sjukhus", "apotek", "pharmacy"],
+      education: ["schule", "grundschule", "gymnasium", "universität", "hochschule", "kindergarten", "kita", "bibliothek", "école", "collège", "lycée", "université", "bibliothèque", "basisschool", "scuola", "università", "escuela", "colegio", "universidad", "biblioteca", "szkoła", "skola", "school", "university", "library"],
+      market: ["supermarkt", "bäckerei", "markt", "supermarché", "marché", "boulangerie", "mercado", "supermercado", "mercato", "aldi", "lidl", "rewe", "edeka", "carrefour", "tesco", "spar", "tankstelle", "supermarket", "market", "shop"],
+      transport: ["bahnhof", "haltestelle", "gare", "arrêt", "estación", "parada", "stazione", "fermata", "dworzec", "przystanek", "station", "bus stop"],
+      recreation: ["park", "parc", "parque", "parco", "spielplatz", "schwimmbad", "freibad", "piscine", "piscina", "kino", "cinéma", "theater", "théâtre", "teatro", "playground", "swimming"],
+      police: ["polizei", "gendarmerie", "politie", "polizia", "carabinieri", "policía", "guardia civil", "policja", "police"],
+      religious: ["kirche", "église", "cathédrale", "kerk", "chiesa", "basilica", "iglesia", "catedral", "kościół", "kyrka", "moschee", "mosquée", "synagoge", "church", "cathedral", "mosque"],
+    },
+    nameAliases: { sankt: "st", saint: "st", sainte: "ste" },
+  },
+];
+
+// Pack used when the country is unknown or has no pack of its own
+export const DEFAULT_NAME_PACK = "international";
+
+// Pseudo pack combining every pack, used where the location is not known in
+// advance (sorting an offline extract into sections)
+export const ALL_NAME_PACKS = "all";
+
+// Pack by id, falling back to the default pack
+export const getNamePack = (id?: string): NamePatternPack =>
+  NAME_PATTERN_PACKS.find((pack) => pack.id === id) ||
+  NAME_PATTERN_PACKS.find((pack) => pack.id === DEFAULT_NAME_PACK)!;
+
+// Pack for a Nominatim `address.country_code`, e.g. "id" or "de"
+export const getNamePackForCountry = (countryCode?: string): NamePatternPack =>
+  NAME_PATTERN_PACKS.find((pack) =>
+    pack.countries.includes(countryCode?.toLowerCase() || "")
+  ) || getNamePack(DEFAULT_NAME_PACK);
+
+// Name fragments of a category in a pack (or in every pack for ALL_NAME_PACKS)
+export const getCategoryNamePatterns = (
+  category: string,
+  packId?: string
+): string[] => {
+  const packs =
+    packId === ALL_NAME_PACKS ? NAME_PATTERN_PACKS : [getNamePack(packId)];
+  return Array.from(
+    new Set(
+      packs.flatMap((pack) => pack.names[category as FacilityCategory] || [])
+    )
+  );
+};
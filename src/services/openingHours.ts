@@ -0,0 +1,218 @@
+// OSM opening_hours parsing
+// Covers the forms mapped in practice: weekday selectors with ranges and lists
+// ("Mo-Fr,Su"), time spans including overnight and open-ended ones
+// ("08:00-12:00,13:00-02:00", "18:00+"), "24/7", "off"/"closed", normal rules
+// separated by ";" and additional rules separated by ",". Values using month,
+// date, week or sun-event selectors are not understood and parse to null, so
+// callers can treat the facility's hours as unknown.
+// Free of browser APIs; shared with the /api/score edge function.
+
+// Monday first, matching the OSM weekday order
+export const WEEKDAY_KEYS = ["Mo", "Tu", "We", "Th", "Fr", "Sa", "Su"] as const;
+
+export type Weekday = (typeof WEEKDAY_KEYS)[number];
+
+// A moment in a week: day 0 is Monday, minutes since midnight
+export interface TimeOfWeek {
+  day: number;
+  minutes: number;
+}
+
+// Open spans per weekday in minutes since that day's midnight. Spans ending
+// after midnight (end > 1440) continue into the next day.
+export interface OpeningHours {
+  week: Array<Array<[number, number]>>;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const TOKEN_PATTERN =
+  /\s*(24\/7|\d{1,2}:\d{2}|mo|tu|we|th|fr|sa|su|ph|sh|off|closed|open|\|\||[-,;+])\s*/iy;
+
+const isWeekday = (token: string | undefined): token is Weekday =>
+  (WEEKDAY_KEYS as readonly string[]).includes(token || "");
+
+const isDayToken = (token: string | undefined) =>
+  isWeekday(token) || token === "PH" || token === "SH";
+
+const isTime = (token: string | undefined) => /^\d{1,2}:\d{2}$/.test(token || "");
+
+// "08:30" -> 510; null past 24:00 or with more than 59 minutes
+const parseTime = (token: string): number | null => {
+  const [hours, minutes] = token.split(":").map(Number);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+};
+
+// Split a value into tokens with a canonical spelling, or null on anything unknown
+const tokenize = (value: string): string[] | null => {
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < value.length) {
+    const match = TOKEN_PATTERN.exec(value);
+    if (!match) return null;
+    const token = match[1];
+    if (/^[a-z]{2}$/i.test(token) && !/^(ph|sh)$/i.test(token)) {
+      tokens.push(token[0].toUpperCase() + token[1].toLowerCase());
+    } else if (/^(ph|sh)$/i.test(token)) {
+      tokens.push(token.toUpperCase());
+    } else {
+      tokens.push(token.toLowerCase());
+    }
+  }
+  return tokens;
+};
+
+// Parse an opening_hours value; null when empty or not understood
+export const parseOpeningHours = (value: string): OpeningHours | null => {
+  const tokens = tokenize(value.trim());
+  if (!tokens || tokens.length === 0) return null;
+
+  const week: OpeningHours["week"] = WEEKDAY_KEYS.map(() => []);
+  let additive = false;
+  let i = 0;
+
+  while (i < tokens.length) {
+    // Weekday selector, e.g. "Mo-Fr,Su" or "Sa,PH"
+    let days: number[] | null = null;
+    if (isDayToken(tokens[i])) {
+      days = [];
+      for (;;) {
+        const token = tokens[i++];
+        if (isWeekday(token)) {
+          const from = WEEKDAY_KEYS.indexOf(token);
+          let to = from;
+          if (tokens[i] === "-" && isWeekday(tokens[i + 1])) {
+            to = WEEKDAY_KEYS.indexOf(tokens[i + 1] as Weekday);
+            i += 2;
+          }
+          // Ranges may wrap around the week, e.g. "Fr-Mo"
+          for (let day = from; ; day = (day + 1) % 7) {
+            days.push(day);
+            if (day === to) break;
+          }
+        }
+        if (tokens[i] === "," && isDayToken(tokens[i + 1])) {
+          i++;
+          continue;
+        }
+        break;
+      }
+    }
+
+    // Time selector
+    let spans: Array<[number, number]> = [];
+    const token = tokens[i];
+    if (token === "off" || token === "closed") {
+      i++;
+    } else if (token === "24/7" || token === "open") {
+      spans = [[0, MINUTES_PER_DAY]];
+      i++;
+    } else if (isTime(token)) {
+      for (;;) {
+        const start = parseTime(tokens[i++]);
+        if (start === null) return null;
+        let end: number | null;
+        if (tokens[i] === "+") {
+          end = MINUTES_PER_DAY; // Open end: assume open until midnight
+          i++;
+        } else if (tokens[i] === "-" && isTime(tokens[i + 1])) {
+          end = parseTime(tokens[i + 1]);
+          if (end === null) return null;
+          i += 2;
+          if (tokens[i] === "+") i++;
+          if (end <= start) end += MINUTES_PER_DAY;
+        } else {
+          return null;
+        }
+        spans.push([start, end]);
+        if (tokens[i] === "," && isTime(tokens[i + 1])) {
+          i++;
+          continue;
+        }
+        break;
+      }
+    } else if (days) {
+      spans = [[0, MINUTES_PER_DAY]]; // A weekday selector alone means all day
+    } else {
+      return null;
+    }
+
+    // Holiday-only rules ("PH off") do not change the regular week
+    const targets = days ?? WEEKDAY_KEYS.map((_, day) => day);
+    targets.forEach((day) => {
+      week[day] = additive && spans.length > 0 ? [...week[day], ...spans] : spans;
+    });
+
+    if (i >= tokens.length || tokens[i] === "||") break; // Fallback rules are ignored
+    if (tokens[i] === ";") {
+      additive = false;
+    } else if (tokens[i] === ",") {
+      additive = true;
+    } else {
+      return null;
+    }
+    i++;
+  }
+
+  return { week };
+};
+
+// Parsed values are reused across rescoring runs
+const parsedCache = new Map<string, OpeningHours | null>();
+const MAX_CACHED_VALUES = 5000;
+
+// Parse with caching; undefined values have unknown hours
+export const getOpeningHours = (
+  value: string | undefined
+): OpeningHours | null => {
+  if (!value) return null;
+  if (!parsedCache.has(value)) {
+    if (parsedCache.size >= MAX_CACHED_VALUES) parsedCache.clear();
+    parsedCache.set(value, parseOpeningHours(value));
+  }
+  return parsedCache.get(value)!;
+};
+
+export const isOpenAt = (hours: OpeningHours, time: TimeOfWeek): boolean => {
+  const previous = hours.week[(time.day + 6) % 7];
+  return (
+    hours.week[time.day].some(
+      ([start, end]) => time.minutes >= start && time.minutes < end
+    ) ||
+    previous.some(
+      ([start, end]) =>
+        end > MINUTES_PER_DAY &&
+        time.minutes + MINUTES_PER_DAY >= start &&
+        time.minutes + MINUTES_PER_DAY < end
+    )
+  );
+};
+
+// Open around the clock every day, e.g. "24/7" or "Mo-Su 00:00-24:00"
+export const isAlwaysOpen = (hours: OpeningHours): boolean =>
+  hours.week.every((spans) =>
+    spans.some(([start, end]) => start <= 0 && end >= MINUTES_PER_DAY)
+  );
+
+// "Sa 22:00" -> { day: 5, minutes: 1320 }; null when malformed
+export const parseTimeOfWeek = (value: string): TimeOfWeek | null => {
+  const match = value.trim().match(/^(mo|tu|we|th|fr|sa|su)\s+(\d{1,2}):(\d{2})$/i);
+  if (!match) return null;
+  const hours = Number(match[2]);
+  const minutes = Number(match[3]);
+  if (hours > 23 || minutes > 59) return null;
+  return {
+    day: WEEKDAY_KEYS.findIndex(
+      (key) => key.toLowerCase() === match[1].toLowerCase()
+    ),
+    minutes: hours * 60 + minutes,
+  };
+};
+
+// { day: 5, minutes: 1320 } -> "Sa 22:00"
+export const formatTimeOfWeek = (time: TimeOfWeek): string =>
+  `${WEEKDAY_KEYS[time.day]} ${String(Math.floor(time.minutes / 60)).padStart(
+    2,
+    "0"
+  )}:${String(time.minutes % 60).padStart(2, "0")}`;
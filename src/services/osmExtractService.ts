@@ -0,0 +1,415 @@
+// Offline OSM extract service
+// Imports a regional .osm.pbf or Overpass JSON dump into IndexedDB so analyses
+// can run without a network connection. Elements are stored per geohash tile
+// together with the query sections (categories, street network) they match.
+import { readPbf } from "./osmPbfParser";
+import { GeoBounds, encodeGeohash, geohashesInBounds } from "./geohashService";
+import { OverpassElement, TILE_PRECISION } from "./spatialIndexService";
+
+export interface ExtractInfo {
+  name: string; // Imported file name
+  format: "pbf" | "overpass-json";
+  extractDate?: number; // Date of the OSM data, when the file records it
+  importedAt: number;
+  elementCount: number;
+  bounds: GeoBounds;
+}
+
+export interface ImportProgress {
+  stage: "reading" | "resolving" | "saving";
+  count: number;
+}
+
+// Returns the query sections an element belongs to
+export type SectionMatcher = (element: OverpassElement) => string[];
+
+interface StoredElement {
+  key: string;
+  tiles: string[];
+  sections: string[];
+  element: OverpassElement;
+}
+
+// One tag condition of an Overpass filter, e.g. ["amenity"~"^(school)$"]
+interface TagCondition {
+  key: string;
+  op?: "=" | "!=" | "~" | "!~"; // Missing op means "key exists"
+  value?: string;
+  regex?: RegExp;
+}
+
+export interface OverpassFilter {
+  type: "node" | "way";
+  conditions: TagCondition[];
+}
+
+// Parse the node/way statements of an Overpass query into local filters.
+// Only tag filters are supported; area filters such as (around:...) are ignored.
+export const parseOverpassFilters = (query: string): OverpassFilter[] => {
+  const filters: OverpassFilter[] = [];
+  const statementPattern = /\b(node|way)((?:\["[^"]+"(?:(?:!?[=~])"[^"]*")?\])+)/g;
+  const conditionPattern = /\["([^"]+)"(?:(!?[=~])"([^"]*)")?\]/g;
+
+  for (const statement of query.matchAll(statementPattern)) {
+    const conditions: TagCondition[] = [];
+    for (const [, key, op, value] of statement[2].matchAll(conditionPattern)) {
+      conditions.push({
+        key,
+        op: op as TagCondition["op"],
+        value,
+        regex: op?.endsWith("~") ? new RegExp(value) : undefined,
+      });
+    }
+    filters.push({ type: statement[1] as OverpassFilter["type"], conditions });
+  }
+  return filters;
+};
+
+const matchesCondition = (
+  tags: Record<string, string>,
+  condition: TagCondition
+): boolean => {
+  const value = tags[condition.key];
+  switch (condition.op) {
+    case "=":
+      return value === condition.value;
+    case "!=":
+      return value !== condition.value;
+    case "~":
+      return value !== undefined && condition.regex!.test(value);
+    case "!~":
+      return value === undefined || !condition.regex!.test(value);
+    default:
+      return value !== undefined;
+  }
+};
+
+export const matchesFilters = (
+  element: OverpassElement,
+  filters: OverpassFilter[]
+): boolean =>
+  !!element.tags &&
+  filters.some(
+    (filter) =>
+      filter.type === element.type &&
+      filter.conditions.every((c) => matchesCondition(element.tags!, c))
+  );
+
+// Complete a way with bounds and center from its geometry
+const withWayShape = (element: OverpassElement): OverpassElement => {
+  const points = (element.geometry || []).filter(
+    (p): p is { lat: number; lon: number } => !!p
+  );
+  if (points.length === 0) return element;
+
+  const bounds = element.bounds || {
+    minlat: Math.min(...points.map((p) => p.lat)),
+    minlon: Math.min(...points.map((p) => p.lon)),
+    maxlat: Math.max(...points.map((p) => p.lat)),
+    maxlon: Math.max(...points.map((p) => p.lon)),
+  };
+  return {
+    ...element,
+    bounds,
+    center: element.center || {
+      lat: (bounds.minlat + bounds.maxlat) / 2,
+      lon: (bounds.minlon + bounds.maxlon) / 2,
+    },
+  };
+};
+
+const tilesOf = (element: OverpassElement): string[] => {
+  if (element.bounds && element.geometry) {
+    return geohashesInBounds(
+      {
+        south: element.bounds.minlat,
+        west: element.bounds.minlon,
+        north: element.bounds.maxlat,
+        east: element.bounds.maxlon,
+      },
+      TILE_PRECISION
+    );
+  }
+  const position =
+    element.lat !== undefined && element.lon !== undefined
+      ? { lat: element.lat, lon: element.lon }
+      : element.center;
+  return position ? [encodeGeohash(position.lat, position.lon, TILE_PRECISION)] : [];
+};
+
+const boundsOf = (elements: OverpassElement[]): GeoBounds => {
+  const bounds = { south: 90, west: 180, north: -90, east: -180 };
+  elements.forEach((element) => {
+    const points = element.bounds
+      ? [
+          [element.bounds.minlat, element.bounds.minlon],
+          [element.bounds.maxlat, element.bounds.maxlon],
+        ]
+      : element.lat !== undefined && element.lon !== undefined
+      ? [[element.lat, element.lon]]
+      : [];
+    points.forEach(([lat, lon]) => {
+      bounds.south = Math.min(bounds.south, lat);
+      bounds.west = Math.min(bounds.west, lon);
+      bounds.north = Math.max(bounds.north, lat);
+      bounds.east = Math.max(bounds.east, lon);
+    });
+  });
+  return bounds;
+};
+
+// Read an .osm.pbf file in two passes: first collect the relevant tagged nodes
+// and ways, then look up the coordinates of the nodes those ways reference
+const readPbfExtract = async (
+  buffer: ArrayBuffer,
+  matchSections: SectionMatcher,
+  onProgress?: (progress: ImportProgress) => void
+): Promise<{ elements: OverpassElement[]; extractDate?: number }> => {
+  const elements: OverpassElement[] = [];
+  const ways: Array<{ id: number; refs: number[]; tags: Record<string, string> }> = [];
+  const neededNodes = new Set<number>();
+
+  const header = await readPbf(buffer, {
+    node: (node) => {
+      if (!node.tags) return;
+      const element: OverpassElement = { type: "node", ...node };
+      if (matchSections(element).length > 0) {
+        elements.push(element);
+        if (elements.length % 1000 === 0) {
+          onProgress?.({ stage: "reading", count: elements.length + ways.length });
+        }
+      }
+    },
+    way: (way) => {
+      if (matchSections({ type: "way", id: way.id, tags: way.tags }).length === 0) {
+        return;
+      }
+      ways.push(way);
+      way.refs.forEach((ref) => neededNodes.add(ref));
+    },
+  });
+
+  onProgress?.({ stage: "resolving", count: ways.length });
+  const coordinates = new Map<number, { lat: number; lon: number }>();
+  await readPbf(buffer, {
+    node: (node) => {
+      if (neededNodes.has(node.id)) {
+        coordinates.set(node.id, { lat: node.lat, lon: node.lon });
+      }
+    },
+  });
+
+  ways.forEach((way) => {
+    elements.push(
+      withWayShape({
+        type: "way",
+        id: way.id,
+        nodes: way.refs,
+        geometry: way.refs.map((ref) => coordinates.get(ref) || null),
+        tags: way.tags,
+      })
+    );
+  });
+
+  return { elements, extractDate: header.replicationTimestamp };
+};
+
+// Read an Overpass JSON dump (`out geom`, `out center` or `out body` with nodes)
+const readOverpassJsonExtract = (
+  text: string,
+  matchSections: SectionMatcher
+): { elements: OverpassElement[]; extractDate?: number } => {
+  const data = JSON.parse(text);
+  if (!Array.isArray(data.elements)) {
+    throw new Error("Not an Overpass JSON file: missing elements");
+  }
+  const raw: OverpassElement[] = data.elements;
+
+  const coordinates = new Map<number, { lat: number; lon: number }>();
+  raw.forEach((element) => {
+    if (element.type === "node" && element.lat !== undefined) {
+      coordinates.set(element.id, { lat: element.lat, lon: element.lon! });
+    }
+  });
+
+  const elements: OverpassElement[] = [];
+  raw.forEach((element) => {
+    if (element.type !== "node" && element.type !== "way") return;
+    if (!element.tags || matchSections(element).length === 0) return;
+
+    if (element.type === "way") {
+      const geometry =
+        element.geometry ||
+        element.nodes?.map((ref) => coordinates.get(ref) || null);
+      elements.push(withWayShape({ ...element, geometry }));
+    } else {
+      elements.push(element);
+    }
+  });
+
+  const timestamp = data.osm3s?.timestamp_osm_base;
+  return {
+    elements,
+    extractDate: timestamp ? Date.parse(timestamp) : undefined,
+  };
+};
+
+class OsmExtractService {
+  private readonly DB_NAME = "futuricity_offline";
+  private readonly STORE_NAME = "elements";
+  private readonly INFO_STORAGE_KEY = "futuricity_offline_extract";
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  // Details of the imported extract, or null when none is imported
+  getExtractInfo(): ExtractInfo | null {
+    try {
+      const stored = localStorage.getItem(this.INFO_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error("Error loading offline extract info:", error);
+      return null;
+    }
+  }
+
+  // Whether the extract overlaps the bounds
+  covers(bounds: GeoBounds): boolean {
+    const info = this.getExtractInfo();
+    return (
+      !!info &&
+      info.bounds.south <= bounds.north &&
+      info.bounds.north >= bounds.south &&
+      info.bounds.west <= bounds.east &&
+      info.bounds.east >= bounds.west
+    );
+  }
+
+  // Import a .osm.pbf or Overpass JSON file, replacing the previous extract
+  async importExtract(
+    file: File,
+    matchSections: SectionMatcher,
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<ExtractInfo> {
+    const isPbf = /\.pbf$/i.test(file.name);
+    onProgress?.({ stage: "reading", count: 0 });
+
+    const { elements, extractDate } = isPbf
+      ? await readPbfExtract(await file.arrayBuffer(), matchSections, onProgress)
+      : readOverpassJsonExtract(await file.text(), matchSections);
+
+    if (elements.length === 0) {
+      throw new Error("The extract contains no usable facilities or streets");
+    }
+
+    await this.clearStore();
+    const records: StoredElement[] = elements.map((element) => ({
+      key: `${element.type}/${element.id}`,
+      tiles: tilesOf(element),
+      sections: matchSections(element),
+      element,
+    }));
+
+    // Write in batches to keep transactions small
+    const BATCH_SIZE = 5000;
+    for (let i = 0; i < records.length; i += BATCH_SIZE) {
+      await this.putRecords(records.slice(i, i + BATCH_SIZE));
+      onProgress?.({ stage: "saving", count: Math.min(i + BATCH_SIZE, records.length) });
+    }
+
+    const info: ExtractInfo = {
+      name: file.name,
+      format: isPbf ? "pbf" : "overpass-json",
+      extractDate: extractDate || file.lastModified,
+      importedAt: Date.now(),
+      elementCount: records.length,
+      bounds: boundsOf(elements),
+    };
+    localStorage.setItem(this.INFO_STORAGE_KEY, JSON.stringify(info));
+    return info;
+  }
+
+  // Elements of the given tiles grouped by section, in the same shape as a
+  // split Overpass tile response
+  async loadSections(
+    hashes: string[]
+  ): Promise<Record<string, OverpassElement[]>> {
+    const db = await this.openDb();
+    const records = new Map<string, StoredElement>();
+
+    await Promise.all(
+      hashes.map(
+        (hash) =>
+          new Promise<void>((resolve, reject) => {
+            const request = db
+              .transaction(this.STORE_NAME, "readonly")
+              .objectStore(this.STORE_NAME)
+              .index("tiles")
+              .getAll(hash);
+            request.onsuccess = () => {
+              (request.result as StoredElement[]).forEach((record) =>
+                records.set(record.key, record)
+              );
+              resolve();
+            };
+            request.onerror = () => reject(request.error);
+          })
+      )
+    );
+
+    const sections: Record<string, OverpassElement[]> = {};
+    records.forEach((record) => {
+      record.sections.forEach((section) => {
+        (sections[section] = sections[section] || []).push(record.element);
+      });
+    });
+    return sections;
+  }
+
+  async deleteExtract(): Promise<void> {
+    await this.clearStore();
+    localStorage.removeItem(this.INFO_STORAGE_KEY);
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(this.STORE_NAME, {
+            keyPath: "key",
+          });
+          store.createIndex("tiles", "tiles", { multiEntry: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async clearStore(): Promise<void> {
+    const db = await this.openDb();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(this.STORE_NAME, "readwrite");
+      transaction.objectStore(this.STORE_NAME).clear();
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private async putRecords(records: StoredElement[]): Promise<void> {
+    const db = await this.openDb();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(this.STORE_NAME, "readwrite");
+      const store = transaction.objectStore(this.STORE_NAME);
+      records.forEach((record) => store.put(record));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+}
+
+// Export singleton instance
+export const osmExtractService = new OsmExtractService();
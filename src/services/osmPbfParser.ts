@@ -0,0 +1,349 @@
+// Minimal OpenStreetMap PBF reader
+// Decodes nodes and ways (relations are skipped) from an .osm.pbf extract using
+// the browser's DecompressionStream for zlib blobs. See
+// https://wiki.openstreetmap.org/wiki/PBF_Format for the file layout.
+
+export interface PbfNode {
+  id: number;
+  lat: number;
+  lon: number;
+  tags?: Record<string, string>;
+}
+
+export interface PbfWay {
+  id: number;
+  refs: number[];
+  tags: Record<string, string>;
+}
+
+export interface PbfHeader {
+  replicationTimestamp?: number; // ms since epoch
+  writingProgram?: string;
+  source?: string;
+}
+
+export interface PbfVisitor {
+  node?: (node: PbfNode) => void;
+  way?: (way: PbfWay) => void;
+}
+
+// Protobuf wire format reader. Values are decoded with floating point arithmetic
+// so 64-bit IDs up to 2^53 survive.
+class ProtoReader {
+  pos: number;
+
+  constructor(
+    private buf: Uint8Array,
+    start = 0,
+    private end = buf.length
+  ) {
+    this.pos = start;
+  }
+
+  eof(): boolean {
+    return this.pos >= this.end;
+  }
+
+  varint(): number {
+    let result = 0;
+    let multiplier = 1;
+    let byte: number;
+    do {
+      byte = this.buf[this.pos++];
+      result += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+    } while (byte & 0x80);
+    return result;
+  }
+
+  // Zigzag-encoded signed varint
+  svarint(): number {
+    const value = this.varint();
+    return value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+  }
+
+  bytes(): Uint8Array {
+    const length = this.varint();
+    const start = this.pos;
+    this.pos += length;
+    return this.buf.subarray(start, this.pos);
+  }
+
+  string(): string {
+    return textDecoder.decode(this.bytes());
+  }
+
+  // Reader over a length-delimited field
+  sub(): ProtoReader {
+    const length = this.varint();
+    const reader = new ProtoReader(this.buf, this.pos, this.pos + length);
+    this.pos += length;
+    return reader;
+  }
+
+  packed(read: (reader: ProtoReader) => number): number[] {
+    const reader = this.sub();
+    const values: number[] = [];
+    while (!reader.eof()) values.push(read(reader));
+    return values;
+  }
+
+  // Read a field key as [fieldNumber, wireType]
+  key(): [number, number] {
+    const key = this.varint();
+    return [Math.floor(key / 8), key % 8];
+  }
+
+  skip(wireType: number): void {
+    if (wireType === 0) {
+      this.varint();
+    } else if (wireType === 1) {
+      this.pos += 8;
+    } else if (wireType === 2) {
+      const length = this.varint();
+      this.pos += length;
+    } else if (wireType === 5) {
+      this.pos += 4;
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+}
+
+const textDecoder = new TextDecoder();
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Split the file into its blobs: [type, uncompressed data]
+async function* readBlobs(
+  buffer: ArrayBuffer
+): AsyncGenerator<[string, Uint8Array]> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const headerLength = view.getUint32(offset);
+    offset += 4;
+
+    let type = "";
+    let dataSize = 0;
+    const header = new ProtoReader(bytes, offset, offset + headerLength);
+    while (!header.eof()) {
+      const [field, wireType] = header.key();
+      if (field === 1) type = header.string();
+      else if (field === 3) dataSize = header.varint();
+      else header.skip(wireType);
+    }
+    offset += headerLength;
+
+    let data: Uint8Array | null = null;
+    const blob = new ProtoReader(bytes, offset, offset + dataSize);
+    while (!blob.eof()) {
+      const [field, wireType] = blob.key();
+      if (field === 1) data = blob.bytes();
+      else if (field === 3) data = await inflate(blob.bytes());
+      else if (field === 2) blob.varint();
+      else if (wireType === 2) {
+        throw new Error("Unsupported PBF compression (only zlib is supported)");
+      } else blob.skip(wireType);
+    }
+    offset += dataSize;
+
+    if (data) yield [type, data];
+  }
+}
+
+const readHeader = (data: Uint8Array): PbfHeader => {
+  const header: PbfHeader = {};
+  const reader = new ProtoReader(data);
+  while (!reader.eof()) {
+    const [field, wireType] = reader.key();
+    if (field === 16) header.writingProgram = reader.string();
+    else if (field === 17) header.source = reader.string();
+    else if (field === 32) header.replicationTimestamp = reader.varint() * 1000;
+    else reader.skip(wireType);
+  }
+  return header;
+};
+
+const readTags = (
+  keys: number[],
+  vals: number[],
+  strings: string[]
+): Record<string, string> => {
+  const tags: Record<string, string> = {};
+  keys.forEach((key, i) => (tags[strings[key]] = strings[vals[i]]));
+  return tags;
+};
+
+const readPrimitiveBlock = (data: Uint8Array, visitor: PbfVisitor): void => {
+  const strings: string[] = [];
+  const groups: ProtoReader[] = [];
+  let granularity = 100;
+  let latOffset = 0;
+  let lonOffset = 0;
+
+  const block = new ProtoReader(data);
+  while (!block.eof()) {
+    const [field, wireType] = block.key();
+    if (field === 1) {
+      const table = block.sub();
+      while (!table.eof()) {
+        const [f, w] = table.key();
+        if (f === 1) strings.push(table.string());
+        else table.skip(w);
+      }
+    } else if (field === 2) groups.push(block.sub());
+    else if (field === 17) granularity = block.varint();
+    else if (field === 19) latOffset = block.varint();
+    else if (field === 20) lonOffset = block.varint();
+    else block.skip(wireType);
+  }
+
+  const toDegrees = (value: number, offset: number) =>
+    (offset + granularity * value) / 1e9;
+
+  groups.forEach((group) => {
+    while (!group.eof()) {
+      const [field, wireType] = group.key();
+      if (field === 1 && visitor.node) {
+        readNode(group.sub(), strings, toDegrees, latOffset, lonOffset, visitor.node);
+      } else if (field === 2 && visitor.node) {
+        readDenseNodes(group.sub(), strings, toDegrees, latOffset, lonOffset, visitor.node);
+      } else if (field === 3 && visitor.way) {
+        readWay(group.sub(), strings, visitor.way);
+      } else {
+        group.skip(wireType);
+      }
+    }
+  });
+};
+
+const readNode = (
+  reader: ProtoReader,
+  strings: string[],
+  toDegrees: (value: number, offset: number) => number,
+  latOffset: number,
+  lonOffset: number,
+  visit: (node: PbfNode) => void
+): void => {
+  let id = 0;
+  let lat = 0;
+  let lon = 0;
+  let keys: number[] = [];
+  let vals: number[] = [];
+  while (!reader.eof()) {
+    const [field, wireType] = reader.key();
+    if (field === 1) id = reader.svarint();
+    else if (field === 2) keys = reader.packed((r) => r.varint());
+    else if (field === 3) vals = reader.packed((r) => r.varint());
+    else if (field === 8) lat = reader.svarint();
+    else if (field === 9) lon = reader.svarint();
+    else reader.skip(wireType);
+  }
+  visit({
+    id,
+    lat: toDegrees(lat, latOffset),
+    lon: toDegrees(lon, lonOffset),
+    tags: keys.length > 0 ? readTags(keys, vals, strings) : undefined,
+  });
+};
+
+const readDenseNodes = (
+  reader: ProtoReader,
+  strings: string[],
+  toDegrees: (value: number, offset: number) => number,
+  latOffset: number,
+  lonOffset: number,
+  visit: (node: PbfNode) => void
+): void => {
+  let ids: number[] = [];
+  let lats: number[] = [];
+  let lons: number[] = [];
+  let keysVals: number[] = [];
+  while (!reader.eof()) {
+    const [field, wireType] = reader.key();
+    if (field === 1) ids = reader.packed((r) => r.svarint());
+    else if (field === 8) lats = reader.packed((r) => r.svarint());
+    else if (field === 9) lons = reader.packed((r) => r.svarint());
+    else if (field === 10) keysVals = reader.packed((r) => r.varint());
+    else reader.skip(wireType);
+  }
+
+  // IDs and coordinates are delta coded; tags are key/value index pairs
+  // separated by 0 for each node
+  let id = 0;
+  let lat = 0;
+  let lon = 0;
+  let kv = 0;
+  for (let i = 0; i < ids.length; i++) {
+    id += ids[i];
+    lat += lats[i];
+    lon += lons[i];
+
+    let tags: Record<string, string> | undefined;
+    while (kv < keysVals.length && keysVals[kv] !== 0) {
+      tags = tags || {};
+      tags[strings[keysVals[kv]]] = strings[keysVals[kv + 1]];
+      kv += 2;
+    }
+    kv++;
+
+    visit({
+      id,
+      lat: toDegrees(lat, latOffset),
+      lon: toDegrees(lon, lonOffset),
+      tags,
+    });
+  }
+};
+
+const readWay = (
+  reader: ProtoReader,
+  strings: string[],
+  visit: (way: PbfWay) => void
+): void => {
+  let id = 0;
+  let keys: number[] = [];
+  let vals: number[] = [];
+  let refs: number[] = [];
+  while (!reader.eof()) {
+    const [field, wireType] = reader.key();
+    if (field === 1) id = reader.varint();
+    else if (field === 2) keys = reader.packed((r) => r.varint());
+    else if (field === 3) vals = reader.packed((r) => r.varint());
+    else if (field === 8) refs = reader.packed((r) => r.svarint());
+    else reader.skip(wireType);
+  }
+
+  let ref = 0;
+  visit({
+    id,
+    refs: refs.map((delta) => (ref += delta)),
+    tags: readTags(keys, vals, strings),
+  });
+};
+
+// Walk every node and way in the file, returning the file header
+export const readPbf = async (
+  buffer: ArrayBuffer,
+  visitor: PbfVisitor
+): Promise<PbfHeader> => {
+  let header: PbfHeader = {};
+  for await (const [type, data] of readBlobs(buffer)) {
+    if (type === "OSMHeader") {
+      header = readHeader(data);
+    } else if (type === "OSMData") {
+      readPrimitiveBlock(data, visitor);
+      // Give the UI a chance to update between blocks
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+  return header;
+};
@@ -0,0 +1,328 @@
+// Pool of Overpass API endpoints with health tracking and automatic failover
+// The endpoint list is stored in localStorage; health is tracked per session.
+import type { OverpassElement } from "./spatialIndexService";
+
+export interface OverpassEndpoint {
+  id: string;
+  name: string;
+  url: string; // Interpreter URL, e.g. https://overpass-api.de/api/interpreter
+  enabled: boolean;
+  builtIn?: boolean;
+}
+
+export interface EndpointHealth {
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  latency?: number; // Moving average of successful request time (ms)
+  lastError?: string;
+  lastUsedAt?: number;
+  cooldownUntil?: number; // Skipped until this time after failures or rate limiting
+  status?: EndpointStatus;
+}
+
+// Parsed `/api/status` response
+export interface EndpointStatus {
+  rateLimit: number; // Slots per client, 0 means unlimited
+  slotsAvailable: number;
+  nextSlotIn?: number; // Seconds until the next slot frees up
+  checkedAt: number;
+}
+
+export interface OverpassQueryResult {
+  elements: OverpassElement[];
+  endpoint: string; // URL of the endpoint that answered
+}
+
+export const DEFAULT_OVERPASS_ENDPOINTS: OverpassEndpoint[] = [
+  {
+    id: "private-coffee",
+    name: "private.coffee",
+    url: "https://overpass.private.coffee/api/interpreter",
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    id: "overpass-api-de",
+    name: "overpass-api.de",
+    url: "https://overpass-api.de/api/interpreter",
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    id: "kumi-systems",
+    name: "kumi.systems",
+    url: "https://overpass.kumi.systems/api/interpreter",
+    enabled: true,
+    builtIn: true,
+  },
+];
+
+const REQUEST_TIMEOUT = 90 * 1000;
+const STATUS_TIMEOUT = 5 * 1000;
+const STATUS_TTL = 30 * 1000;
+// Wait for a free slot when it opens within this time, otherwise fail over
+const MAX_SLOT_WAIT = 15;
+const BASE_COOLDOWN = 30 * 1000;
+const MAX_COOLDOWN = 5 * 60 * 1000;
+
+// Status page lives next to the interpreter: .../api/interpreter -> .../api/status
+export const getStatusUrl = (url: string): string =>
+  url.replace(/\/interpreter\/?$/, "/status");
+
+export const parseEndpointStatus = (text: string): EndpointStatus => {
+  const rateLimit = Number(text.match(/Rate limit:\s*(\d+)/)?.[1] ?? 0);
+  const slotsAvailable = Number(
+    text.match(/(\d+) slots? available now/)?.[1] ?? 0
+  );
+  const waits = Array.from(text.matchAll(/in (-?\d+) seconds/g)).map((m) =>
+    Number(m[1])
+  );
+  return {
+    rateLimit,
+    slotsAvailable,
+    nextSlotIn: waits.length > 0 ? Math.max(0, Math.min(...waits)) : undefined,
+    checkedAt: Date.now(),
+  };
+};
+
+const fetchWithTimeout = async (
+  url: string,
+  init: RequestInit,
+  timeout: number
+): Promise<Response> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+class OverpassEndpointService {
+  private readonly STORAGE_KEY = "futuricity_overpass_endpoints";
+  private health = new Map<string, EndpointHealth>();
+
+  // Configured endpoints in priority order
+  getEndpoints(): OverpassEndpoint[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return DEFAULT_OVERPASS_ENDPOINTS;
+      return JSON.parse(stored);
+    } catch (error) {
+      console.error("Error loading Overpass endpoints:", error);
+      return DEFAULT_OVERPASS_ENDPOINTS;
+    }
+  }
+
+  // Add a custom (e.g. self-hosted) endpoint; it is tried first. Throws on a
+  // malformed or non-http(s) URL.
+  addEndpoint(name: string, url: string): OverpassEndpoint {
+    let parsed: URL;
+    try {
+      parsed = new URL(url.trim());
+    } catch {
+      throw new Error(`Invalid Overpass endpoint URL: ${url}`);
+    }
+    if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+      throw new Error(`Unsupported Overpass endpoint protocol: ${parsed.protocol}`);
+    }
+
+    const endpoint: OverpassEndpoint = {
+      id: `endpoint_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: name.trim() || parsed.host,
+      url: url.trim(),
+      enabled: true,
+    };
+    this.saveEndpoints([endpoint, ...this.getEndpoints()]);
+    return endpoint;
+  }
+
+  setEnabled(id: string, enabled: boolean): void {
+    this.saveEndpoints(
+      this.getEndpoints().map((e) => (e.id === id ? { ...e, enabled } : e))
+    );
+  }
+
+  // Built-in endpoints can only be disabled
+  removeEndpoint(id: string): void {
+    this.saveEndpoints(
+      this.getEndpoints().filter((e) => e.id !== id || e.builtIn)
+    );
+    this.health.delete(id);
+  }
+
+  resetEndpoints(): void {
+    try {
+      localStorage.removeItem(this.STORAGE_KEY);
+    } catch (error) {
+      console.error("Error resetting Overpass endpoints:", error);
+    }
+    this.health.clear();
+  }
+
+  getHealth(id: string): EndpointHealth {
+    return (
+      this.health.get(id) || { successes: 0, failures: 0, consecutiveFailures: 0 }
+    );
+  }
+
+  // Enabled endpoints, healthy and fast ones first. Endpoints cooling down
+  // after failures go last so they are still tried when nothing else works.
+  rankEndpoints(): OverpassEndpoint[] {
+    const now = Date.now();
+    const rank = (endpoint: OverpassEndpoint) => {
+      const health = this.getHealth(endpoint.id);
+      const coolingDown = (health.cooldownUntil || 0) > now ? 1 : 0;
+      // Untried endpoints follow measured ones, in their configured order
+      return [coolingDown, health.consecutiveFailures, health.latency ?? Infinity];
+    };
+    return this.getEndpoints()
+      .filter((e) => e.enabled)
+      .map((endpoint, index) => ({ endpoint, index, key: rank(endpoint) }))
+      .sort((a, b) => {
+        for (let i = 0; i < a.key.length; i++) {
+          if (a.key[i] !== b.key[i]) return a.key[i] - b.key[i];
+        }
+        return a.index - b.index;
+      })
+      .map(({ endpoint }) => endpoint);
+  }
+
+  // Read slot information from `/api/status`. Returns undefined when the
+  // endpoint does not expose it (e.g. blocked by CORS on a self-hosted server).
+  async checkStatus(endpoint: OverpassEndpoint): Promise<EndpointStatus | undefined> {
+    const health = this.getHealth(endpoint.id);
+    if (health.status && Date.now() - health.status.checkedAt < STATUS_TTL) {
+      return health.status;
+    }
+
+    try {
+      const response = await fetchWithTimeout(
+        getStatusUrl(endpoint.url),
+        {},
+        STATUS_TIMEOUT
+      );
+      if (!response.ok) return undefined;
+      const status = parseEndpointStatus(await response.text());
+      this.health.set(endpoint.id, { ...this.getHealth(endpoint.id), status });
+      return status;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Run a query against the pool, failing over to the next endpoint on errors,
+  // timeouts or missing rate limit slots
+  async query(body: string): Promise<OverpassQueryResult> {
+    const endpoints = this.rankEndpoints();
+    if (endpoints.length === 0) {
+      throw new Error("No Overpass endpoint is enabled");
+    }
+
+    let lastError: unknown;
+    for (const endpoint of endpoints) {
+      const status = await this.checkStatus(endpoint);
+      if (status && status.rateLimit > 0 && status.slotsAvailable === 0) {
+        const wait = status.nextSlotIn ?? Infinity;
+        if (wait > MAX_SLOT_WAIT) {
+          console.warn(
+            `%c[Overpass] ⏳ ${endpoint.name} has no free slot for ${wait}s, trying next endpoint`,
+            "color: #eab308"
+          );
+          this.markRateLimited(endpoint, Math.min(wait * 1000, MAX_COOLDOWN));
+          lastError = new Error(`No free slot on ${endpoint.name}`);
+          continue;
+        }
+        await new Promise((resolve) => setTimeout(resolve, wait * 1000));
+      }
+
+      const startedAt = Date.now();
+      try {
+        const response = await fetchWithTimeout(
+          endpoint.url,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/x-www-form-urlencoded" },
+            body,
+          },
+          REQUEST_TIMEOUT
+        );
+
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const data = await response.json();
+        this.markSuccess(endpoint, Date.now() - startedAt);
+        return { elements: data.elements || [], endpoint: endpoint.url };
+      } catch (error) {
+        console.warn(
+          `%c[Overpass] ⚠️ ${endpoint.name} failed, trying next endpoint:`,
+          "color: #eab308",
+          error
+        );
+        this.markFailure(
+          endpoint,
+          error instanceof Error ? error.message : String(error)
+        );
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  private markSuccess(endpoint: OverpassEndpoint, latency: number): void {
+    const health = this.getHealth(endpoint.id);
+    this.health.set(endpoint.id, {
+      ...health,
+      successes: health.successes + 1,
+      consecutiveFailures: 0,
+      status: undefined, // Slot usage changed, re-check before the next query
+      latency:
+        health.latency === undefined
+          ? latency
+          : Math.round(health.latency * 0.7 + latency * 0.3),
+      lastUsedAt: Date.now(),
+      cooldownUntil: undefined,
+    });
+  }
+
+  // Skip a busy endpoint until its next slot frees up; this is not a failure
+  private markRateLimited(endpoint: OverpassEndpoint, cooldown: number): void {
+    this.health.set(endpoint.id, {
+      ...this.getHealth(endpoint.id),
+      cooldownUntil: Date.now() + cooldown,
+    });
+  }
+
+  // Back off exponentially with every consecutive failure
+  private markFailure(endpoint: OverpassEndpoint, message: string): void {
+    const health = this.getHealth(endpoint.id);
+    const consecutiveFailures = health.consecutiveFailures + 1;
+    this.health.set(endpoint.id, {
+      ...health,
+      failures: health.failures + 1,
+      consecutiveFailures,
+      lastError: message,
+      lastUsedAt: Date.now(),
+      cooldownUntil:
+        Date.now() +
+        Math.min(BASE_COOLDOWN * Math.pow(2, consecutiveFailures - 1), MAX_COOLDOWN),
+      status: undefined,
+    });
+  }
+
+  private saveEndpoints(endpoints: OverpassEndpoint[]): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(endpoints));
+    } catch (error) {
+      console.error("Error saving Overpass endpoints:", error);
+    }
+  }
+}
+
+// Export singleton instance
+export const overpassEndpointService = new OverpassEndpointService();
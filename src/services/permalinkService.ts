@@ -0,0 +1,91 @@
+// Shareable analysis permalinks
+// Encodes the state needed to reproduce an analysis into an /analyze URL, e.g.
+// /analyze?lat=-6.2&lng=106.8&zoom=15&mode=urban-planner&lang=id
+
+export type PermalinkUserMode = "residents" | "business-owner" | "urban-planner";
+export type PermalinkLanguage = "en" | "id";
+
+export interface AnalysisPermalink {
+  lat: number;
+  lng: number;
+  zoom?: number;
+  mode?: PermalinkUserMode;
+  language?: PermalinkLanguage;
+  visibleCategories?: string[]; // Categories shown on the map
+  satellite?: boolean;
+  profileId?: string; // Scoring profile
+}
+
+export const PERMALINK_PATH = "/analyze";
+
+const USER_MODES: PermalinkUserMode[] = [
+  "residents",
+  "business-owner",
+  "urban-planner",
+];
+const LANGUAGES: PermalinkLanguage[] = ["en", "id"];
+
+// Query string for a permalink (without the leading "?")
+export const buildPermalinkQuery = (link: AnalysisPermalink): string => {
+  const params = new URLSearchParams();
+  params.set("lat", link.lat.toFixed(6));
+  params.set("lng", link.lng.toFixed(6));
+  if (link.zoom !== undefined) params.set("zoom", link.zoom.toFixed(2));
+  if (link.mode) params.set("mode", link.mode);
+  if (link.language) params.set("lang", link.language);
+  if (link.visibleCategories) {
+    params.set("categories", link.visibleCategories.join(","));
+  }
+  if (link.satellite !== undefined) params.set("satellite", link.satellite ? "1" : "0");
+  if (link.profileId) params.set("profile", link.profileId);
+  return params.toString();
+};
+
+// Absolute URL to share
+export const buildPermalinkUrl = (link: AnalysisPermalink): string =>
+  `${window.location.origin}${PERMALINK_PATH}?${buildPermalinkQuery(link)}`;
+
+// Parse a permalink query string. Returns null without a valid location;
+// invalid optional values are dropped.
+export const parsePermalink = (search: string): AnalysisPermalink | null => {
+  const params = new URLSearchParams(search);
+  const lat = Number(params.get("lat"));
+  const lng = Number(params.get("lng"));
+  if (
+    !params.has("lat") ||
+    !params.has("lng") ||
+    !Number.isFinite(lat) ||
+    !Number.isFinite(lng) ||
+    Math.abs(lat) > 90 ||
+    Math.abs(lng) > 180
+  ) {
+    return null;
+  }
+
+  const link: AnalysisPermalink = { lat, lng };
+
+  const zoom = Number(params.get("zoom"));
+  if (params.has("zoom") && Number.isFinite(zoom)) {
+    link.zoom = Math.min(Math.max(zoom, 5), 18);
+  }
+
+  const mode = params.get("mode") as PermalinkUserMode;
+  if (USER_MODES.includes(mode)) link.mode = mode;
+
+  const language = params.get("lang") as PermalinkLanguage;
+  if (LANGUAGES.includes(language)) link.language = language;
+
+  if (params.has("categories")) {
+    link.visibleCategories = params
+      .get("categories")!
+      .split(",")
+      .filter(Boolean);
+  }
+
+  if (params.has("satellite")) link.satellite = params.get("satellite") === "1";
+
+  const profileId = params.get("profile");
+  if (profileId) link.profileId = profileId;
+
+  return link;
+};
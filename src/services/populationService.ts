@@ -0,0 +1,413 @@
+// Population layer service
+// Imports population or density data from a local GeoJSON or CSV file (e.g.
+// census blocks) and counts the residents within walking time of a location.
+// Polygons are spread over sample points so partly covered blocks count in
+// proportion; the points are kept in IndexedDB, the layer details in localStorage.
+import { GeoBounds } from "./geohashService";
+import { generateHexGrid, isPointInPolygon } from "./heatmapService";
+import { parseCsv } from "./batchScoringService";
+import { calculateDistance } from "./livabilityService";
+import {
+  ISOCHRONE_MINUTES,
+  IsochroneBand,
+  WALKING_SPEED_M_PER_MIN,
+} from "./walkingNetworkService";
+
+export interface PopulationLayerInfo {
+  name: string; // Imported file name
+  format: "geojson" | "csv";
+  importedAt: number;
+  featureCount: number; // Blocks or rows with a usable population value
+  totalPopulation: number;
+  bounds: GeoBounds;
+}
+
+export interface PopulationReachBand {
+  minutes: number;
+  residents: number;
+}
+
+export interface PopulationReach {
+  bands: PopulationReachBand[]; // One per walking time band
+  residents: number; // Residents within REACH_MINUTES
+  minutes: number;
+  method: "isochrone" | "radius"; // Walking network polygon or straight-line circle
+  layerName: string;
+}
+
+// Walking time of the headline reach metric (minutes)
+export const REACH_MINUTES = 10;
+
+// A point carrying part of a block's population
+interface PopulationPoint {
+  lat: number;
+  lng: number;
+  population: number;
+}
+
+const POPULATION_KEYS = [
+  "population",
+  "pop",
+  "pop_total",
+  "total_pop",
+  "residents",
+  "penduduk",
+  "jumlah_penduduk",
+  "jiwa",
+];
+// People per square kilometer
+const DENSITY_KEYS = ["density", "pop_density", "population_density", "kepadatan"];
+const LAT_HEADERS = ["lat", "latitude", "y"];
+const LNG_HEADERS = ["lng", "lon", "long", "longitude", "x"];
+
+// Sample points per polygon; small polygons get fewer
+const MAX_SAMPLES_PER_POLYGON = 32;
+const MIN_SAMPLE_SPACING = 25;
+
+const METERS_PER_DEGREE = 111320;
+
+// Numeric value of the first matching property, ignoring key case
+const findNumber = (
+  properties: Record<string, unknown>,
+  keys: string[]
+): number | undefined => {
+  const entry = Object.entries(properties).find(([key]) =>
+    keys.includes(key.trim().toLowerCase())
+  );
+  if (!entry) return undefined;
+  const value =
+    typeof entry[1] === "number" ? entry[1] : parseFloat(String(entry[1]));
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+};
+
+// Area of a [lng, lat] ring in square meters (local equirectangular projection)
+const ringArea = (ring: Array<[number, number]>): number => {
+  const cosLat = Math.cos(
+    ((ring.reduce((sum, [, lat]) => sum + lat, 0) / ring.length) * Math.PI) / 180
+  );
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+  }
+  return Math.abs(area / 2) * METERS_PER_DEGREE * METERS_PER_DEGREE * cosLat;
+};
+
+// Spread a population evenly over sample points inside a ring.
+// Holes are ignored; census blocks rarely have them.
+const samplePolygon = (
+  ring: Array<[number, number]>,
+  population: number
+): PopulationPoint[] => {
+  const area = ringArea(ring);
+  const spacing = Math.max(
+    MIN_SAMPLE_SPACING,
+    Math.sqrt(area / MAX_SAMPLES_PER_POLYGON)
+  );
+  let centers = generateHexGrid(ring, spacing, MAX_SAMPLES_PER_POLYGON).centers;
+  if (centers.length === 0) {
+    centers = [
+      {
+        lat: ring.reduce((sum, [, lat]) => sum + lat, 0) / ring.length,
+        lng: ring.reduce((sum, [lng]) => sum + lng, 0) / ring.length,
+      },
+    ];
+  }
+  return centers.map(({ lat, lng }) => ({
+    lat,
+    lng,
+    population: population / centers.length,
+  }));
+};
+
+interface GeoJsonFeature {
+  type: "Feature";
+  properties?: Record<string, unknown> | null;
+  geometry?: {
+    type: string;
+    coordinates: unknown;
+  } | null;
+}
+
+// Points of one feature; population comes from a count or from density × area
+const featurePoints = (feature: GeoJsonFeature): PopulationPoint[] => {
+  const properties = feature.properties || {};
+  const geometry = feature.geometry;
+  if (!geometry) return [];
+
+  const population = findNumber(properties, POPULATION_KEYS);
+  const density = findNumber(properties, DENSITY_KEYS);
+
+  if (geometry.type === "Point") {
+    const [lng, lat] = geometry.coordinates as [number, number];
+    return population !== undefined ? [{ lat, lng, population }] : [];
+  }
+
+  const polygons =
+    geometry.type === "Polygon"
+      ? [geometry.coordinates as Array<Array<[number, number]>>]
+      : geometry.type === "MultiPolygon"
+      ? (geometry.coordinates as Array<Array<Array<[number, number]>>>)
+      : [];
+  const rings = polygons.map((polygon) => polygon[0]).filter((r) => r?.length > 2);
+  if (rings.length === 0) return [];
+
+  const areas = rings.map(ringArea);
+  const totalArea = areas.reduce((sum, area) => sum + area, 0);
+  const total =
+    population !== undefined
+      ? population
+      : density !== undefined
+      ? (density * totalArea) / 1e6
+      : undefined;
+  if (total === undefined || totalArea === 0) return [];
+
+  // Multi-part blocks share their population by area
+  return rings.flatMap((ring, i) =>
+    samplePolygon(ring, (total * areas[i]) / totalArea)
+  );
+};
+
+const readGeoJson = (
+  text: string
+): { points: PopulationPoint[]; featureCount: number } => {
+  const data = JSON.parse(text);
+  const features: GeoJsonFeature[] =
+    data.type === "FeatureCollection"
+      ? data.features
+      : data.type === "Feature"
+      ? [data]
+      : [];
+  if (!Array.isArray(features)) {
+    throw new Error("Not a GeoJSON file: missing features");
+  }
+
+  const points: PopulationPoint[] = [];
+  let featureCount = 0;
+  features.forEach((feature) => {
+    const featurePopulation = featurePoints(feature);
+    if (featurePopulation.length > 0) {
+      points.push(...featurePopulation);
+      featureCount++;
+    }
+  });
+  return { points, featureCount };
+};
+
+const findColumn = (headers: string[], names: string[]): number =>
+  headers.findIndex((h) => names.includes(h.trim().toLowerCase()));
+
+// CSV with one point per row: lat, lng and population columns
+const readCsv = (
+  text: string
+): { points: PopulationPoint[]; featureCount: number } => {
+  const [headers, ...records] = parseCsv(text.replace(/^\uFEFF/, ""));
+  const latColumn = findColumn(headers || [], LAT_HEADERS);
+  const lngColumn = findColumn(headers || [], LNG_HEADERS);
+  const populationColumn = findColumn(headers || [], POPULATION_KEYS);
+  if (latColumn === -1 || lngColumn === -1 || populationColumn === -1) {
+    throw new Error("The CSV needs lat, lng and population columns");
+  }
+
+  const points: PopulationPoint[] = [];
+  records.forEach((record) => {
+    const lat = parseFloat(record[latColumn]);
+    const lng = parseFloat(record[lngColumn]);
+    const population = parseFloat(record[populationColumn]);
+    if (
+      Math.abs(lat) <= 90 &&
+      Math.abs(lng) <= 180 &&
+      Number.isFinite(population) &&
+      population >= 0
+    ) {
+      points.push({ lat, lng, population });
+    }
+  });
+  return { points, featureCount: points.length };
+};
+
+const boundsOf = (points: PopulationPoint[]): GeoBounds => {
+  const bounds = { south: 90, west: 180, north: -90, east: -180 };
+  points.forEach(({ lat, lng }) => {
+    bounds.south = Math.min(bounds.south, lat);
+    bounds.west = Math.min(bounds.west, lng);
+    bounds.north = Math.max(bounds.north, lat);
+    bounds.east = Math.max(bounds.east, lng);
+  });
+  return bounds;
+};
+
+// Residents per walking time band. Uses the walking isochrones when available,
+// otherwise a straight-line circle of the walkable distance.
+export const calculatePopulationReach = (
+  points: PopulationPoint[],
+  lat: number,
+  lng: number,
+  isochrones: IsochroneBand[] = []
+): Omit<PopulationReach, "layerName"> => {
+  const useIsochrones = isochrones.some((band) => band.minutes === REACH_MINUTES);
+  const bandMinutes = useIsochrones
+    ? isochrones.map((band) => band.minutes)
+    : ISOCHRONE_MINUTES;
+
+  const bands = bandMinutes.map((minutes) => {
+    const isochrone = useIsochrones
+      ? isochrones.find((band) => band.minutes === minutes)
+      : undefined;
+    const limit = minutes * WALKING_SPEED_M_PER_MIN;
+    let residents = 0;
+    points.forEach((point) => {
+      // Nothing walkable lies beyond the straight-line distance
+      if (calculateDistance(lat, lng, point.lat, point.lng) > limit) return;
+      if (
+        isochrone &&
+        !isPointInPolygon(point.lng, point.lat, isochrone.coordinates)
+      ) {
+        return;
+      }
+      residents += point.population;
+    });
+    return { minutes, residents: Math.round(residents) };
+  });
+
+  return {
+    bands,
+    residents:
+      bands.find((band) => band.minutes === REACH_MINUTES)?.residents ?? 0,
+    minutes: REACH_MINUTES,
+    method: useIsochrones ? "isochrone" : "radius",
+  };
+};
+
+class PopulationService {
+  private readonly DB_NAME = "futuricity_population";
+  private readonly STORE_NAME = "layer";
+  private readonly RECORD_KEY = "points";
+  private readonly INFO_STORAGE_KEY = "futuricity_population_layer";
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private points: PopulationPoint[] | null = null;
+
+  // Details of the imported layer, or null when none is imported
+  getLayerInfo(): PopulationLayerInfo | null {
+    try {
+      const stored = localStorage.getItem(this.INFO_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error("Error loading population layer info:", error);
+      return null;
+    }
+  }
+
+  // Import a GeoJSON or CSV file, replacing the previous layer
+  async importLayer(file: File): Promise<PopulationLayerInfo> {
+    const isCsv = /\.csv$/i.test(file.name);
+    const text = await file.text();
+    const { points, featureCount } = isCsv ? readCsv(text) : readGeoJson(text);
+    if (points.length === 0) {
+      throw new Error("The file contains no population or density values");
+    }
+
+    await this.writePoints(points);
+    this.points = points;
+
+    const info: PopulationLayerInfo = {
+      name: file.name,
+      format: isCsv ? "csv" : "geojson",
+      importedAt: Date.now(),
+      featureCount,
+      totalPopulation: Math.round(
+        points.reduce((sum, point) => sum + point.population, 0)
+      ),
+      bounds: boundsOf(points),
+    };
+    localStorage.setItem(this.INFO_STORAGE_KEY, JSON.stringify(info));
+    return info;
+  }
+
+  async deleteLayer(): Promise<void> {
+    await this.writePoints(null);
+    this.points = null;
+    localStorage.removeItem(this.INFO_STORAGE_KEY);
+  }
+
+  // Population reach around a location, or null without a layer covering it
+  async getReach(
+    lat: number,
+    lng: number,
+    isochrones: IsochroneBand[] = []
+  ): Promise<PopulationReach | null> {
+    const info = this.getLayerInfo();
+    if (
+      !info ||
+      lat < info.bounds.south ||
+      lat > info.bounds.north ||
+      lng < info.bounds.west ||
+      lng > info.bounds.east
+    ) {
+      return null;
+    }
+    const points = await this.loadPoints();
+    return {
+      ...calculatePopulationReach(points, lat, lng, isochrones),
+      layerName: info.name,
+    };
+  }
+
+  private async loadPoints(): Promise<PopulationPoint[]> {
+    if (this.points) return this.points;
+    const db = await this.openDb();
+    const flat = await new Promise<number[] | undefined>((resolve, reject) => {
+      const request = db
+        .transaction(this.STORE_NAME, "readonly")
+        .objectStore(this.STORE_NAME)
+        .get(this.RECORD_KEY);
+      request.onsuccess = () => resolve(request.result?.values);
+      request.onerror = () => reject(request.error);
+    });
+
+    const points: PopulationPoint[] = [];
+    for (let i = 0; flat && i < flat.length; i += 3) {
+      points.push({ lat: flat[i], lng: flat[i + 1], population: flat[i + 2] });
+    }
+    this.points = points;
+    return points;
+  }
+
+  // Points are stored as one flat [lat, lng, population, ...] array
+  private async writePoints(points: PopulationPoint[] | null): Promise<void> {
+    const db = await this.openDb();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(this.STORE_NAME, "readwrite");
+      const store = transaction.objectStore(this.STORE_NAME);
+      if (points) {
+        store.put({
+          key: this.RECORD_KEY,
+          values: points.flatMap((p) => [p.lat, p.lng, p.population]),
+        });
+      } else {
+        store.delete(this.RECORD_KEY);
+      }
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.STORE_NAME, { keyPath: "key" });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+// Export singleton instance
+export const populationService = new PopulationService();
@@ -1,4 +1,6 @@
 import { jsPDF } from 'jspdf';
+import type { PopulationReach } from './populationService';
+import { CATEGORY_KEYS, FacilityCategory } from './categoryTaxonomy';
 
 export interface ReportInput {
   address: string;
@@ -10,22 +12,12 @@ export interface ReportInput {
     safety: number;
     environment: number;
   };
-  facilityCounts: {
-    health: number;
-    education: number;
-    market: number;
-    transport: number;
-    walkability: number;
-    recreation: number;
-    safety: number;
-    accessibility: number;
-    police: number;
-    religious: number;
-  };
+  facilityCounts: Record<FacilityCategory, number>;
   nearbyFacilities?: string[];
   aiSummary?: string;
   userMode?: string;
   language?: string;
+  populationReach?: PopulationReach; // Business-owner reach metric
 }
 
 export function generatePdfReport(data: ReportInput) {
@@ -156,10 +148,42 @@ export function generatePdfReport(data: ReportInput) {
   
   cursorY += 45;
 
+  // Population Reach
+  if (data.populationReach) {
+    const reach = data.populationReach;
+    drawSectionTitle("Population Reach");
+
+    doc.setFontSize(20);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(15, 23, 42);
+    doc.text(reach.residents.toLocaleString("en-US"), margin, cursorY);
+    doc.setFontSize(10);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(100, 116, 139);
+    doc.text(`residents within a ${reach.minutes}-minute walk`, margin + 45, cursorY);
+    cursorY += 8;
+
+    doc.setTextColor(51, 65, 85);
+    const bandText = reach.bands
+      .map((band) => `${band.minutes} min: ${band.residents.toLocaleString("en-US")}`)
+      .join("   |   ");
+    doc.text(bandText, margin, cursorY);
+    cursorY += 6;
+
+    doc.setFontSize(8);
+    doc.setTextColor(148, 163, 184);
+    doc.text(
+      `${reach.method === "isochrone" ? "Walking network areas" : "Straight-line walking distance"} | Source: ${reach.layerName}`,
+      margin,
+      cursorY
+    );
+    cursorY += 15;
+  }
+
   // 4. Facility Counts
   drawSectionTitle("Facilities Overview");
   
-  const facilityKeys = Object.keys(data.facilityCounts);
+  const facilityKeys = CATEGORY_KEYS;
   const colWidth = (width - (margin * 2)) / 2;
   let row = 0;
   
@@ -174,7 +198,7 @@ export function generatePdfReport(data: ReportInput) {
     
     // Capitalize key
     const label = key.charAt(0).toUpperCase() + key.slice(1);
-    const value = data.facilityCounts[key as keyof typeof data.facilityCounts];
+    const value = data.facilityCounts[key] ?? 0;
     
     doc.text(`${label}:`, x, y);
     doc.setFont("helvetica", "bold");
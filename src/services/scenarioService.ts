@@ -0,0 +1,203 @@
+// What-if scenarios: hypothetical facilities placed around an analyzed location
+// Hypothetical facilities live in memory and in saved scenarios only; they are
+// never stored as custom POIs. Scenarios are kept in localStorage.
+import {
+  FACILITY_DISTANCES,
+  Facility,
+  FacilityCategory,
+  LivabilityOptions,
+  LiveabilityData,
+  SubscoreKey,
+  calculateDistance,
+  scoreFacilities,
+} from "./livabilityService";
+import { getLocationKey } from "./journalService";
+
+export interface HypotheticalFacility {
+  id: string;
+  name: string;
+  category: FacilityCategory;
+  lat: number;
+  lng: number;
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  address: string;
+  lat: number; // Analyzed location the scenario belongs to
+  lng: number;
+  facilities: HypotheticalFacility[];
+  createdAt: number;
+}
+
+export type ScoreDelta = Record<SubscoreKey | "overall", number>;
+
+export interface SimulationResult {
+  before: LiveabilityData;
+  after: LiveabilityData;
+  delta: ScoreDelta;
+  facilities: Facility[]; // Real and hypothetical facilities, scored together
+}
+
+const SUBSCORE_KEYS: SubscoreKey[] = [
+  "services",
+  "mobility",
+  "safety",
+  "environment",
+];
+
+// Hypothetical facilities are tagged so the map and popups can tell them apart
+export const toFacility = (
+  hypothetical: HypotheticalFacility,
+  lat: number,
+  lng: number
+): Facility => ({
+  id: hypothetical.id,
+  name: hypothetical.name,
+  category: hypothetical.category,
+  lat: hypothetical.lat,
+  lng: hypothetical.lng,
+  distance: calculateDistance(lat, lng, hypothetical.lat, hypothetical.lng),
+  contribution: 0,
+  tags: { hypothetical: true },
+});
+
+// Score the location with and without the hypothetical facilities
+export const simulateScenario = (
+  baseFacilities: Facility[],
+  hypotheticals: HypotheticalFacility[],
+  lat: number,
+  lng: number,
+  address: string,
+  options: LivabilityOptions = {}
+): SimulationResult => {
+  const before = scoreFacilities(baseFacilities, lat, lng, address, options);
+  const after = scoreFacilities(
+    [...baseFacilities, ...hypotheticals.map((h) => toFacility(h, lat, lng))],
+    lat,
+    lng,
+    address,
+    options
+  );
+
+  const delta = {
+    overall: after.data.overall - before.data.overall,
+  } as ScoreDelta;
+  SUBSCORE_KEYS.forEach((key) => {
+    delta[key] = after.data.subscores[key] - before.data.subscores[key];
+  });
+
+  return {
+    before: before.data,
+    after: after.data,
+    delta,
+    facilities: after.facilities,
+  };
+};
+
+// Scenario file format, with the scores it produced when exported
+interface ScenarioExport {
+  version: 1;
+  scenario: Scenario;
+  result?: Pick<SimulationResult, "before" | "after" | "delta">;
+}
+
+class ScenarioService {
+  private readonly STORAGE_KEY = "futuricity_scenarios";
+
+  getScenarios(): Scenario[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return [];
+      return JSON.parse(stored);
+    } catch (error) {
+      console.error("Error loading scenarios:", error);
+      return [];
+    }
+  }
+
+  // Scenarios saved for the same spot, most recent first
+  getScenariosAt(lat: number, lng: number): Scenario[] {
+    const locationKey = getLocationKey(lat, lng);
+    return this.getScenarios()
+      .filter((s) => getLocationKey(s.lat, s.lng) === locationKey)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  // Save a scenario; a scenario with the same name at the same spot is replaced
+  saveScenario(scenario: Omit<Scenario, "id" | "createdAt">): Scenario {
+    const existing = this.getScenariosAt(scenario.lat, scenario.lng).find(
+      (s) => s.name === scenario.name
+    );
+    const saved: Scenario = {
+      ...scenario,
+      id:
+        existing?.id ||
+        `scenario_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: Date.now(),
+    };
+    this.saveScenarios([
+      ...this.getScenarios().filter((s) => s.id !== saved.id),
+      saved,
+    ]);
+    return saved;
+  }
+
+  deleteScenario(id: string): void {
+    this.saveScenarios(this.getScenarios().filter((s) => s.id !== id));
+  }
+
+  // Scenario as a JSON document, including its simulated scores when given
+  exportScenario(scenario: Scenario, result?: SimulationResult): string {
+    const file: ScenarioExport = {
+      version: 1,
+      scenario,
+      result: result && {
+        before: result.before,
+        after: result.after,
+        delta: result.delta,
+      },
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  // Read an exported scenario and save it. Throws on files that are not scenarios.
+  importScenario(json: string): Scenario {
+    const file = JSON.parse(json) as Partial<ScenarioExport>;
+    const scenario = file.scenario;
+    if (
+      !scenario ||
+      typeof scenario.name !== "string" ||
+      !Number.isFinite(scenario.lat) ||
+      !Number.isFinite(scenario.lng) ||
+      !Array.isArray(scenario.facilities)
+    ) {
+      throw new Error("The file is not an exported scenario");
+    }
+    return this.saveScenario({
+      name: scenario.name,
+      address: scenario.address || "",
+      lat: scenario.lat,
+      lng: scenario.lng,
+      facilities: scenario.facilities.filter(
+        (f) =>
+          f &&
+          f.category in FACILITY_DISTANCES &&
+          Number.isFinite(f.lat) &&
+          Number.isFinite(f.lng)
+      ),
+    });
+  }
+
+  private saveScenarios(scenarios: Scenario[]): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(scenarios));
+    } catch (error) {
+      console.error("Error saving scenarios:", error);
+    }
+  }
+}
+
+// Export singleton instance
+export const scenarioService = new ScenarioService();
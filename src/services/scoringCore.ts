@@ -0,0 +1,713 @@
+// Shared livability scoring pipeline: Overpass queries, facility classification
+// and scoring. Free of browser APIs so the /api/score edge function runs exactly
+// the same code as the app.
+import {
+  DEFAULT_CATEGORY_WEIGHTS,
+  DEFAULT_PROFILE_ID,
+  ScoringProfile,
+  getBuiltInProfile,
+  resolveDecayConfig,
+  resolveQualityMultipliers,
+} from "./scoringProfileService";
+import {
+  ISOCHRONE_MINUTES,
+  IsochroneBand,
+  WALKING_SPEED_M_PER_MIN,
+  buildIsochrones,
+  buildPedestrianGraph,
+  computeNetworkDistances,
+  walkableWaysStatement,
+} from "./walkingNetworkService";
+import {
+  CATEGORY_KEYS,
+  CATEGORY_TAXONOMY,
+  FacilityCategory,
+  categoryStatements,
+  classifyElement,
+  createCategoryRecord,
+} from "./categoryTaxonomy";
+import { DedupCandidate, dedupeFacilities } from "./facilityDedup";
+import { FacilityQuality, getFacilityQuality } from "./facilityQuality";
+import {
+  TimeOfWeek,
+  WEEKDAY_KEYS,
+  getOpeningHours,
+  isOpenAt,
+} from "./openingHours";
+import { GeoBounds, calculateDistance } from "./geohashService";
+import type { OverpassElement } from "./spatialIndexService";
+
+export interface Facility {
+  id: string;
+  name: string;
+  category: string;
+  lng: number;
+  lat: number;
+  distance: number;
+  networkDistance?: number; // Walking distance along the street network, when known
+  contribution: number;
+  tags?: any; // Store original OSM tags for icon selection
+  sources?: FacilitySource[]; // OSM elements merged into this facility, when more than one
+  quality?: FacilityQuality; // Tagged attributes that scaled the contribution
+  closed?: boolean; // Closed at the time scored for, per its opening_hours
+}
+
+// Why an OSM element was merged into another facility
+export type DedupReason = "node-in-way" | "nearby";
+
+// One OSM element behind a facility
+export interface FacilitySource {
+  osmId: string; // e.g. "node/123"
+  name: string;
+  tags?: Record<string, string>;
+  reason?: DedupReason; // Absent for the element the others were compared with
+  distance?: number; // Meters from that element
+  similarity?: number; // Name similarity (0-1) when both elements are named
+}
+
+// Number of facilities reachable within a walking time band (e.g. 5-10 minutes)
+export interface TimeBandCount {
+  minutes: number; // Upper bound of the band
+  count: number;
+}
+
+export interface LiveabilityData {
+  overall: number;
+  subscores: {
+    services: number;
+    mobility: number;
+    safety: number;
+    environment: number;
+  };
+  location: {
+    address: string;
+    coordinates: { lng: number; lat: number };
+  } | null;
+  facilityCounts: Record<FacilityCategory, number>;
+  timeBandCounts?: TimeBandCount[]; // Facilities per walking time band
+  overpassEndpoints?: string[]; // Overpass endpoints that supplied the data
+}
+
+export type { FacilityCategory };
+export type SubscoreKey = keyof LiveabilityData["subscores"];
+
+export type CategoryRadii = Partial<Record<FacilityCategory, number>>;
+
+// "straight" uses Haversine distance, "network" uses walking distance along streets
+export type DistanceMode = "straight" | "network";
+
+export interface ScoringOptions {
+  profile?: ScoringProfile; // Scoring profile to apply (defaults to the balanced profile)
+  radii?: CategoryRadii; // Search radius per category in meters (defaults to FACILITY_DISTANCES)
+  distanceMode?: DistanceMode; // Distance used for scoring (defaults to "straight")
+  namePack?: string; // Name-pattern pack for queries and classification (defaults to DEFAULT_NAME_PACK)
+  time?: TimeOfWeek; // Only facilities open at this time count (any time when unset)
+}
+
+// Default search radius per facility type
+export const FACILITY_DISTANCES = Object.fromEntries(
+  CATEGORY_KEYS.map((category) => [category, CATEGORY_TAXONOMY[category].radius])
+) as Record<FacilityCategory, number>;
+
+// Distance used for scoring a facility; falls back to straight-line distance
+// when the facility could not be reached on the walking network
+export const getScoringDistance = (
+  facility: Facility,
+  distanceMode: DistanceMode = "straight"
+): number =>
+  distanceMode === "network" && facility.networkDistance !== undefined
+    ? facility.networkDistance
+    : facility.distance;
+
+// Resolve the search radius for a category, honouring user settings
+export const getCategoryRadius = (
+  category: string,
+  radii?: CategoryRadii
+): number =>
+  radii?.[category as FacilityCategory] ||
+  FACILITY_DISTANCES[category as FacilityCategory] ||
+  1000;
+
+// Generate the Overpass query for a category from its taxonomy definition
+export const generateOverpassQuery = (
+  category: string,
+  lat: number,
+  lng: number,
+  radii?: CategoryRadii,
+  namePack?: string
+): string => {
+  const distance = getCategoryRadius(category, radii);
+  const statements = categoryStatements(
+    category in CATEGORY_TAXONOMY ? category : "health",
+    `(around:${distance},{lat},{lng})`,
+    namePack
+  );
+
+  return `
+      [out:json];
+      (
+        ${statements.join("\n        ")}
+      );
+      out bb;
+    `;
+};
+
+// Section holding the walkable street network in tile queries
+export const NETWORK_SECTION = "network";
+
+// One Overpass query for a bounding box covering every category plus the walkable
+// street network. Each section is followed by a marker element naming it, so the
+// response can be split back into categories.
+export const generateTileQuery = (
+  bounds: GeoBounds,
+  namePack?: string
+): string => {
+  const bboxFilter = `(${bounds.south},${bounds.west},${bounds.north},${bounds.east})`;
+
+  const sections = Object.keys(FACILITY_DISTANCES).map((category) => {
+    const body = generateOverpassQuery(category, 0, 0, undefined, namePack)
+      .replace("[out:json];", "")
+      .replace("out bb;", "")
+      .replace(/\(around:[\d.]+,\{lat\},\{lng\}\)/g, bboxFilter)
+      .trim();
+    return `${body}
+      out bb;
+      make section name="${category}";
+      out;`;
+  });
+
+  sections.push(`(
+        ${walkableWaysStatement(bboxFilter)}
+      );
+      out geom;
+      make section name="${NETWORK_SECTION}";
+      out;`);
+
+  return `
+    [out:json][timeout:60];
+    ${sections.join("\n    ")}
+  `;
+};
+
+// Split a tile query response into its sections using the marker elements
+export const splitSections = (
+  elements: OverpassElement[]
+): Record<string, OverpassElement[]> => {
+  const sections: Record<string, OverpassElement[]> = {};
+  let current: OverpassElement[] = [];
+  elements.forEach((element) => {
+    if (element.type === "section") {
+      sections[element.tags?.name || ""] = current;
+      current = [];
+    } else {
+      current.push(element);
+    }
+  });
+  return sections;
+};
+
+// Largest search radius over all categories
+export const getMaxRadius = (radii?: CategoryRadii): number =>
+  Math.max(
+    ...Object.keys(FACILITY_DISTANCES).map((category) =>
+      getCategoryRadius(category, radii)
+    )
+  );
+
+// Radius of street network to load around a location; a little beyond the
+// search radius so walking routes can detour
+export const getNetworkRadius = (radii?: CategoryRadii): number =>
+  Math.max(
+    getMaxRadius(radii),
+    Math.max(...ISOCHRONE_MINUTES) * WALKING_SPEED_M_PER_MIN
+  ) * 1.25;
+
+// Classify the indexed elements of every category section into facilities.
+// Elements may be re-classified into another category; duplicates across all
+// sections are merged by the dedup stage.
+export const collectFacilities = (
+  elementsFor: (category: string) => OverpassElement[],
+  lat: number,
+  lng: number,
+  radii?: CategoryRadii,
+  namePack?: string
+): Facility[] => {
+  const candidates = Object.keys(FACILITY_DISTANCES).flatMap((category) =>
+    processFacilities(elementsFor(category), category, lat, lng, radii, namePack)
+  );
+  return dedupeFacilities(candidates, namePack);
+};
+
+// Calculate distance-based contribution using gradual decay
+const calculateDistanceContribution = (
+  distance: number,
+  category: string,
+  profile?: ScoringProfile,
+  radii?: CategoryRadii
+): number => {
+  // Different decay rates for different facility types, optionally overridden by the profile.
+  // The curve always reaches zero at the category's configured search radius.
+  const config = {
+    ...resolveDecayConfig(category, profile),
+    maxDistance: getCategoryRadius(category, radii),
+  };
+
+  // If beyond max distance, no contribution
+  if (distance > config.maxDistance) {
+    return 0;
+  }
+
+  // Calculate contribution using exponential decay
+  // Formula: contribution = maxContribution * (1 - distance/maxDistance)^decayRate
+  const normalizedDistance = distance / config.maxDistance;
+  const contribution =
+    config.maxContribution * Math.pow(1 - normalizedDistance, config.decayRate);
+
+  // Ensure minimum contribution for very close facilities
+  const minContribution = config.maxContribution * 0.1;
+  return Math.max(contribution, minContribution);
+};
+
+// Classify the elements of one section into facilities within their category radius
+const processFacilities = (
+  elements: OverpassElement[],
+  category: string,
+  userLat: number,
+  userLng: number,
+  radii?: CategoryRadii,
+  namePack?: string
+): DedupCandidate[] =>
+  elements
+    .map((element, index) => {
+      // Ways come with a center (`out center`) or bounds (`out bb`)
+      const lat =
+        element.lat ??
+        element.center?.lat ??
+        (element.bounds ? (element.bounds.minlat + element.bounds.maxlat) / 2 : 0);
+      const lng =
+        element.lon ??
+        element.center?.lon ??
+        (element.bounds ? (element.bounds.minlon + element.bounds.maxlon) / 2 : 0);
+      const distance = calculateDistance(userLat, userLng, lat, lng);
+
+      // Category from the taxonomy, falling back to the queried category
+      const actualCategory = classifyElement(element.tags, category, namePack);
+
+      const name =
+        element.tags?.name ||
+        element.tags?.shop ||
+        element.tags?.amenity ||
+        element.tags?.leisure ||
+        element.tags?.highway ||
+        element.tags?.traffic_calming ||
+        element.tags?.crossing_ref ||
+        element.tags?.man_made ||
+        element.tags?.barrier ||
+        element.tags?.kerb ||
+        element.tags?.wheelchair ||
+        element.tags?.tactile_paving ||
+        `${actualCategory} facility`;
+
+      // Calculate contribution using the new distance decay function
+      const contribution = calculateDistanceContribution(
+        distance,
+        actualCategory,
+        undefined,
+        radii
+      );
+
+      const facility: Facility = {
+        id: `${actualCategory}-${element.id || index}`,
+        name: String(name),
+        category: actualCategory,
+        lng,
+        lat,
+        distance: Math.round(distance),
+        contribution,
+        tags: element.tags, // Store original OSM tags for icon selection
+      };
+
+      return { facility, element };
+    })
+    .filter(
+      // Use category-specific search radius
+      ({ facility }) =>
+        facility.distance <= getCategoryRadius(facility.category, radii)
+    );
+
+// Calculate sub-scores using DISTANCE-BASED CONTRIBUTIONS
+// This is much more accurate than just counting facilities.
+// Example: A park 50m away (score 9.5) is worth more than a park 900m away (score 2.0)
+const calculateSubScores = (
+  categoryScores: Record<string, number>, // Sum of contributions
+  counts: Record<string, number>, // Keep counts for specific logic if needed
+  weights: ScoringProfile["categoryWeights"] = DEFAULT_CATEGORY_WEIGHTS
+) => {
+  // Helper to cap score at 100
+  const cap = (val: number) => Math.min(100, Math.round(val));
+
+  // Weighted sum of category contributions for one subscore
+  const weighted = (subscore: SubscoreKey) =>
+    Object.entries(weights[subscore] || {}).reduce(
+      (sum, [category, weight]) =>
+        sum + (categoryScores[category] || 0) * (weight || 0),
+      0
+    );
+
+  return {
+    services: cap(weighted("services")), // Health/Market are critical, Education/Religious are important
+    mobility: cap(weighted("mobility")), // Transport nodes + Walkability quality
+    safety: cap(weighted("safety")), // Safety infra + Police + Hospital access + Accessibility
+    environment: cap(weighted("environment")), // Recreation (Parks, etc)
+  };
+};
+
+// Special cases that change how much of a contribution reaches a category
+export type ShareAdjustment = "walkability" | "minor-safety" | "street-lamp";
+
+// Part of a facility's contribution added to a category score
+export interface FacilityShare {
+  category: FacilityCategory;
+  factor: number;
+  adjustment?: ShareAdjustment;
+}
+
+// Reduction for facility types that are numerous, like path segments and cameras
+const ABUNDANT_FACILITY_FACTOR = 0.25;
+
+// Where a facility's contribution goes and how much of it counts
+export const getFacilityShares = (facility: Facility): FacilityShare[] => {
+  const category = facility.category as FacilityCategory;
+
+  // IMPORTANT: Cap widely available items to prevent massive inflation
+  if (category === "walkability") {
+    // Walkability items (paths, lights) are numerous/segmented. Reduce impact.
+    const shares: FacilityShare[] = [
+      { category, factor: ABUNDANT_FACILITY_FACTOR, adjustment: "walkability" },
+    ];
+
+    // CRITICAL FIX: Street lamps are captured by 'walkability' (Priority 8) but should also contribute to 'safety'
+    const isLighting =
+      facility.tags?.highway === "street_lamp" || facility.tags?.lit === "yes";
+    if (isLighting) {
+      // Add to safety score as well (with same reduced weight)
+      shares.push({
+        category: "safety",
+        factor: ABUNDANT_FACILITY_FACTOR,
+        adjustment: "street-lamp",
+      });
+    }
+    return shares;
+  }
+
+  if (category === "safety") {
+    // Differentiate infrastructure (cameras) vs Major Services (Fire Stations)
+    return facility.tags?.amenity === "fire_station"
+      ? [{ category, factor: 1 }] // Full value for Fire Stations
+      : [{ category, factor: ABUNDANT_FACILITY_FACTOR, adjustment: "minor-safety" }]; // Reduced for cameras/infra
+  }
+
+  return [{ category, factor: 1 }];
+};
+
+// Whether a facility is open at a time; facilities without (readable)
+// opening_hours are assumed to be open
+export const isFacilityOpen = (facility: Facility, time?: TimeOfWeek): boolean => {
+  if (!time) return true;
+  const hours = getOpeningHours(facility.tags?.opening_hours);
+  return !hours || isOpenAt(hours, time);
+};
+
+// Whether a facility counts towards the score at all
+const isScoredFacility = (
+  facility: Facility,
+  radii: CategoryRadii | undefined,
+  distanceMode: DistanceMode,
+  time?: TimeOfWeek
+): boolean =>
+  facility.category in FACILITY_DISTANCES &&
+  // Facilities that are only close as the crow flies are out of walking range
+  getScoringDistance(facility, distanceMode) <=
+    getCategoryRadius(facility.category, radii) &&
+  isFacilityOpen(facility, time);
+
+// Score an already-fetched facility set under a scoring profile.
+// Contributions are recomputed from each facility's distance, so a location
+// can be rescored under different priorities without refetching Overpass data.
+export const scoreFacilities = (
+  facilities: Facility[],
+  lat: number,
+  lng: number,
+  address: string,
+  options: ScoringOptions = {}
+): { data: LiveabilityData; facilities: Facility[] } => {
+  const {
+    profile = getBuiltInProfile(DEFAULT_PROFILE_ID),
+    radii,
+    distanceMode = "straight",
+    time,
+  } = options;
+
+  // Track COUNT (quantity) for UI display
+  const facilityCounts = createCategoryRecord();
+
+  // Track SCORE (quality/contribution sum) for calculation
+  const categoryScores = createCategoryRecord();
+
+  const scoredFacilities = facilities.map((facility) => {
+    const quality = getFacilityQuality(
+      facility.tags,
+      resolveQualityMultipliers(facility.category, profile)
+    );
+    return {
+      ...facility,
+      contribution:
+        calculateDistanceContribution(
+          getScoringDistance(facility, distanceMode),
+          facility.category,
+          profile,
+          radii
+        ) * quality.multiplier,
+      quality: quality.hits.length > 0 ? quality : undefined,
+      closed: isFacilityOpen(facility, time) ? undefined : true,
+    };
+  });
+
+  // Facilities per walking time band (walking route when known, else straight line)
+  const timeBandCounts: TimeBandCount[] = ISOCHRONE_MINUTES.map((minutes) => ({
+    minutes,
+    count: 0,
+  }));
+
+  // Count facilities AND Sum Scores
+  scoredFacilities.forEach((facility) => {
+    if (!isScoredFacility(facility, radii, distanceMode, time)) return;
+
+    // Increment count
+    facilityCounts[facility.category as FacilityCategory]++;
+
+    const walkingDistance = getScoringDistance(facility, "network");
+    const band = timeBandCounts.find(
+      (b) => walkingDistance <= b.minutes * WALKING_SPEED_M_PER_MIN
+    );
+    if (band) band.count++;
+
+    // Add contribution score logic
+    getFacilityShares(facility).forEach((share) => {
+      categoryScores[share.category] += facility.contribution * share.factor;
+    });
+  });
+
+  // Calculate scores using the NEW contribution sums
+  const subscores = calculateSubScores(
+    categoryScores,
+    facilityCounts,
+    profile.categoryWeights
+  );
+
+  // Overall score is weighted average of sub-scores
+  const mix = profile.subscoreMix;
+  const mixTotal =
+    mix.services + mix.mobility + mix.safety + mix.environment || 1;
+  const overall =
+    (subscores.services * mix.services +
+      subscores.mobility * mix.mobility +
+      subscores.safety * mix.safety +
+      subscores.environment * mix.environment) /
+    mixTotal;
+
+  const data: LiveabilityData = {
+    overall,
+    subscores,
+    location: {
+      address,
+      coordinates: { lng, lat },
+    },
+    facilityCounts,
+    timeBandCounts,
+  };
+
+  return { data, facilities: scoredFacilities };
+};
+
+// One facility's effect on a subscore
+export interface ExplanationLine {
+  facility: Facility;
+  category: FacilityCategory; // Category score the share was added to
+  factor: number; // Share of the contribution that counts (see getFacilityShares)
+  adjustment?: ShareAdjustment;
+  weight: number; // Weight of the category in the subscore
+  quality: number; // Quality multiplier already included in the contribution
+  points: number; // contribution x factor x weight
+}
+
+export interface SubscoreExplanation {
+  raw: number; // Weighted sum before rounding and the cap at 100
+  score: number;
+  clipped: boolean; // True when the cap lowered the score
+  lines: ExplanationLine[]; // Largest effect first
+}
+
+export type ScoreExplanation = Record<SubscoreKey, SubscoreExplanation>;
+
+// Break the subscores of scored facilities down into per-facility points,
+// following the same steps as scoreFacilities
+export const explainScore = (
+  facilities: Facility[],
+  options: ScoringOptions = {}
+): ScoreExplanation => {
+  const {
+    profile = getBuiltInProfile(DEFAULT_PROFILE_ID),
+    radii,
+    distanceMode = "straight",
+    time,
+  } = options;
+  const weights = profile.categoryWeights;
+  const scored = facilities.filter((facility) =>
+    isScoredFacility(facility, radii, distanceMode, time)
+  );
+
+  const explain = (subscore: SubscoreKey): SubscoreExplanation => {
+    const lines: ExplanationLine[] = [];
+    scored.forEach((facility) => {
+      getFacilityShares(facility).forEach((share) => {
+        const weight = weights[subscore]?.[share.category] || 0;
+        if (weight === 0) return;
+        lines.push({
+          facility,
+          category: share.category,
+          factor: share.factor,
+          adjustment: share.adjustment,
+          weight,
+          quality: facility.quality?.multiplier ?? 1,
+          points: facility.contribution * share.factor * weight,
+        });
+      });
+    });
+    lines.sort((a, b) => b.points - a.points);
+
+    const raw = lines.reduce((sum, line) => sum + line.points, 0);
+    const rounded = Math.round(raw);
+    return {
+      raw,
+      score: Math.min(100, rounded),
+      clipped: rounded > 100,
+      lines,
+    };
+  };
+
+  return {
+    services: explain("services"),
+    mobility: explain("mobility"),
+    safety: explain("safety"),
+    environment: explain("environment"),
+  };
+};
+
+// Times of day compared across the week
+export const DAYTIME_MINUTES = 12 * 60;
+export const NIGHT_MINUTES = 22 * 60;
+
+// Overall score of one weekday by day and by night
+export interface WeekdayScore {
+  day: number; // 0 is Monday
+  daytime: number;
+  night: number;
+}
+
+// Rescore a facility set at midday and at night on every weekday, showing
+// how opening hours change the score across the week
+export const scoreWeek = (
+  facilities: Facility[],
+  lat: number,
+  lng: number,
+  address: string,
+  options: ScoringOptions = {}
+): WeekdayScore[] => {
+  const overallAt = (day: number, minutes: number) =>
+    scoreFacilities(facilities, lat, lng, address, {
+      ...options,
+      time: { day, minutes },
+    }).data.overall;
+
+  return WEEKDAY_KEYS.map((_, day) => ({
+    day,
+    daytime: overallAt(day, DAYTIME_MINUTES),
+    night: overallAt(day, NIGHT_MINUTES),
+  }));
+};
+
+// OSM elements around a location, grouped like the tile query sections
+export interface LocationElements {
+  elementsFor: (category: string) => OverpassElement[];
+  network: OverpassElement[]; // Walkable ways with geometry
+  extraFacilities?: Facility[]; // Already classified facilities, e.g. custom POIs
+}
+
+export interface LocationAnalysis {
+  data: LiveabilityData;
+  facilities: Facility[];
+  isochrones: IsochroneBand[];
+}
+
+// Classify the elements around a location, measure walking distances on the
+// street network and score the result
+export const analyzeLocation = (
+  elements: LocationElements,
+  lat: number,
+  lng: number,
+  address: string,
+  options: ScoringOptions = {}
+): LocationAnalysis => {
+  const maxRadius = getMaxRadius(options.radii);
+  const isochroneDistance =
+    Math.max(...ISOCHRONE_MINUTES) * WALKING_SPEED_M_PER_MIN;
+
+  const allFacilities = collectFacilities(
+    elements.elementsFor,
+    lat,
+    lng,
+    options.radii,
+    options.namePack
+  );
+  allFacilities.push(...(elements.extraFacilities || []));
+
+  // ===== WALKING NETWORK (distances + isochrones) =====
+  let isochrones: IsochroneBand[] = [];
+  try {
+    const graph = buildPedestrianGraph(elements.network);
+    const networkDistances = computeNetworkDistances(
+      graph,
+      { lat, lng },
+      allFacilities,
+      Math.max(maxRadius, isochroneDistance) * 2
+    );
+    networkDistances.forEach((networkDistance, index) => {
+      allFacilities[index].networkDistance = networkDistance;
+    });
+    isochrones = buildIsochrones(graph, { lat, lng });
+  } catch (error) {
+    // Fall back to straight-line distances and radius circles
+    console.error("[Livability] Failed to build walking network", error);
+  }
+  // ===== END WALKING NETWORK =====
+
+  return {
+    ...scoreFacilities(allFacilities, lat, lng, address, options),
+    isochrones,
+  };
+};
+
+// Initial empty state
+export const getEmptyLivabilityData = (): LiveabilityData => ({
+  overall: 0,
+  subscores: {
+    services: 0,
+    mobility: 0,
+    safety: 0,
+    environment: 0,
+  },
+  location: null,
+  facilityCounts: createCategoryRecord(),
+});
+
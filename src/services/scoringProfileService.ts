@@ -0,0 +1,265 @@
+// Service for managing named scoring profiles
+// Built-in profiles are always available; custom profiles are stored in localStorage
+import type { FacilityCategory, SubscoreKey } from "./scoringCore";
+import {
+  CATEGORY_KEYS,
+  CATEGORY_TAXONOMY,
+  getCategoryDefinition,
+} from "./categoryTaxonomy";
+import type { QualityMultipliers } from "./facilityQuality";
+
+// Shape of the distance decay curve; it always ends at the category's search radius
+export interface DecayConfig {
+  maxContribution: number;
+  decayRate: number;
+}
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  description?: string;
+  builtIn?: boolean;
+  // Multiplier applied to each category's contribution sum, per subscore
+  categoryWeights: Record<SubscoreKey, Partial<Record<FacilityCategory, number>>>;
+  // Per-category overrides of the distance decay curve
+  decayConfig: Partial<Record<FacilityCategory, Partial<DecayConfig>>>;
+  // Share of each subscore in the overall score
+  subscoreMix: Record<SubscoreKey, number>;
+  // Per-category overrides of the quality attribute multipliers
+  qualityMultipliers?: Partial<Record<FacilityCategory, QualityMultipliers>>;
+}
+
+// Different decay rates for different facility types, from the category taxonomy
+export const DEFAULT_DECAY_CONFIG = Object.fromEntries(
+  CATEGORY_KEYS.map((category) => [category, CATEGORY_TAXONOMY[category].decay])
+) as Record<FacilityCategory, DecayConfig>;
+
+// Multipliers for tagged quality attributes, from the category taxonomy
+export const DEFAULT_QUALITY_MULTIPLIERS = Object.fromEntries(
+  CATEGORY_KEYS.map((category) => [
+    category,
+    getCategoryDefinition(category)?.quality || {},
+  ])
+) as Record<FacilityCategory, QualityMultipliers>;
+
+// Base divisors loosely based on "target score" (e.g., getting 20-30 contribution
+// points = great); each category lists its share per subscore in the taxonomy
+export const DEFAULT_CATEGORY_WEIGHTS = (() => {
+  const weights: ScoringProfile["categoryWeights"] = {
+    services: {},
+    mobility: {},
+    safety: {},
+    environment: {},
+  };
+  CATEGORY_KEYS.forEach((category) => {
+    Object.entries(CATEGORY_TAXONOMY[category].weights).forEach(
+      ([subscore, weight]) => {
+        weights[subscore as SubscoreKey][category] = weight;
+      }
+    );
+  });
+  return weights;
+})();
+
+export const DEFAULT_SUBSCORE_MIX: ScoringProfile["subscoreMix"] = {
+  services: 0.3,
+  mobility: 0.25,
+  safety: 0.25,
+  environment: 0.2,
+};
+
+export const DEFAULT_PROFILE_ID = "balanced";
+
+const BUILT_IN_PROFILES: ScoringProfile[] = [
+  {
+    id: DEFAULT_PROFILE_ID,
+    name: "Balanced",
+    description: "Default weighting for general livability",
+    builtIn: true,
+    categoryWeights: DEFAULT_CATEGORY_WEIGHTS,
+    decayConfig: {},
+    subscoreMix: DEFAULT_SUBSCORE_MIX,
+  },
+  {
+    id: "family-with-kids",
+    name: "Family with kids",
+    description: "Schools, playgrounds and parks close to home",
+    builtIn: true,
+    categoryWeights: {
+      ...DEFAULT_CATEGORY_WEIGHTS,
+      services: { health: 1.2, education: 1.6, market: 0.8, religious: 0.6 },
+      environment: { recreation: 3.0 },
+    },
+    decayConfig: {
+      education: { maxContribution: 12, decayRate: 1.1 },
+      recreation: { maxContribution: 10 },
+    },
+    subscoreMix: { services: 0.35, mobility: 0.15, safety: 0.3, environment: 0.2 },
+  },
+  {
+    id: "retiree",
+    name: "Retiree",
+    description: "Healthcare and accessible streets within a short walk",
+    builtIn: true,
+    categoryWeights: {
+      ...DEFAULT_CATEGORY_WEIGHTS,
+      services: { health: 1.8, education: 0.3, market: 1.0, religious: 1.0 },
+      safety: { safety: 0.6, police: 1.5, health: 1.0, accessibility: 2.0 },
+    },
+    decayConfig: {
+      health: { maxContribution: 12, decayRate: 1.2 },
+      accessibility: { maxContribution: 6 },
+    },
+    qualityMultipliers: {
+      health: { "wheelchair.yes": 1.15, "wheelchair.no": 0.7 },
+      transport: { "wheelchair.yes": 1.2, "wheelchair.no": 0.6 },
+    },
+    subscoreMix: { services: 0.4, mobility: 0.15, safety: 0.3, environment: 0.15 },
+  },
+  {
+    id: "car-free-commuter",
+    name: "Car-free commuter",
+    description: "Public transport and walkable streets first",
+    builtIn: true,
+    categoryWeights: {
+      ...DEFAULT_CATEGORY_WEIGHTS,
+      mobility: { transport: 2.0, walkability: 0.8 },
+    },
+    decayConfig: {
+      transport: { maxContribution: 12, decayRate: 1.1 },
+      walkability: { maxContribution: 14 },
+    },
+    subscoreMix: { services: 0.25, mobility: 0.45, safety: 0.15, environment: 0.15 },
+  },
+];
+
+// Look up a built-in profile without touching storage (also used server-side)
+export const getBuiltInProfile = (id: string): ScoringProfile | undefined =>
+  BUILT_IN_PROFILES.find((profile) => profile.id === id);
+
+const STORAGE_KEY = "futuricity_scoring_profiles";
+const ACTIVE_PROFILE_KEY = "futuricity_active_scoring_profile";
+
+class ScoringProfileService {
+  // Get built-in and custom profiles
+  getAllProfiles(): ScoringProfile[] {
+    return [...BUILT_IN_PROFILES, ...this.getCustomProfiles()];
+  }
+
+  // Get custom profiles from localStorage
+  getCustomProfiles(): ScoringProfile[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return [];
+      return JSON.parse(stored);
+    } catch (error) {
+      console.error("Error loading scoring profiles:", error);
+      return [];
+    }
+  }
+
+  // Get profile by ID, falling back to the default profile
+  getProfileById(id: string | null | undefined): ScoringProfile {
+    return (
+      this.getAllProfiles().find((p) => p.id === id) || BUILT_IN_PROFILES[0]
+    );
+  }
+
+  getDefaultProfile(): ScoringProfile {
+    return BUILT_IN_PROFILES[0];
+  }
+
+  // Add or update a custom profile
+  saveProfile(
+    profile: Omit<ScoringProfile, "id" | "builtIn"> & { id?: string }
+  ): ScoringProfile {
+    const profiles = this.getCustomProfiles();
+    const isBuiltIn = BUILT_IN_PROFILES.some((p) => p.id === profile.id);
+    const saved: ScoringProfile = {
+      ...profile,
+      id:
+        profile.id && !isBuiltIn
+          ? profile.id
+          : `profile-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      builtIn: false,
+    };
+
+    const index = profiles.findIndex((p) => p.id === saved.id);
+    if (index === -1) {
+      profiles.push(saved);
+    } else {
+      profiles[index] = saved;
+    }
+    this.saveProfiles(profiles);
+
+    return saved;
+  }
+
+  // Delete a custom profile (built-in profiles cannot be deleted)
+  deleteProfile(id: string): boolean {
+    const profiles = this.getCustomProfiles();
+    const filtered = profiles.filter((p) => p.id !== id);
+
+    if (filtered.length === profiles.length) return false;
+
+    this.saveProfiles(filtered);
+    if (this.getActiveProfileId() === id) {
+      this.setActiveProfileId(DEFAULT_PROFILE_ID);
+    }
+    return true;
+  }
+
+  getActiveProfileId(): string {
+    try {
+      return localStorage.getItem(ACTIVE_PROFILE_KEY) || DEFAULT_PROFILE_ID;
+    } catch {
+      return DEFAULT_PROFILE_ID;
+    }
+  }
+
+  setActiveProfileId(id: string): void {
+    try {
+      localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+    } catch (error) {
+      console.error("Error saving active scoring profile:", error);
+    }
+  }
+
+  // Save custom profiles to localStorage
+  private saveProfiles(profiles: ScoringProfile[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+    } catch (error) {
+      console.error("Error saving scoring profiles:", error);
+    }
+  }
+}
+
+// Resolve the decay curve for a category, applying profile overrides on top of defaults
+export const resolveDecayConfig = (
+  category: string,
+  profile?: ScoringProfile
+): DecayConfig => {
+  const base =
+    DEFAULT_DECAY_CONFIG[category as FacilityCategory] ||
+    DEFAULT_DECAY_CONFIG.health;
+  // Profiles saved before the curve followed the search radius may still carry
+  // a maxDistance; only the curve shape is taken from them
+  const override = profile?.decayConfig?.[category as FacilityCategory];
+  return {
+    maxContribution: override?.maxContribution ?? base.maxContribution,
+    decayRate: override?.decayRate ?? base.decayRate,
+  };
+};
+
+// Resolve the quality multipliers for a category, applying profile overrides on top of defaults
+export const resolveQualityMultipliers = (
+  category: string,
+  profile?: ScoringProfile
+): QualityMultipliers => ({
+  ...DEFAULT_QUALITY_MULTIPLIERS[category as FacilityCategory],
+  ...profile?.qualityMultipliers?.[category as FacilityCategory],
+});
+
+// Export singleton instance
+export const scoringProfileService = new ScoringProfileService();
@@ -0,0 +1,168 @@
+// Optimal site finder
+// Searches candidate points across a drawn area for the spots where one new
+// facility of a category would raise the area-average livability score most.
+// The area is represented by a hex grid of demand points scored like the
+// heatmap, all from one shared facility fetch.
+import {
+  Facility,
+  FacilityCategory,
+  LivabilityOptions,
+  calculateDistance,
+  fetchAreaFacilities,
+  getCategoryRadius,
+  scoreFacilities,
+} from "./livabilityService";
+import {
+  facilitiesNear,
+  generateHexGrid,
+  getRingBounds,
+} from "./heatmapService";
+
+export interface SiteCandidate {
+  id: string;
+  rank: number;
+  lat: number;
+  lng: number;
+  impact: number; // Increase of the area-average overall score
+  reach: number; // Demand points within the category radius
+}
+
+export interface SiteFinderResult {
+  area: Array<[number, number]>; // Drawn polygon ring as [lng, lat]
+  category: FacilityCategory;
+  baselineAverage: number; // Area-average overall score today
+  demandPoints: number;
+  candidatesTested: number;
+  candidates: SiteCandidate[]; // Best first
+  generatedAt: number;
+}
+
+// Number of ranked sites reported
+export const SITE_FINDER_RESULTS = 5;
+
+// Grid spacing (meters) and size limits; spacing grows until the grid fits
+const DEMAND_CELL_SIZE = 150;
+const MAX_DEMAND_POINTS = 200;
+const CANDIDATE_CELL_SIZE = 200;
+const MAX_CANDIDATES = 120;
+
+// Reported sites are at least this many candidate cells apart
+const MIN_SITE_SEPARATION = 1.5;
+
+interface DemandPoint {
+  lat: number;
+  lng: number;
+  nearby: Facility[];
+  overall: number;
+}
+
+// Rank candidate sites for a new facility of the given category
+export const findOptimalSites = async (
+  ring: Array<[number, number]>,
+  category: FacilityCategory,
+  options: LivabilityOptions = {},
+  onProgress?: (done: number, total: number) => void
+): Promise<SiteFinderResult> => {
+  const demandGrid = generateHexGrid(ring, DEMAND_CELL_SIZE, MAX_DEMAND_POINTS);
+  const candidateGrid = generateHexGrid(
+    ring,
+    CANDIDATE_CELL_SIZE,
+    MAX_CANDIDATES
+  );
+  if (demandGrid.centers.length === 0 || candidateGrid.centers.length === 0) {
+    throw new Error("The area is too small to search");
+  }
+
+  const facilities = await fetchAreaFacilities(getRingBounds(ring), options);
+
+  // Walking network distances are per origin, so grid points use straight-line distance
+  const pointOptions: LivabilityOptions = { ...options, distanceMode: "straight" };
+
+  const points: DemandPoint[] = demandGrid.centers.map(({ lat, lng }) => {
+    const nearby = facilitiesNear(facilities, lat, lng, options);
+    return {
+      lat,
+      lng,
+      nearby,
+      overall: scoreFacilities(nearby, lat, lng, "", pointOptions).data.overall,
+    };
+  });
+  const baselineAverage =
+    points.reduce((sum, point) => sum + point.overall, 0) / points.length;
+  const radius = getCategoryRadius(category, options.radii);
+
+  // Only demand points within reach of a candidate change their score
+  const scored: SiteCandidate[] = [];
+  for (let i = 0; i < candidateGrid.centers.length; i++) {
+    const { lat, lng } = candidateGrid.centers[i];
+    let gain = 0;
+    let reach = 0;
+
+    points.forEach((point) => {
+      const distance = calculateDistance(point.lat, point.lng, lat, lng);
+      if (distance > radius) return;
+      const site: Facility = {
+        id: "site-candidate",
+        name: "",
+        category,
+        lat,
+        lng,
+        distance: Math.round(distance),
+        contribution: 0,
+      };
+      const { data } = scoreFacilities(
+        [...point.nearby, site],
+        point.lat,
+        point.lng,
+        "",
+        pointOptions
+      );
+      gain += data.overall - point.overall;
+      reach++;
+    });
+
+    scored.push({
+      id: `site-${i}`,
+      rank: 0,
+      lat,
+      lng,
+      impact: gain / points.length,
+      reach,
+    });
+
+    // Yield to the UI every few candidates
+    if (i % 5 === 4) {
+      onProgress?.(i + 1, candidateGrid.centers.length);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+  onProgress?.(candidateGrid.centers.length, candidateGrid.centers.length);
+
+  // Best candidates first, skipping neighbours of an already chosen site
+  const separation = candidateGrid.cellSize * MIN_SITE_SEPARATION;
+  const candidates: SiteCandidate[] = [];
+  scored
+    .filter((candidate) => candidate.impact > 0)
+    .sort((a, b) => b.impact - a.impact)
+    .forEach((candidate) => {
+      if (candidates.length >= SITE_FINDER_RESULTS) return;
+      const tooClose = candidates.some(
+        (chosen) =>
+          calculateDistance(chosen.lat, chosen.lng, candidate.lat, candidate.lng) <
+          separation
+      );
+      if (!tooClose) {
+        candidates.push({ ...candidate, rank: candidates.length + 1 });
+      }
+    });
+
+  return {
+    area: ring,
+    category,
+    baselineAverage,
+    demandPoints: points.length,
+    candidatesTested: candidateGrid.centers.length,
+    candidates,
+    generatedAt: Date.now(),
+  };
+};
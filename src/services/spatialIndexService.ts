@@ -0,0 +1,277 @@
+// Spatial index service
+// Overpass data is fetched per geohash tile and kept in geohash buckets, so any
+// point whose search area is covered by loaded tiles can be analyzed without a
+// network call.
+import { cacheService } from "./cacheService";
+import {
+  GeoBounds,
+  boundsAround,
+  calculateDistance,
+  decodeGeohashBounds,
+  encodeGeohash,
+  geohashesInBounds,
+} from "./geohashService";
+import { ALL_NAME_PACKS, DEFAULT_NAME_PACK } from "./namePatternPacks";
+
+// Raw Overpass element (node or way) as returned by `out bb`, `out center` or `out geom`
+export interface OverpassElement {
+  type: string;
+  id: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  bounds?: { minlat: number; minlon: number; maxlat: number; maxlon: number };
+  nodes?: number[];
+  geometry?: Array<{ lat: number; lon: number } | null>;
+  tags?: Record<string, string>;
+}
+
+// Elements of one tile, grouped by the query section that returned them
+export interface OverpassTile {
+  hash: string;
+  fetchedAt: number;
+  endpoint?: string; // Overpass endpoint that served the tile
+  namePack?: string; // Name-pattern pack the tile was queried with
+  sections: Record<string, OverpassElement[]>;
+}
+
+// Tiles are geohash cells of precision 6 (~1.2 x 0.6 km)
+export const TILE_PRECISION = 6;
+
+// Elements inside a tile are bucketed at precision 7 (~150 x 150 m)
+const BUCKET_PRECISION = 7;
+
+// How long fetched tiles stay valid
+export const TILE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+// Endpoint recorded on tiles served from the imported OSM extract
+export const OFFLINE_ENDPOINT = "offline-extract";
+
+// Tiles cached before name-pattern packs were queried with the Indonesian names
+const LEGACY_NAME_PACK = "id";
+
+// Whether a tile's sections hold the name matches of a pack
+const hasNamePack = (tile: OverpassTile, namePack = DEFAULT_NAME_PACK) => {
+  const tilePack = tile.namePack || LEGACY_NAME_PACK;
+  return tilePack === ALL_NAME_PACKS || tilePack === namePack;
+};
+
+// Representative point of an element (node position, way center or bounds center)
+export const getElementPosition = (
+  element: OverpassElement
+): { lat: number; lng: number } | null => {
+  if (element.lat !== undefined && element.lon !== undefined) {
+    return { lat: element.lat, lng: element.lon };
+  }
+  if (element.center) {
+    return { lat: element.center.lat, lng: element.center.lon };
+  }
+  if (element.bounds) {
+    return {
+      lat: (element.bounds.minlat + element.bounds.maxlat) / 2,
+      lng: (element.bounds.minlon + element.bounds.maxlon) / 2,
+    };
+  }
+  return null;
+};
+
+const intersects = (a: GeoBounds, b: GeoBounds) =>
+  a.south <= b.north && a.north >= b.south && a.west <= b.east && a.east >= b.west;
+
+const elementBounds = (element: OverpassElement): GeoBounds | null => {
+  if (element.bounds) {
+    return {
+      south: element.bounds.minlat,
+      west: element.bounds.minlon,
+      north: element.bounds.maxlat,
+      east: element.bounds.maxlon,
+    };
+  }
+  const position = getElementPosition(element);
+  return position
+    ? {
+        south: position.lat,
+        west: position.lng,
+        north: position.lat,
+        east: position.lng,
+      }
+    : null;
+};
+
+class TileStore {
+  private tiles = new Map<string, OverpassTile>();
+  // section -> bucket geohash -> elements
+  private buckets = new Map<string, Map<string, OverpassElement[]>>();
+
+  // Tiles covering the bounds that are not loaded yet, or were queried with
+  // another name-pattern pack. Tiles from the offline extract only count while
+  // offline, so Overpass replaces them once back online.
+  // Tiles persisted by an earlier session are restored from the cache first.
+  async getMissingTiles(
+    bounds: GeoBounds,
+    namePack?: string,
+    offline = false
+  ): Promise<string[]> {
+    const missing: string[] = [];
+    for (const hash of geohashesInBounds(bounds, TILE_PRECISION)) {
+      const tile = this.tiles.get(hash);
+      if (
+        tile &&
+        Date.now() - tile.fetchedAt <= TILE_TTL &&
+        hasNamePack(tile, namePack) &&
+        (offline || tile.endpoint !== OFFLINE_ENDPOINT)
+      ) {
+        continue;
+      }
+      if (tile) this.removeTile(hash);
+
+      const cached = await cacheService.get<OverpassTile>(`overpass-tile:${hash}`);
+      if (cached && hasNamePack(cached, namePack)) {
+        this.indexTile(cached);
+      } else {
+        missing.push(hash);
+      }
+    }
+    return missing;
+  }
+
+  // Split the elements of one fetch into the requested tiles and index them.
+  // Point-like elements belong to the tile containing them; elements with
+  // geometry (street network) are kept in every tile they cross.
+  // Tiles are persisted to the cache unless persist is false.
+  addTiles(
+    hashes: string[],
+    sections: Record<string, OverpassElement[]>,
+    endpoint?: string,
+    persist = true,
+    namePack = DEFAULT_NAME_PACK
+  ): void {
+    const fetchedAt = Date.now();
+    const tiles = new Map<string, OverpassTile>(
+      hashes.map((hash) => [
+        hash,
+        { hash, fetchedAt, endpoint, namePack, sections: {} },
+      ])
+    );
+
+    Object.entries(sections).forEach(([section, elements]) => {
+      tiles.forEach((tile) => (tile.sections[section] = []));
+
+      elements.forEach((element) => {
+        if (element.geometry) {
+          const bounds = elementBounds(element);
+          if (!bounds) return;
+          tiles.forEach((tile) => {
+            if (intersects(bounds, decodeGeohashBounds(tile.hash))) {
+              tile.sections[section].push(element);
+            }
+          });
+          return;
+        }
+
+        const position = getElementPosition(element);
+        if (!position) return;
+        const tile = tiles.get(
+          encodeGeohash(position.lat, position.lng, TILE_PRECISION)
+        );
+        tile?.sections[section].push(element);
+      });
+    });
+
+    tiles.forEach((tile) => {
+      this.indexTile(tile);
+      if (persist) {
+        cacheService.set(`overpass-tile:${tile.hash}`, tile, TILE_TTL);
+      }
+    });
+  }
+
+  // Point-like elements of a section within radius meters of a point
+  queryRadius(
+    section: string,
+    lat: number,
+    lng: number,
+    radius: number
+  ): OverpassElement[] {
+    const bounds = boundsAround(lat, lng, radius);
+    return this.queryBounds(section, bounds).filter((element) => {
+      const position = getElementPosition(element)!;
+      return calculateDistance(lat, lng, position.lat, position.lng) <= radius;
+    });
+  }
+
+  // Elements of a section inside (or, for geometries, crossing) the bounds
+  queryBounds(section: string, bounds: GeoBounds): OverpassElement[] {
+    const sectionBuckets = this.buckets.get(section);
+    if (!sectionBuckets) return [];
+
+    // Geometries can sit in several buckets and tiles; report each once
+    const seen = new Set<string>();
+    const results: OverpassElement[] = [];
+    geohashesInBounds(bounds, BUCKET_PRECISION).forEach((hash) => {
+      sectionBuckets.get(hash)?.forEach((element) => {
+        const key = `${element.type}/${element.id}`;
+        if (seen.has(key)) return;
+        const box = elementBounds(element);
+        if (!box || !intersects(box, bounds)) return;
+        seen.add(key);
+        results.push(element);
+      });
+    });
+    return results;
+  }
+
+  // Overpass endpoints that served the loaded tiles covering the bounds
+  getEndpoints(bounds: GeoBounds): string[] {
+    const endpoints = new Set<string>();
+    geohashesInBounds(bounds, TILE_PRECISION).forEach((hash) => {
+      const endpoint = this.tiles.get(hash)?.endpoint;
+      if (endpoint) endpoints.add(endpoint);
+    });
+    return Array.from(endpoints);
+  }
+
+  get tileCount(): number {
+    return this.tiles.size;
+  }
+
+  clear(): void {
+    this.tiles.clear();
+    this.buckets.clear();
+  }
+
+  private indexTile(tile: OverpassTile): void {
+    this.tiles.set(tile.hash, tile);
+
+    Object.entries(tile.sections).forEach(([section, elements]) => {
+      if (!this.buckets.has(section)) this.buckets.set(section, new Map());
+      const sectionBuckets = this.buckets.get(section)!;
+
+      elements.forEach((element) => {
+        // Geometries go into every bucket they cross, points into one bucket
+        const position = getElementPosition(element);
+        if (!position) return;
+        const box = element.geometry ? elementBounds(element) : null;
+        const hashes = box
+          ? geohashesInBounds(box, BUCKET_PRECISION)
+          : [encodeGeohash(position.lat, position.lng, BUCKET_PRECISION)];
+        hashes.forEach((hash) => {
+          const bucket = sectionBuckets.get(hash);
+          if (bucket) bucket.push(element);
+          else sectionBuckets.set(hash, [element]);
+        });
+      });
+    });
+  }
+
+  // Drop an expired tile and rebuild the buckets from the remaining tiles
+  private removeTile(hash: string): void {
+    this.tiles.delete(hash);
+    const remaining = Array.from(this.tiles.values());
+    this.clear();
+    remaining.forEach((tile) => this.indexTile(tile));
+  }
+}
+
+// Export singleton instance
+export const tileStore = new TileStore();
@@ -0,0 +1,217 @@
+// Score change tracking for saved locations
+// Tracked locations are re-analyzed on request, or once the map data cached for
+// them has expired. Every run is stored in the analysis journal, which holds the
+// score time series of the spot.
+import {
+  CategoryRadii,
+  DistanceMode,
+  Facility,
+  LivabilityOptions,
+  calculateLivabilityScore,
+  getCategoryRadius,
+} from "./livabilityService";
+import {
+  JournalEntry,
+  JournalUserMode,
+  getLocationKey,
+  journalService,
+} from "./journalService";
+import { scoringProfileService } from "./scoringProfileService";
+import { TILE_TTL } from "./spatialIndexService";
+import { CATEGORY_KEYS } from "./categoryTaxonomy";
+
+export interface TrackedLocation {
+  id: string;
+  address: string;
+  lat: number;
+  lng: number;
+  locationKey: string;
+  // Runs are scored with this profile, radii and distance mode so they stay comparable
+  profileId: string;
+  radii?: CategoryRadii; // Unset on locations tracked before radii were pinned
+  distanceMode?: DistanceMode;
+  namePack?: string; // Name-pattern pack of the location's country
+  trackedAt: number;
+  lastRunAt: number;
+}
+
+export interface FacilityChanges {
+  added: Facility[];
+  removed: Facility[];
+}
+
+// Whether a journal entry is a run of a tracked location. Entries saved before
+// the settings were recorded are assumed to match.
+const isRunOf = (location: TrackedLocation, entry: JournalEntry): boolean =>
+  entry.locationKey === location.locationKey &&
+  entry.profileId === location.profileId &&
+  !entry.time && // Day-and-time scores leave out closed facilities
+  (!location.radii ||
+    !entry.radii ||
+    CATEGORY_KEYS.every(
+      (category) =>
+        getCategoryRadius(category, location.radii) ===
+        getCategoryRadius(category, entry.radii)
+    )) &&
+  (!location.distanceMode ||
+    !entry.distanceMode ||
+    location.distanceMode === entry.distanceMode);
+
+// Facilities that appeared or disappeared between two runs
+export const diffFacilities = (
+  previous: Facility[],
+  current: Facility[]
+): FacilityChanges => {
+  const previousIds = new Set(previous.map((f) => f.id));
+  const currentIds = new Set(current.map((f) => f.id));
+  return {
+    added: current.filter((f) => !previousIds.has(f.id)),
+    removed: previous.filter((f) => !currentIds.has(f.id)),
+  };
+};
+
+class TrackingService {
+  private readonly STORAGE_KEY = "futuricity_tracked_locations";
+
+  constructor() {
+    // The journal holds the score history of tracked locations
+    journalService.retainLocations(() =>
+      this.getTrackedLocations().map((l) => l.locationKey)
+    );
+  }
+
+  getTrackedLocations(): TrackedLocation[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return [];
+      return JSON.parse(stored);
+    } catch (error) {
+      console.error("Error loading tracked locations:", error);
+      return [];
+    }
+  }
+
+  // Tracked location at the given coordinates, if any
+  findTracked(lat: number, lng: number): TrackedLocation | undefined {
+    const locationKey = getLocationKey(lat, lng);
+    return this.getTrackedLocations().find((l) => l.locationKey === locationKey);
+  }
+
+  // Start tracking an analyzed location
+  track(
+    lat: number,
+    lng: number,
+    address: string,
+    profileId: string,
+    radii: CategoryRadii,
+    distanceMode: DistanceMode,
+    namePack?: string
+  ): TrackedLocation {
+    const existing = this.findTracked(lat, lng);
+    if (existing) return existing;
+
+    const location: TrackedLocation = {
+      id: `tracked_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      address,
+      lat,
+      lng,
+      locationKey: getLocationKey(lat, lng),
+      profileId,
+      radii,
+      distanceMode,
+      namePack,
+      trackedAt: Date.now(),
+      lastRunAt: Date.now(),
+    };
+    this.saveTrackedLocations([...this.getTrackedLocations(), location]);
+    return location;
+  }
+
+  untrack(id: string): void {
+    this.saveTrackedLocations(
+      this.getTrackedLocations().filter((l) => l.id !== id)
+    );
+  }
+
+  // Count a journal entry as a run of the tracked location it belongs to
+  recordRun(entry: JournalEntry): void {
+    const tracked = this.getTrackedLocations();
+    if (!tracked.some((l) => isRunOf(l, entry))) return;
+    this.saveTrackedLocations(
+      tracked.map((l) =>
+        isRunOf(l, entry) ? { ...l, lastRunAt: entry.createdAt } : l
+      )
+    );
+  }
+
+  // Runs of a tracked location, oldest first
+  async getHistory(location: TrackedLocation): Promise<JournalEntry[]> {
+    const entries = await journalService.getEntriesAt(location.lat, location.lng);
+    return entries
+      .filter((entry) => isRunOf(location, entry))
+      .reverse();
+  }
+
+  // Tracked locations whose cached map data has expired since their last run
+  getDueLocations(): TrackedLocation[] {
+    return this.getTrackedLocations().filter(
+      (l) => Date.now() - l.lastRunAt > TILE_TTL
+    );
+  }
+
+  // Re-analyze a tracked location and store the run in the journal
+  async refresh(
+    location: TrackedLocation,
+    options: Omit<LivabilityOptions, "profile">,
+    userMode: JournalUserMode
+  ): Promise<JournalEntry> {
+    const profile = scoringProfileService.getProfileById(location.profileId);
+    const radii = location.radii ?? options.radii;
+    const distanceMode = location.distanceMode ?? options.distanceMode;
+    const result = await calculateLivabilityScore(
+      location.lat,
+      location.lng,
+      location.address,
+      {
+        ...options,
+        profile,
+        radii,
+        distanceMode,
+        namePack: location.namePack ?? options.namePack,
+      }
+    );
+    const entry = await journalService.addEntry({
+      address: location.address,
+      lat: location.lat,
+      lng: location.lng,
+      data: result.data,
+      facilities: result.facilities,
+      isochrones: result.isochrones,
+      userMode,
+      profileId: profile.id,
+      profileName: profile.name,
+      radii,
+      distanceMode,
+    });
+    // Locations tracked before radii were pinned keep the first settings used
+    this.saveTrackedLocations(
+      this.getTrackedLocations().map((l) =>
+        l.id === location.id
+          ? { ...l, radii, distanceMode, lastRunAt: entry.createdAt }
+          : l
+      )
+    );
+    return entry;
+  }
+
+  private saveTrackedLocations(locations: TrackedLocation[]): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(locations));
+    } catch (error) {
+      console.error("Error saving tracked locations:", error);
+    }
+  }
+}
+
+// Export singleton instance
+export const trackingService = new TrackingService();
@@ -0,0 +1,322 @@
+// Walking network service
+// Builds a pedestrian graph from Overpass ways (fetched with `out geom`) and
+// computes shortest walking distances from a point using Dijkstra's algorithm.
+import { calculateDistance } from "./geohashService";
+
+export interface NetworkNode {
+  id: number;
+  lat: number;
+  lng: number;
+}
+
+export interface PedestrianGraph {
+  nodes: Map<number, NetworkNode>;
+  adjacency: Map<number, Array<{ to: number; length: number }>>;
+  // Coarse grid of node ids used to snap points onto the network quickly
+  grid: Map<string, number[]>;
+}
+
+// Overpass element as returned by `out geom`
+export interface OverpassWayElement {
+  type: string;
+  id: number;
+  nodes?: number[];
+  geometry?: Array<{ lat: number; lon: number } | null>;
+  tags?: Record<string, string>;
+}
+
+// Highway types a pedestrian can use
+export const WALKABLE_HIGHWAYS = [
+  "footway",
+  "pedestrian",
+  "path",
+  "steps",
+  "living_street",
+  "residential",
+  "service",
+  "unclassified",
+  "tertiary",
+  "secondary",
+  "primary",
+  "track",
+  "cycleway",
+  "crossing",
+];
+
+export interface IsochroneBand {
+  minutes: number;
+  distance: number; // Walking distance reachable within `minutes` (meters)
+  coordinates: Array<[number, number]>; // Closed polygon ring as [lng, lat]
+}
+
+// Average walking speed used to convert time to distance (meters per minute)
+export const WALKING_SPEED_M_PER_MIN = 80;
+
+// Walking time bands shown on the map and in the score card
+export const ISOCHRONE_MINUTES = [5, 10, 15];
+
+// Convert walking distance (meters) to whole minutes
+export const toWalkingMinutes = (distance: number): number =>
+  Math.ceil(distance / WALKING_SPEED_M_PER_MIN);
+
+// Points further than this from the network are not snapped (meters)
+const MAX_SNAP_DISTANCE = 250;
+
+// Grid cell size in degrees (~110m at the equator, narrower east-west elsewhere)
+const GRID_CELL = 0.001;
+
+const gridKey = (lat: number, lng: number) =>
+  `${Math.floor(lat / GRID_CELL)}:${Math.floor(lng / GRID_CELL)}`;
+
+// Overpass statement selecting walkable ways within an area filter, e.g. a bbox
+export const walkableWaysStatement = (areaFilter: string): string =>
+  `way["highway"~"^(${WALKABLE_HIGHWAYS.join("|")})$"]["foot"!~"^(no|private)$"]["access"!~"^(no|private)$"]${areaFilter};`;
+
+// Build an undirected pedestrian graph from Overpass way elements
+export const buildPedestrianGraph = (
+  elements: OverpassWayElement[]
+): PedestrianGraph => {
+  const nodes = new Map<number, NetworkNode>();
+  const adjacency = new Map<number, Array<{ to: number; length: number }>>();
+  const grid = new Map<string, number[]>();
+
+  const addNode = (id: number, lat: number, lng: number) => {
+    if (nodes.has(id)) return;
+    nodes.set(id, { id, lat, lng });
+    adjacency.set(id, []);
+    const key = gridKey(lat, lng);
+    const bucket = grid.get(key);
+    if (bucket) {
+      bucket.push(id);
+    } else {
+      grid.set(key, [id]);
+    }
+  };
+
+  elements.forEach((element) => {
+    if (element.type !== "way" || !element.geometry || !element.nodes) return;
+    if (!WALKABLE_HIGHWAYS.includes(element.tags?.highway)) return;
+
+    const count = Math.min(element.nodes.length, element.geometry.length);
+    for (let i = 0; i < count; i++) {
+      const point = element.geometry[i];
+      if (!point) continue;
+      addNode(element.nodes[i], point.lat, point.lon);
+
+      if (i === 0 || !element.geometry[i - 1]) continue;
+      const from = nodes.get(element.nodes[i - 1])!;
+      const to = nodes.get(element.nodes[i])!;
+      const length = calculateDistance(from.lat, from.lng, to.lat, to.lng);
+      adjacency.get(from.id)!.push({ to: to.id, length });
+      adjacency.get(to.id)!.push({ to: from.id, length });
+    }
+  });
+
+  return { nodes, adjacency, grid };
+};
+
+// Find the closest graph node to a point, searching outwards through the grid
+const snapToNetwork = (
+  graph: PedestrianGraph,
+  lat: number,
+  lng: number
+): { node: NetworkNode; distance: number } | null => {
+  const row = Math.floor(lat / GRID_CELL);
+  const col = Math.floor(lng / GRID_CELL);
+  let best: { node: NetworkNode; distance: number } | null = null;
+
+  // Cells narrow east-west away from the equator; size rings by the shorter side
+  const cellSize =
+    GRID_CELL * 111000 * Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+  const rings = Math.ceil(MAX_SNAP_DISTANCE / cellSize);
+
+  for (let ring = 0; ring <= rings; ring++) {
+    for (let dRow = -ring; dRow <= ring; dRow++) {
+      for (let dCol = -ring; dCol <= ring; dCol++) {
+        if (Math.max(Math.abs(dRow), Math.abs(dCol)) !== ring) continue;
+        const bucket = graph.grid.get(`${row + dRow}:${col + dCol}`);
+        bucket?.forEach((id) => {
+          const node = graph.nodes.get(id)!;
+          const distance = calculateDistance(lat, lng, node.lat, node.lng);
+          if (!best || distance < best.distance) {
+            best = { node, distance };
+          }
+        });
+      }
+    }
+    // Anything in a further ring is at least `ring` cells away
+    if (best && best.distance < ring * cellSize) break;
+  }
+
+  return best && best.distance <= MAX_SNAP_DISTANCE ? best : null;
+};
+
+// Minimal binary heap keyed by distance
+class MinHeap {
+  private items: Array<{ id: number; distance: number }> = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(item: { id: number; distance: number }) {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].distance <= items[i].distance) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { id: number; distance: number } | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].distance < items[smallest].distance)
+          smallest = left;
+        if (right < items.length && items[right].distance < items[smallest].distance)
+          smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+// Shortest walking distance from a node to every node within maxDistance
+const dijkstra = (
+  graph: PedestrianGraph,
+  sourceId: number,
+  maxDistance: number
+): Map<number, number> => {
+  const distances = new Map<number, number>([[sourceId, 0]]);
+  const heap = new MinHeap();
+  heap.push({ id: sourceId, distance: 0 });
+
+  while (heap.size > 0) {
+    const current = heap.pop()!;
+    if (current.distance > (distances.get(current.id) ?? Infinity)) continue;
+
+    graph.adjacency.get(current.id)?.forEach(({ to, length }) => {
+      const next = current.distance + length;
+      if (next > maxDistance) return;
+      if (next < (distances.get(to) ?? Infinity)) {
+        distances.set(to, next);
+        heap.push({ id: to, distance: next });
+      }
+    });
+  }
+
+  return distances;
+};
+
+// Compute walking distances from an origin to a set of targets.
+// Returns undefined for targets that cannot be snapped to or reached on the network.
+export const computeNetworkDistances = (
+  graph: PedestrianGraph,
+  origin: { lat: number; lng: number },
+  targets: Array<{ lat: number; lng: number }>,
+  maxDistance: number
+): Array<number | undefined> => {
+  const start = snapToNetwork(graph, origin.lat, origin.lng);
+  if (!start) return targets.map(() => undefined);
+
+  const distances = dijkstra(graph, start.node.id, maxDistance);
+
+  return targets.map((target) => {
+    const end = snapToNetwork(graph, target.lat, target.lng);
+    if (!end) return undefined;
+
+    const pathLength = distances.get(end.node.id);
+    if (pathLength === undefined) return undefined;
+
+    // A walk can never be shorter than the straight line
+    const straight = calculateDistance(origin.lat, origin.lng, target.lat, target.lng);
+    return Math.round(
+      Math.max(straight, start.distance + pathLength + end.distance)
+    );
+  });
+};
+
+// Build walking isochrone polygons, one per time band.
+// Reached network nodes are grouped into angular sectors around the origin and the
+// farthest node in each sector becomes a polygon vertex; empty sectors are interpolated.
+export const buildIsochrones = (
+  graph: PedestrianGraph,
+  origin: { lat: number; lng: number },
+  minutesList: number[] = ISOCHRONE_MINUTES,
+  sectors = 72
+): IsochroneBand[] => {
+  const start = snapToNetwork(graph, origin.lat, origin.lng);
+  if (!start) return [];
+
+  const maxDistance =
+    Math.max(...minutesList) * WALKING_SPEED_M_PER_MIN - start.distance;
+  if (maxDistance <= 0) return [];
+
+  const distances = dijkstra(graph, start.node.id, maxDistance);
+  const cosLat = Math.cos((origin.lat * Math.PI) / 180);
+
+  // Position of every reached node relative to the origin (local meters)
+  const reached = Array.from(distances.entries()).map(([id, pathLength]) => {
+    const node = graph.nodes.get(id)!;
+    const dx = (node.lng - origin.lng) * 111320 * cosLat;
+    const dy = (node.lat - origin.lat) * 111320;
+    const angle = (Math.atan2(dy, dx) + 2 * Math.PI) % (2 * Math.PI);
+    return {
+      walk: start.distance + pathLength,
+      reach: Math.sqrt(dx * dx + dy * dy),
+      sector: Math.floor((angle / (2 * Math.PI)) * sectors) % sectors,
+    };
+  });
+
+  return minutesList.map((minutes) => {
+    const limit = minutes * WALKING_SPEED_M_PER_MIN;
+    const reach: Array<number | null> = new Array(sectors).fill(null);
+
+    reached.forEach((point) => {
+      if (point.walk > limit) return;
+      if (reach[point.sector] === null || point.reach > reach[point.sector]!) {
+        reach[point.sector] = point.reach;
+      }
+    });
+
+    // Interpolate empty sectors from their nearest filled neighbours
+    const filled = reach
+      .map((value, index) => (value === null ? -1 : index))
+      .filter((index) => index !== -1);
+    const radii = reach.map((value, index) => {
+      if (value !== null) return value;
+      if (filled.length === 0) return start.distance;
+      const prev =
+        [...filled].reverse().find((i) => i < index) ?? filled[filled.length - 1];
+      const next = filled.find((i) => i > index) ?? filled[0];
+      const span = (next - prev + sectors) % sectors || sectors;
+      const offset = (index - prev + sectors) % sectors;
+      return reach[prev]! + ((reach[next]! - reach[prev]!) * offset) / span;
+    });
+
+    const coordinates = radii.map((radius, index): [number, number] => {
+      const angle = ((index + 0.5) / sectors) * 2 * Math.PI;
+      return [
+        origin.lng + (radius * Math.cos(angle)) / (111320 * cosLat),
+        origin.lat + (radius * Math.sin(angle)) / 111320,
+      ];
+    });
+    coordinates.push(coordinates[0]);
+
+    return { minutes, distance: limit, coordinates };
+  });
+};